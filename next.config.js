@@ -0,0 +1,17 @@
+/** @type {import('next').NextConfig} */
+const nextConfig = {
+    experimental: {
+        // Load their WASM/ONNX runtimes, grammars and native bindings from node_modules at runtime
+        serverComponentsExternalPackages: ['web-tree-sitter', '@huggingface/transformers', 'onnxruntime-node'],
+        // Read from disk by path, so output tracing can't see them; any route may parse code
+        outputFileTracingIncludes: {
+            '/api/**/*': [
+                './src/lib/context/parsers/queries/**/*.scm',
+                './node_modules/web-tree-sitter/tree-sitter.wasm',
+                './node_modules/tree-sitter-wasms/out/*.wasm',
+            ],
+        },
+    },
+};
+
+module.exports = nextConfig;
@@ -0,0 +1,157 @@
+import { NextResponse } from 'next/server';
+import { getLLMProvider, isLLMProviderName, type LLMProvider } from '@/lib/llm';
+import { checkRateLimit } from '@/lib/ratelimit';
+import { streamCompletion } from '@/lib/sse';
+import path from 'path';
+
+interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+// Keep prompts bounded on long conversations; the oldest turns drop off first
+const MAX_HISTORY_MESSAGES = 12;
+
+/**
+ * Follow-up questions about the selected code.
+ *
+ * The client sends back the selection, the original explanation and the
+ * cross-file/semantic context the explain API retrieved, plus the thread so far.
+ */
+export async function POST(request: Request) {
+    try {
+        const { success } = checkRateLimit('local-user');
+
+        if (!success) {
+            return NextResponse.json(
+                { error: "Rate limit exceeded. Please wait a moment." },
+                { status: 429 }
+            );
+        }
+
+        const { code, language, file_path, line_range, explanation, context, messages, provider: requestedProvider, model: requestedModel, stream } = await request.json();
+
+        if (requestedProvider && !isLLMProviderName(requestedProvider)) {
+            return NextResponse.json({ error: `Unknown LLM provider: ${requestedProvider}` }, { status: 400 });
+        }
+
+        const history = parseMessages(messages);
+        if (!code || !history || history.length === 0 || history[history.length - 1].role !== 'user') {
+            return NextResponse.json({ error: 'code and messages ending with a user question are required' }, { status: 400 });
+        }
+
+        const llm = getLLMProvider({ provider: requestedProvider, model: requestedModel });
+
+        if (!llm.isConfigured()) {
+            return NextResponse.json({
+                reply: `${llm.label} is not configured. Please set its API key or endpoint in .env.local backend.`,
+                isMock: true
+            });
+        }
+
+        const fileLines: string[] = code.split('\n');
+        const start = Number.isInteger(line_range?.start) ? Math.max(1, line_range.start) : null;
+        const end = start && Number.isInteger(line_range?.end) ? Math.max(start, line_range.end) : start;
+
+        // Selected code plus a few lines either side, or the file itself when nothing is selected
+        const selectionSection = start && end
+            ? `Code around the selection:
+${fileLines.slice(Math.max(0, start - 6), start - 1).join('\n')}
+>>> SELECTED (lines ${start}-${end}) <<<
+${fileLines.slice(start - 1, end).join('\n')}
+>>> END OF SELECTION <<<
+${fileLines.slice(end, Math.min(fileLines.length, end + 5)).join('\n')}`
+            : `File contents:
+${code.slice(0, 10000)}`;
+
+        const transcript = history
+            .slice(-MAX_HISTORY_MESSAGES)
+            .map(message => `${message.role === 'user' ? 'USER' : 'ASSISTANT'}: ${message.content}`)
+            .join('\n\n');
+
+        const prompt = `
+You are an expert coding tutor having a conversation about a piece of code. Answer the user's latest question.
+
+${context ? `CROSS-FILE CONTEXT:\n\nThe following code is from other files in this project.\n${context}` : ''}
+
+CURRENT FILE CONTEXT:
+Language: ${language}
+${file_path ? `File: ${path.basename(file_path)}` : ''}
+
+${selectionSection}
+
+${explanation ? `YOUR EARLIER EXPLANATION OF THE SELECTION:\n${explanation}\n` : ''}
+CONVERSATION SO FAR:
+${transcript}
+
+ANSWER REQUIREMENTS:
+1. Answer the last USER message directly, building on the conversation instead of repeating earlier answers
+2. Ground the answer in the code shown; when referencing symbols from other files, mention the source file
+3. If the question asks about alternatives (e.g. a different data structure), weigh them against this code's actual usage
+4. If something is not shown in the provided context, say so instead of guessing
+5. Keep it under 200 words; use short code snippets only when they help
+`;
+
+        if (stream) {
+            return streamReply(llm, prompt, request.signal);
+        }
+
+        const reply = await llm.generate(prompt);
+
+        // approx 1 token = 4 chars
+        const approxTokens = Math.ceil(prompt.length / 4) + Math.ceil(reply.length / 4);
+        const approxCost = (approxTokens / 1000) * llm.costPer1kTokens;
+
+        return NextResponse.json({
+            reply,
+            meta: {
+                tokens: approxTokens,
+                cost: approxCost.toFixed(6),
+                provider: llm.name,
+                model: llm.model
+            }
+        });
+
+    } catch (error: any) {
+        console.error('AI Chat error:', error);
+        return NextResponse.json({ error: "LLM Error: " + (error.message || "Unknown error") }, { status: 500 });
+    }
+}
+
+/**
+ * Validate the `messages` request field
+ */
+function parseMessages(value: unknown): ChatMessage[] | null {
+    if (!Array.isArray(value)) return null;
+
+    const messages: ChatMessage[] = [];
+    for (const item of value) {
+        if (!item || (item.role !== 'user' && item.role !== 'assistant') || typeof item.content !== 'string') {
+            return null;
+        }
+        messages.push({ role: item.role, content: item.content });
+    }
+
+    return messages;
+}
+
+/**
+ * Stream a chat reply as SSE: { type: 'token', text } ... then
+ * { type: 'done', reply, meta } or { type: 'error', error }
+ */
+function streamReply(llm: LLMProvider, prompt: string, signal: AbortSignal): Response {
+    return streamCompletion(abortSignal => llm.stream(prompt, { signal: abortSignal }), reply => {
+        const approxTokens = Math.ceil(prompt.length / 4) + Math.ceil(reply.length / 4);
+        const approxCost = (approxTokens / 1000) * llm.costPer1kTokens;
+
+        return {
+            reply,
+            meta: {
+                tokens: approxTokens,
+                cost: approxCost.toFixed(6),
+                provider: llm.name,
+                model: llm.model
+            }
+        };
+    }, '[API/Chat]', signal);
+}
@@ -1,10 +1,11 @@
 import { NextResponse } from 'next/server';
-import { model } from '@/lib/gemini';
+import { getLLMProvider, isLLMProviderName, type LLMProvider } from '@/lib/llm';
 import { getCachedExplanation, setCachedExplanation } from '@/lib/cache';
 import { checkRateLimit } from '@/lib/ratelimit';
+import { encodeSSEEvent, SSE_HEADERS, streamCompletion } from '@/lib/sse';
 import { loadOrBuildGraph } from '@/lib/context/graph-cache';
 import { buildLineContext, resolveSymbol, detectSymbols } from '@/lib/context/symbol-resolver';
-import { loadOrBuildSemanticIndex } from '@/lib/semantic/semantic-index';
+import { getAvailableSemanticIndex } from '@/lib/semantic/indexing-job';
 import { retrieveRelevantCode } from '@/lib/semantic/semantic-retrieval';
 import path from 'path';
 
@@ -20,17 +21,31 @@ export async function POST(request: Request) {
             );
         }
 
-        const { code, language, line_number, context_lines, file_path, project_root } = await request.json();
+        const { code, language, line_number, line_range, context_lines, file_path, project_root, provider: requestedProvider, model: requestedModel, stream } = await request.json();
 
-        console.log(`[API/Explain] Request received for ${language}, Line: ${line_number || 'Summary'}`);
-        // Check for either key (legacy/new)
-        const hasKey = process.env.GEMINI_API_KEY || process.env.OPENAI_API_KEY;
-        console.log(`[API/Explain] API Key Check: ${hasKey ? 'Present' : 'MISSING'}`);
+        if (requestedProvider && !isLLMProviderName(requestedProvider)) {
+            return NextResponse.json({ error: `Unknown LLM provider: ${requestedProvider}` }, { status: 400 });
+        }
+
+        const llm = getLLMProvider({ provider: requestedProvider, model: requestedModel });
+
+        const lineRange = parseLineRange(line_range);
+
+        if (line_range && !lineRange) {
+            return NextResponse.json({ error: 'line_range must be { start, end } with 1 <= start <= end' }, { status: 400 });
+        }
+
+        // A range spanning several lines switches to block explanation mode
+        const isBlock = lineRange !== null && lineRange.end > lineRange.start;
+        const targetLineNumber: number | undefined = lineRange ? lineRange.start : line_number;
 
-        if (!hasKey) {
-            console.log('[API/Explain] Returning Mock Data due to missing key');
+        console.log(`[API/Explain] Request received for ${language}, ${isBlock ? `Lines: ${lineRange!.start}-${lineRange!.end}` : `Line: ${targetLineNumber || 'Summary'}`}`);
+        console.log(`[API/Explain] Provider: ${llm.label} (${llm.model}), configured: ${llm.isConfigured() ? 'yes' : 'NO'}`);
+
+        if (!llm.isConfigured()) {
+            console.log('[API/Explain] Returning Mock Data due to missing provider configuration');
             return NextResponse.json({
-                explanation: "Gemini API Key missing. Please configure GEMINI_API_KEY in .env.local backend.",
+                explanation: `${llm.label} is not configured. Please set its API key or endpoint in .env.local backend.`,
                 isMock: true
             });
         }
@@ -39,24 +54,44 @@ export async function POST(request: Request) {
             return NextResponse.json({ error: 'Code context is required' }, { status: 400 });
         }
 
+        // Target text and its surroundings: blocks are sliced server-side from the full file
+        const fileLines: string[] = code.split('\n');
+        const target = isBlock
+            ? {
+                target: fileLines.slice(lineRange!.start - 1, lineRange!.end).join('\n'),
+                before: fileLines.slice(Math.max(0, lineRange!.start - 4), lineRange!.start - 1).join('\n'),
+                after: fileLines.slice(lineRange!.end, Math.min(fileLines.length, lineRange!.end + 3)).join('\n')
+            }
+            : {
+                target: context_lines?.target || (targetLineNumber ? fileLines[targetLineNumber - 1] : '') || '',
+                before: context_lines?.before || '',
+                after: context_lines?.after || ''
+            };
+
         // Generate a secure cache key
         const cacheKey = JSON.stringify({
             code_hash: code ? Buffer.from(code).toString('base64').slice(0, 50) : '',
-            line_number,
+            line_number: targetLineNumber,
+            line_range: isBlock ? lineRange : undefined,
             language,
-            context_target: context_lines?.target || ''
+            provider: llm.name,
+            model: llm.model,
+            context_target: target.target
         });
 
         // 1. Try Cache (Read-only)
         const cachedResult = await getCachedExplanation(cacheKey);
         if (cachedResult) {
+            if (stream && targetLineNumber) {
+                return streamCachedExplanation(cachedResult);
+            }
             return NextResponse.json({ ...cachedResult, isCached: true });
         }
 
         let resultData = {};
 
-        // specific line explanation
-        if (line_number) {
+        // specific line (or block) explanation
+        if (targetLineNumber) {
             let crossFileContext = '';
             let contextMeta: any = {};
 
@@ -67,11 +102,11 @@ export async function POST(request: Request) {
                     const graphResult = await loadOrBuildGraph(project_root);
                     console.log(`[API/Explain] Graph loaded in ${graphResult.duration}ms (from cache: ${graphResult.fromCache})`);
 
-                    // Build cross-file context for the target line
-                    const targetLine = context_lines?.target || '';
+                    // Build cross-file context for the target line (or every line of the block)
+                    const targetLine = target.target;
                     const lineContext = await buildLineContext(
                         targetLine,
-                        line_number,
+                        targetLineNumber,
                         file_path,
                         graphResult.graph,
                         { maxContextSymbols: 5, maxLinesPerSymbol: 30 }
@@ -104,55 +139,55 @@ export async function POST(request: Request) {
                         try {
                             console.log('[API/Explain] Symbol resolution incomplete, trying semantic search...');
 
-                            // Build semantic index
-                            const semanticResult = await loadOrBuildSemanticIndex(
-                                project_root,
-                                graphResult.graph,
-                                { maxUnits: 100 }  // Limit for performance
-                            );
-
-                            console.log(`[API/Explain] Semantic index loaded in ${semanticResult.duration}ms (from cache: ${semanticResult.fromCache})`);
-
-                            // Detect symbols in target line
-                            const detectedSymbols = detectSymbols(targetLine, language);
-
-                            // Retrieve semantically relevant code
-                            const semanticResults = await retrieveRelevantCode({
-                                targetLine,
-                                symbols: detectedSymbols,
-                                surroundingLines: (context_lines?.before || '') + '\n' + (context_lines?.after || ''),
-                                language,
-                                currentFile: file_path
-                            }, semanticResult.index, {
-                                maxResults: hasSymbolResults ? 2 : 3,  // Less if we already have symbol results
-                                excludeCurrentFile: true
-                            });
-
-                            // Add semantic results (with clear labeling per user spec)
-                            if (semanticResults.length > 0) {
-                                const highConfResults = semanticResults.filter(r => r.confidence === 'high');
-                                const mediumConfResults = semanticResults.filter(r => r.confidence === 'medium' && r.autoInclude);
-
-                                if (highConfResults.length > 0 || mediumConfResults.length > 0) {
-                                    crossFileContext += '\n\nSEMANTIC CONTEXT (Related code from semantic search):\n';
-                                    crossFileContext += '---\n';
-
-                                    const resultsToInclude = [...highConfResults, ...mediumConfResults];
-                                    for (const result of resultsToInclude) {
-                                        const fileName = path.basename(result.unit.file);
-                                        crossFileContext += `From ${fileName}::${result.unit.symbol} (confidence: ${result.confidence}, score: ${result.score.toFixed(2)}):\n`;
-                                        crossFileContext += `\`\`\`${result.unit.language}\n${result.unit.code}\n\`\`\`\n\n`;
+                            // Use whatever the background indexing job has embedded so far
+                            const semanticIndex = await getAvailableSemanticIndex(project_root, graphResult.graph);
+
+                            if (!semanticIndex) {
+                                console.log('[API/Explain] No semantic index yet, background indexing has started');
+                            } else {
+                                console.log(`[API/Explain] Semantic index has ${semanticIndex.stats.totalEmbeddings} units (complete: ${semanticIndex.complete})`);
+
+                                // Detect symbols in target line
+                                const detectedSymbols = detectSymbols(targetLine, language);
+
+                                // Retrieve semantically relevant code
+                                const semanticResults = await retrieveRelevantCode({
+                                    targetLine,
+                                    symbols: detectedSymbols,
+                                    surroundingLines: target.before + '\n' + target.after,
+                                    language,
+                                    currentFile: file_path
+                                }, semanticIndex, {
+                                    maxResults: hasSymbolResults ? 2 : 3,  // Less if we already have symbol results
+                                    excludeCurrentFile: true
+                                });
+
+                                // Add semantic results (with clear labeling per user spec)
+                                if (semanticResults.length > 0) {
+                                    const highConfResults = semanticResults.filter(r => r.confidence === 'high');
+                                    const mediumConfResults = semanticResults.filter(r => r.confidence === 'medium' && r.autoInclude);
+
+                                    if (highConfResults.length > 0 || mediumConfResults.length > 0) {
+                                        crossFileContext += '\n\nSEMANTIC CONTEXT (Related code from semantic search):\n';
+                                        crossFileContext += '---\n';
+
+                                        const resultsToInclude = [...highConfResults, ...mediumConfResults];
+                                        for (const result of resultsToInclude) {
+                                            const fileName = path.basename(result.unit.file);
+                                            crossFileContext += `From ${fileName}::${result.unit.symbol} (confidence: ${result.confidence}, score: ${result.score.toFixed(2)}):\n`;
+                                            crossFileContext += `\`\`\`${result.unit.language}\n${result.unit.code}\n\`\`\`\n\n`;
+                                        }
+
+                                        crossFileContext += '---\n';
+
+                                        contextMeta.semanticResults = resultsToInclude.length;
+                                        contextMeta.semanticHighConf = highConfResults.length;
+                                        contextMeta.semanticMediumConf = mediumConfResults.length;
                                     }
-
-                                    crossFileContext += '---\n';
-
-                                    contextMeta.semanticResults = resultsToInclude.length;
-                                    contextMeta.semanticHighConf = highConfResults.length;
-                                    contextMeta.semanticMediumConf = mediumConfResults.length;
                                 }
-                            }
 
-                            console.log(`[API/Explain] Semantic search found ${semanticResults.length} results (${semanticResults.filter(r => r.autoInclude).length} auto-included)`);
+                                console.log(`[API/Explain] Semantic search found ${semanticResults.length} results (${semanticResults.filter(r => r.autoInclude).length} auto-included)`);
+                            }
 
                         } catch (error: any) {
                             console.error('[API/Explain] Error in semantic search:', error.message);
@@ -167,20 +202,52 @@ export async function POST(request: Request) {
             }
 
             // Build enhanced prompt with cross-file context
-            const prompt = `
+            const crossFileSection = crossFileContext
+                ? 'CROSS-FILE CONTEXT:\n\nThe following code is from other files in this project.\n' + crossFileContext
+                : '';
+
+            const prompt = isBlock ? `
+You are an expert coding tutor. Walk through the selected block of code below as a single unit.
+
+${crossFileSection}
+
+CURRENT FILE CONTEXT:
+Language: ${language}
+${file_path ? `File: ${path.basename(file_path)}` : ''}
+
+Code before the block:
+${target.before}
+
+>>> SELECTED BLOCK (lines ${lineRange!.start}-${lineRange!.end}) <<<
+${target.target}
+>>> END OF BLOCK <<<
+
+Code after the block:
+${target.after}
+
+EXPLANATION REQUIREMENTS:
+1. Start with one sentence on what the block achieves as a whole and why it exists
+2. Then walk through it step by step, grouping related lines (e.g. loop setup, condition, body) instead of going line by line
+3. Call out control flow, edge cases and side effects (early returns, mutations, I/O)
+4. When referencing symbols from other files, EXPLICITLY mention the source file and function/class name
+5. If a symbol is from an external library (not shown in context), state that explicitly
+6. Do NOT speculate about code behavior not shown in the provided context
+7. Keep it under 150 words
+8. Distinguish between resolved definitions (certain) and semantic suggestions (likely related)
+` : `
 You are an expert coding tutor. Explain the specific line of code provided below.
 
-${crossFileContext ? 'CROSS-FILE CONTEXT:\n\nThe following code is from other files in this project.\n' + crossFileContext : ''}
+${crossFileSection}
 
 CURRENT FILE CONTEXT:
 Language: ${language}
 ${file_path ? `File: ${path.basename(file_path)}` : ''}
-Line ${line_number}: "${context_lines?.target || 'unknown'}"
+Line ${targetLineNumber}: "${target.target || 'unknown'}"
 
 Surrounding Code:
-${context_lines?.before || ''}
+${target.before}
 >>> TARGET LINE <<<
-${context_lines?.after || ''}
+${target.after}
 
 EXPLANATION REQUIREMENTS:
 1. Be concise (2-3 sentences maximum)
@@ -193,20 +260,24 @@ EXPLANATION REQUIREMENTS:
 8. Distinguish between resolved definitions (certain) and semantic suggestions (likely related)
 `;
 
-            const result = await model.generateContent(prompt);
-            const response = result.response;
-            const explanation = response.text();
+            if (stream) {
+                return streamExplanation(llm, prompt, contextMeta, cacheKey, crossFileContext, request.signal);
+            }
+
+            const explanation = await llm.generate(prompt);
 
             // approx 1 token = 4 chars
             const approxTokens = Math.ceil(prompt.length / 4) + Math.ceil((explanation?.length || 0) / 4);
-            // Gemini Flash is free-tier eligible or extremely cheap ($0.000125 / 1k chars approx)
-            const approxCost = (approxTokens / 1000) * 0.0001;
+            const approxCost = (approxTokens / 1000) * llm.costPer1kTokens;
 
             resultData = {
                 explanation,
+                context: crossFileContext || undefined, // Sent back with follow-up questions
                 meta: {
                     tokens: approxTokens,
                     cost: approxCost.toFixed(6),
+                    provider: llm.name,
+                    model: llm.model,
                     ...contextMeta
                 }
             };
@@ -219,7 +290,7 @@ EXPLANATION REQUIREMENTS:
     Language: ${language}
     
     Code:
-    ${code.slice(0, 10000)} // Gemini has huge context window
+    ${code.slice(0, 10000)}
     
     Output format JSON:
     {
@@ -229,20 +300,21 @@ EXPLANATION REQUIREMENTS:
     }
     Return ONLY valid JSON. Do not include markdown formatting like \`\`\`json.
     `;
-            const result = await model.generateContent(prompt);
-            const response = result.response;
-            const text = response.text().replace(/```json/g, '').replace(/```/g, '').trim();
+            const response = await llm.generate(prompt);
+            const text = response.replace(/```json/g, '').replace(/```/g, '').trim();
 
             const data = JSON.parse(text);
 
             const approxTokens = Math.ceil(prompt.length / 4) + Math.ceil(text.length / 4);
-            const approxCost = (approxTokens / 1000) * 0.0001;
+            const approxCost = (approxTokens / 1000) * llm.costPer1kTokens;
 
             resultData = {
                 ...data,
                 meta: {
                     tokens: approxTokens,
-                    cost: approxCost.toFixed(6)
+                    cost: approxCost.toFixed(6),
+                    provider: llm.name,
+                    model: llm.model
                 }
             };
         }
@@ -254,6 +326,70 @@ EXPLANATION REQUIREMENTS:
 
     } catch (error: any) {
         console.error('AI Explanation error:', error);
-        return NextResponse.json({ error: "Gemini Error: " + (error.message || "Unknown error") }, { status: 500 });
+        return NextResponse.json({ error: "LLM Error: " + (error.message || "Unknown error") }, { status: 500 });
     }
 }
+
+/**
+ * Validate a `line_range` request field
+ */
+function parseLineRange(value: unknown): { start: number; end: number } | null {
+    if (!value || typeof value !== 'object') return null;
+
+    const { start, end } = value as { start?: unknown; end?: unknown };
+    if (!Number.isInteger(start) || !Number.isInteger(end)) return null;
+    if ((start as number) < 1 || (end as number) < (start as number)) return null;
+
+    return { start: start as number, end: end as number };
+}
+
+/**
+ * Stream a line explanation as SSE, forwarding tokens as the provider emits them.
+ *
+ * Events: { type: 'token', text } ... then { type: 'done', explanation, context, meta }
+ * or { type: 'error', error }. The full explanation is cached once complete.
+ */
+function streamExplanation(
+    llm: LLMProvider,
+    prompt: string,
+    contextMeta: Record<string, unknown>,
+    cacheKey: string,
+    retrievedContext: string,
+    signal: AbortSignal
+): Response {
+    return streamCompletion(abortSignal => llm.stream(prompt, { signal: abortSignal }), async explanation => {
+        // approx 1 token = 4 chars
+        const approxTokens = Math.ceil(prompt.length / 4) + Math.ceil(explanation.length / 4);
+        const approxCost = (approxTokens / 1000) * llm.costPer1kTokens;
+
+        const resultData = {
+            explanation,
+            context: retrievedContext || undefined,
+            meta: {
+                tokens: approxTokens,
+                cost: approxCost.toFixed(6),
+                provider: llm.name,
+                model: llm.model,
+                ...contextMeta
+            }
+        };
+
+        await setCachedExplanation(cacheKey, resultData);
+        return resultData;
+    }, '[API/Explain]', signal);
+}
+
+/**
+ * Replay a cached explanation over SSE so streaming clients get one format
+ */
+function streamCachedExplanation(cachedResult: any): Response {
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(encodeSSEEvent({ type: 'token', text: cachedResult.explanation || '' }));
+            controller.enqueue(encodeSSEEvent({ type: 'done', ...cachedResult, isCached: true }));
+            controller.close();
+        }
+    });
+
+    return new Response(body, { headers: SSE_HEADERS });
+}
@@ -67,7 +67,7 @@ function getLanguage(filename: string): string {
         js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
         py: 'python',
         java: 'java',
-        c: 'c', cpp: 'cpp', h: 'c', hpp: 'cpp',
+        c: 'c', cpp: 'cpp', cc: 'cpp', cxx: 'cpp', h: 'c', hpp: 'cpp', hh: 'cpp', hxx: 'cpp',
         css: 'css', scss: 'scss',
         html: 'html',
         json: 'json',
@@ -75,6 +75,10 @@ function getLanguage(filename: string): string {
         go: 'go',
         rs: 'rust',
         rb: 'ruby',
+        cs: 'csharp',
+        kt: 'kotlin', kts: 'kotlin',
+        swift: 'swift',
+        scala: 'scala', sc: 'scala',
         php: 'php'
     };
     return map[ext] || 'plaintext';
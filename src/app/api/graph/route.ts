@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import path from 'path';
+import { loadOrBuildGraph } from '@/lib/context/graph-cache';
+import { resolveImportEdges } from '@/lib/context/dependency-graph-builder';
+import { findImportCycles } from '@/lib/context/project-summary';
+import type { GraphEdge, GraphNode } from '@/lib/graph-types';
+
+export async function POST(request: Request) {
+    try {
+        const { project_root } = await request.json();
+
+        if (!project_root) {
+            return NextResponse.json({ error: 'project_root is required' }, { status: 400 });
+        }
+
+        try {
+            const stats = await fs.stat(project_root);
+            if (!stats.isDirectory()) {
+                return NextResponse.json({ error: 'project_root is not a directory' }, { status: 400 });
+            }
+        } catch (e) {
+            return NextResponse.json({ error: 'Directory not found' }, { status: 404 });
+        }
+
+        const { graph, fromCache, duration } = await loadOrBuildGraph(project_root);
+        console.log(`[API/Graph] Graph loaded in ${duration}ms (from cache: ${fromCache})`);
+
+        const edges: GraphEdge[] = resolveImportEdges(graph);
+        const cycles = findImportCycles(edges);
+
+        const cycleByFile = new Map<string, number>();
+        cycles.forEach((cycle, index) => cycle.forEach(file => cycleByFile.set(file, index)));
+
+        const importedBy = new Map<string, number>();
+        const imports = new Map<string, number>();
+        for (const edge of edges) {
+            importedBy.set(edge.to, (importedBy.get(edge.to) || 0) + 1);
+            imports.set(edge.from, (imports.get(edge.from) || 0) + 1);
+        }
+
+        const nodes: GraphNode[] = Array.from(graph.files.values()).map(file => {
+            const relativePath = path.relative(project_root, file.path).split(path.sep).join('/');
+            return {
+                id: file.path,
+                path: relativePath,
+                directory: path.posix.dirname(relativePath),
+                language: file.language,
+                exports: file.exports.length,
+                definitions: file.definitions.length,
+                importedBy: importedBy.get(file.path) || 0,
+                imports: imports.get(file.path) || 0,
+                cycle: cycleByFile.get(file.path)
+            };
+        });
+
+        return NextResponse.json({
+            nodes,
+            edges,
+            cycles,
+            stats: graph.stats
+        });
+
+    } catch (error: any) {
+        console.error('Graph build error:', error);
+        return NextResponse.json({ error: 'Failed to build dependency graph: ' + (error.message || 'Unknown error') }, { status: 500 });
+    }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import { loadOrBuildGraph } from '@/lib/context/graph-cache';
+import { getIndexingProgress, startSemanticIndexing } from '@/lib/semantic/indexing-job';
+
+/**
+ * Start background semantic indexing for a project and report its progress
+ *
+ * Poll with the same body. A running job is never restarted; a finished
+ * one only when `rebuild` is set.
+ */
+export async function POST(request: Request) {
+    try {
+        const { project_root, rebuild } = await request.json();
+
+        if (!project_root) {
+            return NextResponse.json({ error: 'project_root is required' }, { status: 400 });
+        }
+
+        const progress = getIndexingProgress(project_root);
+        if (progress && progress.status !== 'failed' && !rebuild) {
+            return NextResponse.json(progress);
+        }
+
+        try {
+            const stats = await fs.stat(project_root);
+            if (!stats.isDirectory()) {
+                return NextResponse.json({ error: 'project_root is not a directory' }, { status: 400 });
+            }
+        } catch {
+            return NextResponse.json({ error: 'Directory not found' }, { status: 404 });
+        }
+
+        const { graph } = await loadOrBuildGraph(project_root);
+        return NextResponse.json(startSemanticIndexing(project_root, graph, { forceRebuild: Boolean(rebuild) }));
+
+    } catch (error: any) {
+        console.error('Semantic indexing error:', error);
+        return NextResponse.json({ error: 'Indexing failed: ' + (error.message || 'Unknown error') }, { status: 500 });
+    }
+}
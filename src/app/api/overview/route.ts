@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import { getLLMProvider, isLLMProviderName } from '@/lib/llm';
+import { getCachedExplanation, setCachedExplanation } from '@/lib/cache';
+import { checkRateLimit } from '@/lib/ratelimit';
+import { loadOrBuildGraph } from '@/lib/context/graph-cache';
+import { summarizeProjectStructure, formatProjectSummary } from '@/lib/context/project-summary';
+
+export async function POST(request: Request) {
+    try {
+        const { success } = checkRateLimit('local-user');
+
+        if (!success) {
+            return NextResponse.json(
+                { error: "Rate limit exceeded. Please wait a moment." },
+                { status: 429 }
+            );
+        }
+
+        const { project_root, provider: requestedProvider, model: requestedModel } = await request.json();
+
+        if (!project_root) {
+            return NextResponse.json({ error: 'project_root is required' }, { status: 400 });
+        }
+
+        if (requestedProvider && !isLLMProviderName(requestedProvider)) {
+            return NextResponse.json({ error: `Unknown LLM provider: ${requestedProvider}` }, { status: 400 });
+        }
+
+        try {
+            const stats = await fs.stat(project_root);
+            if (!stats.isDirectory()) {
+                return NextResponse.json({ error: 'project_root is not a directory' }, { status: 400 });
+            }
+        } catch (e) {
+            return NextResponse.json({ error: 'Directory not found' }, { status: 404 });
+        }
+
+        const llm = getLLMProvider({ provider: requestedProvider, model: requestedModel });
+
+        if (!llm.isConfigured()) {
+            return NextResponse.json({
+                overview: `${llm.label} is not configured. Please set its API key or endpoint in .env.local backend.`,
+                isMock: true
+            });
+        }
+
+        console.log(`[API/Overview] Loading dependency graph for ${project_root}...`);
+        const graphResult = await loadOrBuildGraph(project_root);
+        console.log(`[API/Overview] Graph loaded in ${graphResult.duration}ms (from cache: ${graphResult.fromCache})`);
+
+        const summary = summarizeProjectStructure(graphResult.graph);
+
+        // Key the cache on file hashes so any edit in the project invalidates the overview
+        const graphHash = crypto.createHash('md5');
+        for (const [filePath, file] of Array.from(graphResult.graph.files.entries()).sort()) {
+            graphHash.update(filePath).update(file.hash);
+        }
+
+        const cacheKey = JSON.stringify({
+            type: 'project-overview',
+            project_root,
+            graph_hash: graphHash.digest('hex'),
+            provider: llm.name,
+            model: llm.model
+        });
+
+        const cachedResult = await getCachedExplanation(cacheKey);
+        if (cachedResult) {
+            return NextResponse.json({ ...cachedResult, isCached: true });
+        }
+
+        const prompt = `
+You are a staff engineer onboarding a new teammate onto an unfamiliar codebase.
+Using ONLY the dependency graph summary below, describe the architecture of the project.
+
+${formatProjectSummary(summary)}
+
+Output format JSON:
+{
+    "overview": "2-4 sentences on what the project is and how it is organized",
+    "modules": [{ "path": "directory", "responsibility": "what it is responsible for" }],
+    "entry_points": [{ "path": "file", "role": "what starts here" }],
+    "layers": [{ "name": "layer name", "modules": ["directory"], "description": "role of this layer" }],
+    "data_flow": "How data and control move between the main modules, from entry points down to leaf modules",
+    "hotspots": ["Hub modules or cycles worth knowing about"]
+}
+
+REQUIREMENTS:
+1. Only mention modules and files that appear in the summary
+2. Order layers from the outermost (entry points/UI/API) to the innermost (core/utilities)
+3. If something cannot be determined from the summary, say so instead of guessing
+Return ONLY valid JSON. Do not include markdown formatting like \`\`\`json.
+`;
+
+        const response = await llm.generate(prompt);
+        const text = response.replace(/```json/g, '').replace(/```/g, '').trim();
+        const data = JSON.parse(text);
+
+        // approx 1 token = 4 chars
+        const approxTokens = Math.ceil(prompt.length / 4) + Math.ceil(text.length / 4);
+        const approxCost = (approxTokens / 1000) * llm.costPer1kTokens;
+
+        const resultData = {
+            ...data,
+            stats: {
+                totalFiles: summary.stats.totalFiles,
+                totalSymbols: summary.stats.totalSymbols,
+                totalEdges: summary.totalEdges,
+                languageBreakdown: summary.stats.languageBreakdown
+            },
+            meta: {
+                tokens: approxTokens,
+                cost: approxCost.toFixed(6),
+                provider: llm.name,
+                model: llm.model
+            }
+        };
+
+        await setCachedExplanation(cacheKey, resultData);
+
+        return NextResponse.json(resultData);
+
+    } catch (error: any) {
+        console.error('Project overview error:', error);
+        return NextResponse.json({ error: "LLM Error: " + (error.message || "Unknown error") }, { status: 500 });
+    }
+}
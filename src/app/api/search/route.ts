@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import { loadOrBuildGraph } from '@/lib/context/graph-cache';
+import { getAvailableSemanticIndex, getIndexingProgress } from '@/lib/semantic/indexing-job';
+import { searchCode } from '@/lib/semantic/semantic-retrieval';
+import type { CodeSearchHit } from '@/lib/search-types';
+
+// Lines of each unit returned as a preview
+const SNIPPET_LINES = 8;
+
+/**
+ * Natural-language search over the project's semantic index
+ */
+export async function POST(request: Request) {
+    try {
+        const { project_root, query, language, max_results } = await request.json();
+
+        if (!project_root || typeof query !== 'string' || !query.trim()) {
+            return NextResponse.json({ error: 'project_root and query are required' }, { status: 400 });
+        }
+
+        try {
+            const stats = await fs.stat(project_root);
+            if (!stats.isDirectory()) {
+                return NextResponse.json({ error: 'project_root is not a directory' }, { status: 400 });
+            }
+        } catch {
+            return NextResponse.json({ error: 'Directory not found' }, { status: 404 });
+        }
+
+        const startTime = Date.now();
+        const { graph } = await loadOrBuildGraph(project_root);
+
+        // Searches whatever the background job has indexed so far (keywords only
+        // when no embedding provider is configured)
+        const index = await getAvailableSemanticIndex(project_root, graph);
+
+        const results = index
+            ? await searchCode(query.trim(), index, {
+                language: language || undefined,
+                maxResults: Number.isInteger(max_results) && max_results > 0 ? Math.min(max_results, 50) : undefined
+            })
+            : [];
+
+        const hits: CodeSearchHit[] = results.map(result => ({
+            id: result.unit.id,
+            file: result.unit.file,
+            symbol: result.unit.symbol,
+            type: result.unit.type,
+            language: result.unit.language,
+            lines: result.unit.lines,
+            signature: result.unit.signature,
+            snippet: result.unit.code.split('\n').slice(0, SNIPPET_LINES).join('\n'),
+            score: result.score,
+            confidence: result.confidence,
+            matchReasons: result.matchReasons
+        }));
+
+        return NextResponse.json({
+            query,
+            results: hits,
+            stats: {
+                indexedUnits: index?.stats.totalUnits || 0,
+                duration: Date.now() - startTime,
+                indexing: getIndexingProgress(project_root)
+            }
+        });
+
+    } catch (error: any) {
+        console.error('Semantic search error:', error);
+        return NextResponse.json({ error: 'Search failed: ' + (error.message || 'Unknown error') }, { status: 500 });
+    }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { loadOrBuildGraph } from '@/lib/context/graph-cache';
+import { resolveSymbol, findSymbolReferences } from '@/lib/context/symbol-resolver';
+
+/**
+ * Go-to-definition and find-references for a symbol clicked in the code viewer
+ */
+export async function POST(request: Request) {
+    try {
+        const { project_root, file_path, symbol } = await request.json();
+
+        if (!project_root || !file_path || !symbol) {
+            return NextResponse.json({ error: 'project_root, file_path and symbol are required' }, { status: 400 });
+        }
+
+        const { graph } = await loadOrBuildGraph(project_root);
+        const reference = await resolveSymbol(symbol, file_path, graph);
+
+        const definition = reference.definitionFile && reference.definition
+            ? {
+                filePath: reference.definitionFile,
+                startLine: reference.definition.startLine,
+                endLine: reference.definition.endLine,
+                language: graph.files.get(reference.definitionFile)?.language || reference.definition.language
+            }
+            : null;
+
+        const declaration = reference.declaration
+            ? {
+                filePath: reference.declaration.filePath,
+                startLine: reference.declaration.startLine,
+                endLine: reference.declaration.endLine,
+                language: graph.files.get(reference.declaration.filePath)?.language || reference.declaration.language
+            }
+            : null;
+
+        const references = reference.type === 'external' || reference.type === 'unknown'
+            ? []
+            : await findSymbolReferences(symbol, graph, reference.definitionFile);
+
+        return NextResponse.json({
+            symbol,
+            type: reference.type,
+            confidence: reference.confidence,
+            definition,
+            declaration,
+            references: references.map(usage => ({
+                ...usage,
+                language: graph.files.get(usage.filePath)?.language || 'plaintext'
+            }))
+        });
+
+    } catch (error: any) {
+        console.error('Symbol navigation error:', error);
+        return NextResponse.json({ error: 'Failed to resolve symbol: ' + (error.message || 'Unknown error') }, { status: 500 });
+    }
+}
@@ -0,0 +1,7 @@
+import { GraphExplorer } from "@/components/graph/GraphExplorer";
+
+export default function GraphPage({ searchParams }: { searchParams: { root?: string } }) {
+    return (
+        <GraphExplorer initialRoot={searchParams.root} />
+    );
+}
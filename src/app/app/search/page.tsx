@@ -0,0 +1,7 @@
+import { SearchExplorer } from "@/components/search/SearchExplorer";
+
+export default function SearchPage({ searchParams }: { searchParams: { root?: string } }) {
+    return (
+        <SearchExplorer initialRoot={searchParams.root} />
+    );
+}
@@ -1,7 +1,10 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useTheme } from "next-themes";
+import type { ThemedToken } from "shiki";
 import { cn } from "@/lib/utils";
+import { highlightCode, HighlightedCode } from "@/lib/highlighter";
 
 // Mock code for display
 const MOCK_CODE = `import React from 'react';
@@ -22,20 +25,151 @@ export function Navbar() {
   );
 }`;
 
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
 interface CodeViewerProps {
     code?: string;
     language?: string;
     onLineSelect?: (lineNumber: number) => void;
     selectedLine?: number | null;
+    onRangeSelect?: (range: LineRange) => void;
+    selectedRange?: LineRange | null;
+    onSymbolClick?: (symbol: string, lineNumber: number) => void; // Ctrl/Cmd-click on an identifier
+    revealRange?: LineRange | null; // Scrolled into view and highlighted (e.g. a jumped-to definition)
 }
 
 export function CodeViewer({
     code = MOCK_CODE,
     language = "typescript",
     onLineSelect,
-    selectedLine
+    selectedLine,
+    onRangeSelect,
+    selectedRange,
+    onSymbolClick,
+    revealRange
 }: CodeViewerProps) {
     const lines = code.split("\n");
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const { resolvedTheme } = useTheme();
+    const mode = resolvedTheme === "light" ? "light" : "dark";
+
+    // Tokens are computed asynchronously; until they arrive lines render as plain text
+    const [highlighted, setHighlighted] = useState<HighlightedCode | null>(null);
+    useEffect(() => {
+        let cancelled = false;
+
+        highlightCode(code, language, mode)
+            .then(result => {
+                if (!cancelled) setHighlighted(result);
+            })
+            .catch(err => {
+                console.error("Syntax highlighting failed:", err);
+                if (!cancelled) setHighlighted(null);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [code, language, mode]);
+
+    // Ignore tokens left over from the previous file while the new ones load
+    const tokens = highlighted?.code === code ? highlighted : null;
+
+    // Identifiers only look like links while Ctrl/Cmd is held
+    const [modifierHeld, setModifierHeld] = useState(false);
+    useEffect(() => {
+        if (!onSymbolClick) return;
+
+        const update = (e: KeyboardEvent) => setModifierHeld(e.ctrlKey || e.metaKey);
+        const reset = () => setModifierHeld(false);
+
+        window.addEventListener("keydown", update);
+        window.addEventListener("keyup", update);
+        window.addEventListener("blur", reset);
+        return () => {
+            window.removeEventListener("keydown", update);
+            window.removeEventListener("keyup", update);
+            window.removeEventListener("blur", reset);
+        };
+    }, [onSymbolClick]);
+
+    // Scroll a revealed range into view once its lines are rendered
+    const revealStart = revealRange?.start;
+    useEffect(() => {
+        if (!revealStart || !scrollRef.current) return;
+        const lineEl = scrollRef.current.querySelector(`[data-line="${revealStart}"]`);
+        lineEl?.scrollIntoView({ block: "center" });
+    }, [revealStart, code]);
+
+    // Drag selection: anchor is the line the mouse went down on, end follows the pointer
+    const [dragAnchor, setDragAnchor] = useState<number | null>(null);
+    const [dragEnd, setDragEnd] = useState<number | null>(null);
+
+    const dragRange = dragAnchor !== null && dragEnd !== null && dragAnchor !== dragEnd
+        ? toRange(dragAnchor, dragEnd)
+        : null;
+
+    // Finish a drag even if the mouse is released outside the viewer
+    useEffect(() => {
+        if (dragAnchor === null) return;
+
+        const cancelDrag = () => {
+            setDragAnchor(null);
+            setDragEnd(null);
+        };
+
+        window.addEventListener("mouseup", cancelDrag);
+        return () => window.removeEventListener("mouseup", cancelDrag);
+    }, [dragAnchor]);
+
+    const handleMouseDown = (e: React.MouseEvent, lineNum: number) => {
+        if (e.button !== 0) return;
+
+        // Ctrl/Cmd-click on an identifier navigates instead of selecting
+        const symbol = (e.target as HTMLElement).dataset?.symbol;
+        if (symbol && onSymbolClick && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            onSymbolClick(symbol, lineNum);
+            return;
+        }
+
+        // Shift-click extends from the current selection start
+        if (e.shiftKey && onRangeSelect) {
+            e.preventDefault();
+            const anchor = selectedRange?.start ?? selectedLine;
+            if (anchor && anchor !== lineNum) {
+                onRangeSelect(toRange(anchor, lineNum));
+                return;
+            }
+        }
+
+        setDragAnchor(lineNum);
+        setDragEnd(lineNum);
+    };
+
+    const handleMouseUp = (lineNum: number) => {
+        if (dragAnchor === null) return;
+
+        if (dragAnchor !== lineNum && onRangeSelect) {
+            onRangeSelect(toRange(dragAnchor, lineNum));
+        } else {
+            onLineSelect?.(lineNum);
+        }
+
+        setDragAnchor(null);
+        setDragEnd(null);
+    };
+
+    const isLineSelected = (lineNum: number) => {
+        const range = dragRange || selectedRange;
+        if (range) {
+            return lineNum >= range.start && lineNum <= range.end;
+        }
+        return selectedLine === lineNum;
+    };
 
     const isPlaceholder = code === "// Select a file to view code" || !code;
 
@@ -89,26 +223,36 @@ export function CodeViewer({
     }
 
     return (
-        <div className="h-full flex flex-col bg-[#0d0d0d]">
+        <div
+            className="flex-1 min-h-0 flex flex-col bg-[#0d0d0d]"
+            style={tokens ? { backgroundColor: tokens.bg, color: tokens.fg } : undefined}
+        >
             <div className="p-3 border-b border-border bg-secondary/10 flex justify-between items-center">
                 <span className="text-xs font-mono text-muted-foreground uppercase">{language}</span>
-                <span className="text-xs text-muted-foreground">{lines.length} lines</span>
+                <span className="text-xs text-muted-foreground">
+                    {selectedRange ? `${selectedRange.end - selectedRange.start + 1} of ` : ""}{lines.length} lines
+                </span>
             </div>
 
-            <div className="flex-1 overflow-auto font-mono text-sm relative">
+            <div ref={scrollRef} className={cn("flex-1 overflow-auto font-mono text-sm relative", dragRange && "select-none")}>
                 <div className="min-w-fit">
                     {lines.map((line, i) => {
                         const lineNum = i + 1;
-                        const isSelected = selectedLine === lineNum;
+                        const isSelected = isLineSelected(lineNum);
+                        const isRevealed = !!revealRange && lineNum >= revealRange.start && lineNum <= revealRange.end;
 
                         return (
                             <div
                                 key={i}
+                                data-line={lineNum}
                                 className={cn(
                                     "flex group hover:bg-muted/20 cursor-pointer transition-colors duration-200",
+                                    isRevealed && "bg-amber-500/10",
                                     isSelected && "bg-primary/10 hover:bg-primary/15"
                                 )}
-                                onClick={() => onLineSelect?.(lineNum)}
+                                onMouseDown={(e) => handleMouseDown(e, lineNum)}
+                                onMouseEnter={() => dragAnchor !== null && setDragEnd(lineNum)}
+                                onMouseUp={() => handleMouseUp(lineNum)}
                             >
                                 {/* Line Number */}
                                 <div className={cn(
@@ -119,8 +263,10 @@ export function CodeViewer({
                                 </div>
 
                                 {/* Code Content */}
-                                <div className="pl-4 pr-10 whitespace-pre text-foreground/90 py-0.5 font-normal">
-                                    {line}
+                                <div className={cn("pl-4 pr-10 whitespace-pre py-0.5 font-normal", !tokens && "text-foreground/90")}>
+                                    {tokens?.lines[i]
+                                        ? renderTokens(tokens.lines[i], !!onSymbolClick, modifierHeld)
+                                        : onSymbolClick ? renderIdentifiers(line, modifierHeld) : line}
                                 </div>
                             </div>
                         );
@@ -131,12 +277,50 @@ export function CodeViewer({
     );
 }
 
-// Very basic syntax highlighter visualization helper (temporary)
-function colorize(text: string) {
-    return text
-        .replace(/(import|export|function|const|return|from)/g, '<span class="text-purple-400">$1</span>')
-        .replace(/('.*?')/g, '<span class="text-green-400">$1</span>')
-        .replace(/(".*?")/g, '<span class="text-green-400">$1</span>')
-        .replace(/(\{|\}|\(|\)|\[|\])/g, '<span class="text-yellow-500">$1</span>')
-        .replace(/\b(React|useState|Button|div|nav|h1)\b/g, '<span class="text-blue-400">$1</span>');
+// shiki's FontStyle flags (a const enum, so not importable under isolatedModules)
+const FONT_ITALIC = 1;
+const FONT_BOLD = 2;
+
+/**
+ * Render one line of shiki tokens, keeping identifiers clickable inside each token
+ */
+function renderTokens(lineTokens: ThemedToken[], withSymbols: boolean, linkable: boolean) {
+    return lineTokens.map((token, i) => (
+        <span
+            key={i}
+            style={{
+                color: token.color,
+                fontStyle: token.fontStyle && token.fontStyle & FONT_ITALIC ? "italic" : undefined,
+                fontWeight: token.fontStyle && token.fontStyle & FONT_BOLD ? "bold" : undefined
+            }}
+        >
+            {withSymbols ? renderIdentifiers(token.content, linkable) : token.content}
+        </span>
+    ));
+}
+
+/**
+ * Wrap identifiers in spans so they can be ctrl/cmd-clicked for navigation
+ */
+function renderIdentifiers(line: string, linkable: boolean) {
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+
+    for (const match of line.matchAll(/[A-Za-z_$][\w$]*/g)) {
+        const index = match.index!;
+        if (index > lastIndex) parts.push(line.slice(lastIndex, index));
+        parts.push(
+            <span key={index} data-symbol={match[0]} className={cn(linkable && "hover:underline hover:text-primary")}>
+                {match[0]}
+            </span>
+        );
+        lastIndex = index + match[0].length;
+    }
+
+    if (lastIndex < line.length) parts.push(line.slice(lastIndex));
+    return parts;
+}
+
+function toRange(a: number, b: number): LineRange {
+    return { start: Math.min(a, b), end: Math.max(a, b) };
 }
@@ -0,0 +1,122 @@
+"use client";
+
+import { FileCode, Loader2, X } from "lucide-react";
+
+export interface SymbolReferenceItem {
+    filePath: string;
+    line: number;
+    text: string;
+    language: string;
+}
+
+export interface SymbolLocation {
+    filePath: string;
+    startLine: number;
+    endLine: number;
+    language: string;
+}
+
+export interface SymbolNavigation {
+    symbol: string;
+    loading: boolean;
+    type?: 'local' | 'project' | 'external' | 'unknown';
+    definition?: SymbolLocation | null;
+    /** Separate prototype (C/C++ header) when the definition is elsewhere */
+    declaration?: SymbolLocation | null;
+    references: SymbolReferenceItem[];
+    error?: string;
+}
+
+interface ReferencesPanelProps {
+    navigation: SymbolNavigation;
+    projectRoot?: string;
+    onOpen: (filePath: string, language: string, line: number, endLine?: number) => void;
+    onClose: () => void;
+}
+
+export function ReferencesPanel({ navigation, projectRoot, onOpen, onClose }: ReferencesPanelProps) {
+    const relative = (filePath: string) =>
+        projectRoot && filePath.startsWith(projectRoot)
+            ? filePath.slice(projectRoot.length).replace(/^[\\/]/, '')
+            : filePath;
+
+    // Group references by file for readability
+    const byFile = new Map<string, SymbolReferenceItem[]>();
+    for (const ref of navigation.references) {
+        if (!byFile.has(ref.filePath)) byFile.set(ref.filePath, []);
+        byFile.get(ref.filePath)!.push(ref);
+    }
+
+    return (
+        <div className="h-56 flex-shrink-0 border-t border-border bg-secondary/10 flex flex-col text-xs">
+            <div className="px-3 py-2 border-b border-border flex items-center justify-between">
+                <span className="font-semibold uppercase tracking-wider text-muted-foreground">
+                    References to <span className="font-mono normal-case text-foreground">{navigation.symbol}</span>
+                    {!navigation.loading && ` (${navigation.references.length})`}
+                </span>
+                <button onClick={onClose} className="p-1 rounded hover:bg-secondary text-muted-foreground" title="Close">
+                    <X size={12} />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-auto p-2 space-y-2">
+                {navigation.loading && (
+                    <div className="flex items-center gap-2 text-muted-foreground p-2">
+                        <Loader2 size={12} className="animate-spin" /> Resolving symbol...
+                    </div>
+                )}
+
+                {navigation.error && <div className="text-red-500 p-2">{navigation.error}</div>}
+
+                {!navigation.loading && !navigation.error && (
+                    <>
+                        {navigation.definition ? (
+                            <button
+                                onClick={() => onOpen(navigation.definition!.filePath, navigation.definition!.language, navigation.definition!.startLine, navigation.definition!.endLine)}
+                                className="w-full text-left px-2 py-1 rounded bg-primary/10 border border-primary/20 hover:bg-primary/15"
+                            >
+                                <span className="text-muted-foreground">Definition: </span>
+                                <span className="font-mono">{relative(navigation.definition.filePath)}:{navigation.definition.startLine}</span>
+                            </button>
+                        ) : (
+                            <div className="text-muted-foreground px-2">
+                                {navigation.type === 'external'
+                                    ? 'Defined in an external library.'
+                                    : 'No definition found in this project.'}
+                            </div>
+                        )}
+
+                        {navigation.declaration && (
+                            <button
+                                onClick={() => onOpen(navigation.declaration!.filePath, navigation.declaration!.language, navigation.declaration!.startLine, navigation.declaration!.endLine)}
+                                className="w-full text-left px-2 py-1 rounded border border-border hover:bg-muted/30"
+                            >
+                                <span className="text-muted-foreground">Declaration: </span>
+                                <span className="font-mono">{relative(navigation.declaration.filePath)}:{navigation.declaration.startLine}</span>
+                            </button>
+                        )}
+
+                        {Array.from(byFile.entries()).map(([filePath, refs]) => (
+                            <div key={filePath}>
+                                <div className="flex items-center gap-1.5 px-2 py-1 text-muted-foreground">
+                                    <FileCode size={12} />
+                                    <span className="font-mono truncate">{relative(filePath)}</span>
+                                </div>
+                                {refs.map(ref => (
+                                    <button
+                                        key={`${ref.filePath}:${ref.line}`}
+                                        onClick={() => onOpen(ref.filePath, ref.language, ref.line)}
+                                        className="w-full text-left flex gap-3 pl-6 pr-2 py-0.5 rounded hover:bg-muted/30 font-mono"
+                                    >
+                                        <span className="w-8 text-right text-muted-foreground/60 shrink-0">{ref.line}</span>
+                                        <span className="truncate text-foreground/80">{ref.text}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        ))}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,8 +1,12 @@
 "use client";
 
-import { Info, AlertTriangle, Lightbulb, Loader2, Sparkles } from "lucide-react";
+import { Info, AlertTriangle, Lightbulb, Loader2, Network, Sparkles } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useEffect, useState } from "react";
+import { isEventStream, readSSEStream, type ExplanationEvent } from "@/lib/sse";
+import type { LineRange } from "@/components/code/CodeViewer";
+import { ProjectOverview } from "./ProjectOverview";
+import { FollowUpChat } from "./FollowUpChat";
 
 interface Explanation {
     line_number: number;
@@ -23,17 +27,21 @@ interface FileContext {
 
 interface ExplanationPanelProps {
     selectedLine?: number | null;
+    selectedRange?: LineRange | null;
     fileContent?: string;
     fileLanguage?: string;
     filePath?: string;
     projectRoot?: string;
+    explorerRoot?: string;
 }
 
-export function ExplanationPanel({ selectedLine, fileContent, fileLanguage, filePath, projectRoot }: ExplanationPanelProps) {
+export function ExplanationPanel({ selectedLine, selectedRange, fileContent, fileLanguage, filePath, projectRoot, explorerRoot }: ExplanationPanelProps) {
     const [context, setContext] = useState<FileContext | null>(null);
     const [lineExplanation, setLineExplanation] = useState<string | null>(null);
     const [loadingContext, setLoadingContext] = useState(false);
     const [loadingLine, setLoadingLine] = useState(false);
+    const [streamingLine, setStreamingLine] = useState(false);
+    const [lineContext, setLineContext] = useState<string | null>(null);
 
     // Fetch File Summary when content changes
     useEffect(() => {
@@ -68,63 +76,114 @@ export function ExplanationPanel({ selectedLine, fileContent, fileLanguage, file
     }, [fileContent, fileLanguage]);
 
 
-    // Fetch Line Explanation when selection changes
+    // Stream Line (or block) Explanation when selection changes
+    const rangeStart = selectedRange?.start;
+    const rangeEnd = selectedRange?.end;
+
     useEffect(() => {
-        if (!selectedLine || !fileContent) {
+        if ((!selectedLine && !rangeStart) || !fileContent) {
             setLineExplanation(null);
+            setLineContext(null);
             return;
         }
 
+        // Abort the previous stream so tokens from an old line never leak in
+        const controller = new AbortController();
+
         const fetchLineExplanation = async () => {
             setLoadingLine(true);
+            setStreamingLine(false);
+            setLineExplanation(null);
+            setLineContext(null);
             try {
-                const lines = fileContent.split('\n');
-                const targetLine = lines[selectedLine - 1];
-                const before = lines.slice(Math.max(0, selectedLine - 3), selectedLine - 1).join('\n');
-                const after = lines.slice(selectedLine, Math.min(lines.length, selectedLine + 2)).join('\n');
+                let selection: Record<string, unknown>;
+
+                if (rangeStart && rangeEnd) {
+                    // Block mode: the server slices the range and its surroundings from `code`
+                    selection = { line_range: { start: rangeStart, end: rangeEnd } };
+                } else {
+                    const line = selectedLine!;
+                    const lines = fileContent.split('\n');
+                    const targetLine = lines[line - 1];
+                    const before = lines.slice(Math.max(0, line - 3), line - 1).join('\n');
+                    const after = lines.slice(line, Math.min(lines.length, line + 2)).join('\n');
+                    selection = { line_number: line, context_lines: { target: targetLine, before, after } };
+                }
 
                 const res = await fetch('/api/explain', {
                     method: 'POST',
+                    signal: controller.signal,
                     body: JSON.stringify({
                         code: fileContent,
                         language: fileLanguage,
-                        line_number: selectedLine,
-                        context_lines: { target: targetLine, before, after },
+                        ...selection,
                         file_path: filePath,
-                        project_root: projectRoot
+                        project_root: projectRoot,
+                        stream: true
                     })
                 });
-                const data = await res.json();
 
-                if (data.error) {
-                    setLineExplanation("Error: " + data.error);
-                } else if (data.explanation) {
-                    setLineExplanation(data.explanation);
-                } else {
-                    setLineExplanation("No explanation returned from server.");
+                // Mock, rate-limit and validation responses are still plain JSON
+                if (!isEventStream(res)) {
+                    const data = await res.json();
+                    if (data.error) {
+                        setLineExplanation("Error: " + data.error);
+                    } else if (data.explanation) {
+                        setLineExplanation(data.explanation);
+                        setLineContext(data.context || null);
+                    } else {
+                        setLineExplanation("No explanation returned from server.");
+                    }
+                    return;
                 }
 
-                // Update context meta if returned in line explanation (unified response)
-                if (data.meta) {
-                    setContext(prev => ({ ...prev, meta: data.meta, isCached: data.isCached } as any));
-                }
+                let received = '';
+                await readSSEStream<ExplanationEvent>(res, (event) => {
+                    if (event.type === 'token') {
+                        received += event.text;
+                        setLineExplanation(received);
+                        setLoadingLine(false);
+                        setStreamingLine(true);
+                    } else if (event.type === 'done') {
+                        setLineExplanation(event.explanation || received || "No explanation returned from server.");
+                        setLineContext(event.context || null);
+
+                        // Update context meta if returned in line explanation (unified response)
+                        if (event.meta) {
+                            setContext(prev => ({ ...prev, meta: event.meta, isCached: event.isCached } as any));
+                        }
+                    } else if (event.type === 'error') {
+                        setLineExplanation("Error: " + event.error);
+                    }
+                });
             } catch (e: any) {
+                if (e.name === 'AbortError') return;
                 setLineExplanation("Failed to get explanation: " + e.message);
             } finally {
-                setLoadingLine(false);
+                if (!controller.signal.aborted) {
+                    setLoadingLine(false);
+                    setStreamingLine(false);
+                }
             }
         };
 
         fetchLineExplanation();
-    }, [selectedLine, fileContent, fileLanguage]);
+
+        return () => controller.abort();
+    }, [selectedLine, rangeStart, rangeEnd, fileContent, fileLanguage]);
 
 
-    const [activeTab, setActiveTab] = useState<'line' | 'file'>('file');
+    const [activeTab, setActiveTab] = useState<'line' | 'file' | 'project'>('file');
 
-    // Switch to line tab when a line is selected
+    // Switch to line tab when a line or range is selected
     useEffect(() => {
-        if (selectedLine) setActiveTab('line');
-    }, [selectedLine]);
+        if (selectedLine || rangeStart) setActiveTab('line');
+    }, [selectedLine, rangeStart]);
+
+    const hasSelection = Boolean(selectedLine || selectedRange);
+    const chatRange = selectedRange || (selectedLine ? { start: selectedLine, end: selectedLine } : null);
+    const canFollowUp = !loadingLine && !streamingLine && !!lineExplanation && !!fileContent
+        && !lineExplanation.startsWith("Error:") && !lineExplanation.startsWith("Failed to get explanation");
 
     return (
         <div className="h-full bg-secondary/30 border-l border-border flex flex-col">
@@ -152,6 +211,17 @@ export function ExplanationPanel({ selectedLine, fileContent, fileLanguage, file
                     >
                         File Overview
                     </button>
+                    <button
+                        onClick={() => setActiveTab('project')}
+                        className={cn(
+                            "flex-1 py-3 text-xs font-semibold uppercase tracking-wider transition-colors border-b-2",
+                            activeTab === 'project'
+                                ? "border-primary text-primary bg-background/50"
+                                : "border-transparent text-muted-foreground hover:text-foreground hover:bg-background/30"
+                        )}
+                    >
+                        Project
+                    </button>
                 </div>
             </div>
 
@@ -164,11 +234,13 @@ export function ExplanationPanel({ selectedLine, fileContent, fileLanguage, file
                         AI Line Analysis
                     </div>
 
-                    {selectedLine ? (
+                    {hasSelection ? (
                         <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
                             <div className="text-xs text-muted-foreground mb-2 font-mono uppercase tracking-wider flex justify-between">
-                                <span>Line {selectedLine}</span>
-                                {loadingLine && <Loader2 size={12} className="animate-spin" />}
+                                <span>
+                                    {selectedRange ? `Lines ${selectedRange.start}-${selectedRange.end}` : `Line ${selectedLine}`}
+                                </span>
+                                {(loadingLine || streamingLine) && <Loader2 size={12} className="animate-spin" />}
                             </div>
 
                             <div className="p-4 rounded-lg bg-primary/10 border border-primary/20 text-foreground/90 leading-relaxed shadow-sm relative overflow-hidden text-sm">
@@ -179,14 +251,32 @@ export function ExplanationPanel({ selectedLine, fileContent, fileLanguage, file
                                         <div className="h-4 bg-primary/20 rounded w-5/6 animate-pulse"></div>
                                     </div>
                                 ) : (
-                                    lineExplanation
+                                    <span className="whitespace-pre-wrap">
+                                        {lineExplanation}
+                                        {streamingLine && <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-primary/60 animate-pulse" />}
+                                    </span>
                                 )}
                             </div>
+
+                            {canFollowUp && chatRange && (
+                                <div className="mt-4">
+                                    <FollowUpChat
+                                        key={`${filePath}:${chatRange.start}-${chatRange.end}`}
+                                        range={chatRange}
+                                        code={fileContent!}
+                                        language={fileLanguage}
+                                        filePath={filePath}
+                                        explanation={lineExplanation!}
+                                        context={lineContext}
+                                    />
+                                </div>
+                            )}
                         </div>
                     ) : (
                         <div className="p-8 rounded-lg border border-dashed border-border flex flex-col items-center justify-center text-center gap-2 text-muted-foreground">
                             <Sparkles size={24} className="opacity-20" />
                             <p className="text-sm">Select a line of code to see a specific explanation.</p>
+                            <p className="text-xs opacity-70">Shift-click or drag to explain a block of lines.</p>
                             <button
                                 onClick={() => setActiveTab('file')}
                                 className="text-xs text-primary hover:underline mt-2"
@@ -262,6 +352,15 @@ export function ExplanationPanel({ selectedLine, fileContent, fileLanguage, file
                         </div>
                     )}
                 </div>
+
+                {/* Project Tab content */}
+                <div className={cn("space-y-4", activeTab === 'project' ? "block" : "hidden")}>
+                    <div className="text-sm font-semibold text-foreground flex items-center gap-2">
+                        <Network size={16} className="text-emerald-500" />
+                        Project Architecture
+                    </div>
+                    <ProjectOverview projectRoot={explorerRoot || projectRoot} />
+                </div>
             </div>
 
             {/* Meta / Usage Status */}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2, MessageSquare, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isEventStream, readSSEStream, type ChatEvent } from "@/lib/sse";
+import type { LineRange } from "@/components/code/CodeViewer";
+
+interface ChatMessage {
+    role: "user" | "assistant";
+    content: string;
+}
+
+interface FollowUpChatProps {
+    range: LineRange;
+    code: string;
+    language?: string;
+    filePath?: string;
+    explanation: string;
+    context?: string | null; // Cross-file/semantic context retrieved for the explanation
+}
+
+/**
+ * Follow-up questions about the current selection. The parent remounts this
+ * (via `key`) when the selection changes, which starts a fresh thread.
+ */
+export function FollowUpChat({ range, code, language, filePath, explanation, context }: FollowUpChatProps) {
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [input, setInput] = useState("");
+    const [sending, setSending] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+    const endRef = useRef<HTMLDivElement>(null);
+
+    // Stop an in-flight reply when the thread is discarded
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: "nearest" });
+    }, [messages]);
+
+    const setReply = (content: string) =>
+        setMessages(prev => [...prev.slice(0, -1), { role: "assistant", content }]);
+
+    const send = async () => {
+        const question = input.trim();
+        if (!question || sending) return;
+
+        const history: ChatMessage[] = [...messages, { role: "user", content: question }];
+        setMessages([...history, { role: "assistant", content: "" }]);
+        setInput("");
+        setSending(true);
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        try {
+            const res = await fetch("/api/chat", {
+                method: "POST",
+                signal: controller.signal,
+                body: JSON.stringify({
+                    code,
+                    language,
+                    file_path: filePath,
+                    line_range: range,
+                    explanation,
+                    context,
+                    messages: history,
+                    stream: true
+                })
+            });
+
+            // Mock, rate-limit and validation responses are plain JSON
+            if (!isEventStream(res)) {
+                const data = await res.json();
+                setReply(data.error ? "Error: " + data.error : data.reply || "No reply returned from server.");
+                return;
+            }
+
+            let received = "";
+            await readSSEStream<ChatEvent>(res, (event) => {
+                if (event.type === "token") {
+                    received += event.text;
+                    setReply(received);
+                } else if (event.type === "done") {
+                    setReply(event.reply || received || "No reply returned from server.");
+                } else if (event.type === "error") {
+                    setReply("Error: " + event.error);
+                }
+            });
+        } catch (e: any) {
+            if (e.name === "AbortError") return;
+            setReply("Failed to get a reply: " + e.message);
+        } finally {
+            if (!controller.signal.aborted) setSending(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="text-xs font-bold text-foreground uppercase tracking-wider opacity-70 flex items-center gap-2">
+                <MessageSquare size={12} /> Follow-up
+            </div>
+
+            {messages.map((message, i) => (
+                <div
+                    key={i}
+                    className={cn(
+                        "px-3 py-2 rounded-lg text-sm leading-relaxed whitespace-pre-wrap",
+                        message.role === "user"
+                            ? "ml-6 bg-secondary/40 border border-border"
+                            : "mr-6 bg-background/50 border border-border/50 text-foreground/90"
+                    )}
+                >
+                    {message.content || <Loader2 size={12} className="animate-spin text-muted-foreground" />}
+                </div>
+            ))}
+            <div ref={endRef} />
+
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    send();
+                }}
+                className="flex gap-2"
+            >
+                <input
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    placeholder="Ask a follow-up question..."
+                    disabled={sending}
+                    className="flex-1 min-w-0 bg-background border border-border rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
+                />
+                <button
+                    type="submit"
+                    disabled={sending || !input.trim()}
+                    className="px-2 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                    title="Send"
+                >
+                    {sending ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+                </button>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { Boxes, DoorOpen, Layers, Loader2, Network, Workflow } from "lucide-react";
+
+interface ProjectOverviewData {
+    overview?: string;
+    modules?: Array<{ path: string; responsibility: string }>;
+    entry_points?: Array<{ path: string; role: string }>;
+    layers?: Array<{ name: string; modules?: string[]; description: string }>;
+    data_flow?: string;
+    hotspots?: string[];
+    stats?: {
+        totalFiles: number;
+        totalSymbols: number;
+        totalEdges: number;
+        languageBreakdown: Record<string, number>;
+    };
+    error?: string;
+}
+
+interface ProjectOverviewProps {
+    projectRoot?: string;
+}
+
+export function ProjectOverview({ projectRoot }: ProjectOverviewProps) {
+    const [data, setData] = useState<ProjectOverviewData | null>(null);
+    const [loadedRoot, setLoadedRoot] = useState<string | undefined>();
+    const [loading, setLoading] = useState(false);
+
+    const generateOverview = async () => {
+        if (!projectRoot) return;
+
+        setLoading(true);
+        try {
+            const res = await fetch('/api/overview', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ project_root: projectRoot })
+            });
+            setData(await res.json());
+            setLoadedRoot(projectRoot);
+        } catch (e: any) {
+            setData({ error: "Failed to generate overview: " + e.message });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (!projectRoot) {
+        return (
+            <div className="p-8 text-center text-xs text-muted-foreground bg-secondary/10 rounded-lg border border-dashed border-border">
+                Load a project folder in the explorer to generate an architecture overview.
+            </div>
+        );
+    }
+
+    const isStale = data && loadedRoot !== projectRoot;
+
+    return (
+        <div className="space-y-6">
+            {(!data || isStale) && !loading && (
+                <div className="p-6 rounded-lg border border-dashed border-border flex flex-col items-center text-center gap-3 text-muted-foreground">
+                    <Network size={24} className="opacity-30" />
+                    <p className="text-sm">Map the modules, entry points and layers of the whole project from its dependency graph.</p>
+                    <button
+                        onClick={generateOverview}
+                        className="text-xs px-3 py-1.5 rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+                    >
+                        Generate Architecture Overview
+                    </button>
+                </div>
+            )}
+
+            {loading && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground p-4 rounded-lg border border-border/50 bg-background/50">
+                    <Loader2 size={14} className="animate-spin" />
+                    Analyzing dependency graph... large projects can take a while on first run.
+                </div>
+            )}
+
+            {data && !isStale && !loading && (
+                data.error ? (
+                    <div className="text-xs text-red-500 p-3 rounded border border-red-500/20 bg-red-500/10">{data.error}</div>
+                ) : (
+                    <div className="animate-in fade-in duration-500 space-y-6">
+                        <div className="p-4 rounded-lg bg-secondary/20 border border-border">
+                            <h4 className="text-xs font-bold text-foreground uppercase tracking-wider mb-2 opacity-70">Architecture</h4>
+                            <div className="text-sm text-foreground/90 leading-relaxed">{data.overview}</div>
+                            {data.stats && (
+                                <div className="mt-3 text-[10px] text-muted-foreground">
+                                    {data.stats.totalFiles} files · {data.stats.totalSymbols} symbols · {data.stats.totalEdges} import edges
+                                </div>
+                            )}
+                        </div>
+
+                        {data.entry_points && data.entry_points.length > 0 && (
+                            <OverviewSection icon={<DoorOpen size={12} />} title="Entry Points">
+                                {data.entry_points.map((entry, i) => (
+                                    <OverviewItem key={i} title={entry.path} description={entry.role} />
+                                ))}
+                            </OverviewSection>
+                        )}
+
+                        {data.layers && data.layers.length > 0 && (
+                            <OverviewSection icon={<Layers size={12} />} title="Layers">
+                                {data.layers.map((layer, i) => (
+                                    <OverviewItem
+                                        key={i}
+                                        title={layer.name}
+                                        description={layer.description}
+                                        detail={layer.modules?.join(', ')}
+                                    />
+                                ))}
+                            </OverviewSection>
+                        )}
+
+                        {data.modules && data.modules.length > 0 && (
+                            <OverviewSection icon={<Boxes size={12} />} title="Main Modules">
+                                {data.modules.map((mod, i) => (
+                                    <OverviewItem key={i} title={mod.path} description={mod.responsibility} />
+                                ))}
+                            </OverviewSection>
+                        )}
+
+                        {data.data_flow && (
+                            <OverviewSection icon={<Workflow size={12} />} title="Data Flow">
+                                <div className="px-3 py-2 text-xs bg-background/50 leading-relaxed">{data.data_flow}</div>
+                            </OverviewSection>
+                        )}
+
+                        {data.hotspots && data.hotspots.map((hotspot, idx) => (
+                            <div key={idx} className="text-xs text-muted-foreground bg-amber-500/10 p-3 rounded border border-amber-500/20">
+                                {hotspot}
+                            </div>
+                        ))}
+
+                        <button onClick={generateOverview} className="text-xs text-primary hover:underline">
+                            Regenerate
+                        </button>
+                    </div>
+                )
+            )}
+        </div>
+    );
+}
+
+function OverviewSection({ icon, title, children }: { icon: React.ReactNode; title: string; children: React.ReactNode }) {
+    return (
+        <div className="space-y-2">
+            <h4 className="text-xs font-bold text-foreground uppercase tracking-wider opacity-70 flex items-center gap-2">
+                {icon} {title}
+            </h4>
+            <div className="rounded-lg border border-border/50 overflow-hidden">
+                {children}
+            </div>
+        </div>
+    );
+}
+
+function OverviewItem({ title, description, detail }: { title: string; description: string; detail?: string }) {
+    return (
+        <div className="px-3 py-2 text-xs border-b border-border/50 last:border-0 bg-background/50">
+            <div className="font-mono text-primary break-all">{title}</div>
+            <div className="text-foreground/80 mt-0.5">{description}</div>
+            {detail && <div className="text-[10px] text-muted-foreground mt-0.5 font-mono break-all">{detail}</div>}
+        </div>
+    );
+}
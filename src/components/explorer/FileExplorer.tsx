@@ -18,11 +18,13 @@ interface FileExplorerProps {
     files?: FileNode[]; // Deprecated, but keeping for prop compat if needed initially
     onFileSelect?: (file: FileNode) => void;
     selectedFileId?: string;
+    onRootChange?: (rootPath: string) => void; // Absolute path of the loaded project
 }
 
 export function FileExplorer({
     onFileSelect,
-    selectedFileId
+    selectedFileId,
+    onRootChange
 }: FileExplorerProps) {
     const [mode, setMode] = useState<'local' | 'github'>('local');
     const [repoUrl, setRepoUrl] = useState("");
@@ -74,6 +76,7 @@ export function FileExplorer({
                 // Now load files from that path
                 const files = await loadDirectory(data.projectPath);
                 setRootFiles(files);
+                if (files.length > 0) onRootChange?.(data.projectPath);
             } catch (err: any) {
                 setError(err.message);
             } finally {
@@ -83,6 +86,7 @@ export function FileExplorer({
             // Local mode
             const files = await loadDirectory(rootPath);
             setRootFiles(files);
+            if (files.length > 0) onRootChange?.(rootPath);
         }
     };
 
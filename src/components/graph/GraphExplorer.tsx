@@ -0,0 +1,389 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, FolderOpen, Loader2, Minus, Plus, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { computeForceLayout } from "@/lib/graph-layout";
+import { CodeViewer } from "@/components/code/CodeViewer";
+import { ModeToggle } from "@/components/mode-toggle";
+import type { GraphEdge, GraphNode } from "@/lib/graph-types";
+
+const CANVAS_WIDTH = 1200;
+const CANVAS_HEIGHT = 900;
+const MAX_RENDERED_NODES = 600; // Layout is O(n^2) per iteration
+
+const LANGUAGE_COLORS: Record<string, string> = {
+    typescript: "#3b82f6",
+    javascript: "#eab308",
+    python: "#22c55e",
+    java: "#f97316",
+    go: "#06b6d4",
+    rust: "#ef4444",
+    c: "#a855f7",
+    cpp: "#d946ef"
+};
+
+interface GraphData {
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+    cycles: string[][];
+}
+
+interface GraphExplorerProps {
+    initialRoot?: string;
+}
+
+export function GraphExplorer({ initialRoot }: GraphExplorerProps) {
+    const [rootInput, setRootInput] = useState(initialRoot || "");
+    const [data, setData] = useState<GraphData | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const [directoryFilter, setDirectoryFilter] = useState("");
+    const [hiddenLanguages, setHiddenLanguages] = useState<Set<string>>(new Set());
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [fileContent, setFileContent] = useState<string>("// Select a file to view code");
+
+    const [transform, setTransform] = useState({ x: 0, y: 0, k: 1 });
+    const panStart = useRef<{ x: number; y: number; tx: number; ty: number } | null>(null);
+
+    const loadGraph = useCallback(async (root: string) => {
+        if (!root) return;
+        setLoading(true);
+        setError(null);
+        setSelectedId(null);
+        try {
+            const res = await fetch('/api/graph', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ project_root: root })
+            });
+            const json = await res.json();
+            if (!res.ok) throw new Error(json.error || 'Failed to load graph');
+            setData(json);
+            setTransform({ x: 0, y: 0, k: 1 });
+        } catch (err: any) {
+            setError(err.message);
+            setData(null);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (initialRoot) loadGraph(initialRoot);
+    }, [initialRoot, loadGraph]);
+
+    const languages = useMemo(
+        () => Array.from(new Set(data?.nodes.map(n => n.language) || [])).sort(),
+        [data]
+    );
+
+    const directories = useMemo(() => {
+        const dirs = new Set<string>();
+        for (const node of data?.nodes || []) {
+            if (node.directory === '.') continue;
+            const parts = node.directory.split('/');
+            for (let depth = 1; depth <= Math.min(parts.length, 3); depth++) {
+                dirs.add(parts.slice(0, depth).join('/'));
+            }
+        }
+        return Array.from(dirs).sort();
+    }, [data]);
+
+    // Apply directory/language filters
+    const visibleNodes = useMemo(() => {
+        const nodes = (data?.nodes || []).filter(node =>
+            !hiddenLanguages.has(node.language) &&
+            (!directoryFilter || node.path.startsWith(directoryFilter + '/'))
+        );
+        // Keep the most connected files when the graph is too large to lay out
+        return nodes
+            .sort((a, b) => (b.importedBy + b.imports) - (a.importedBy + a.imports))
+            .slice(0, MAX_RENDERED_NODES);
+    }, [data, hiddenLanguages, directoryFilter]);
+
+    const nodeById = useMemo(() => new Map(visibleNodes.map(n => [n.id, n])), [visibleNodes]);
+
+    const visibleEdges = useMemo(
+        () => (data?.edges || []).filter(edge => nodeById.has(edge.from) && nodeById.has(edge.to)),
+        [data, nodeById]
+    );
+
+    const positions = useMemo(
+        () => computeForceLayout(visibleNodes.map(n => n.id), visibleEdges, { width: CANVAS_WIDTH, height: CANVAS_HEIGHT }),
+        [visibleNodes, visibleEdges]
+    );
+
+    // Neighbourhood of the selected file
+    const neighbourhood = useMemo(() => {
+        if (!selectedId) return null;
+        const imports = visibleEdges.filter(e => e.from === selectedId).map(e => e.to);
+        const importers = visibleEdges.filter(e => e.to === selectedId).map(e => e.from);
+        return { imports, importers, all: new Set([selectedId, ...imports, ...importers]) };
+    }, [selectedId, visibleEdges]);
+
+    const selectedNode = selectedId ? data?.nodes.find(n => n.id === selectedId) : undefined;
+
+    const selectFile = async (id: string) => {
+        setSelectedId(id);
+        setFileContent("// Loading...");
+        try {
+            const res = await fetch('/api/content', {
+                method: 'POST',
+                body: JSON.stringify({ path: id })
+            });
+            if (res.ok) {
+                const json = await res.json();
+                setFileContent(json.content);
+            } else {
+                setFileContent("// Failed to load file content");
+            }
+        } catch (e) {
+            setFileContent("// Error loading file");
+        }
+    };
+
+    const toggleLanguage = (language: string) => {
+        setHiddenLanguages(prev => {
+            const next = new Set(prev);
+            if (next.has(language)) next.delete(language); else next.add(language);
+            return next;
+        });
+    };
+
+    const zoom = (factor: number) => {
+        setTransform(t => ({ ...t, k: Math.min(4, Math.max(0.25, t.k * factor)) }));
+    };
+
+    const showLabels = visibleNodes.length <= 80;
+
+    return (
+        <div className="h-screen w-full flex overflow-hidden bg-background text-foreground transition-colors duration-300">
+            {/* Sidebar - Root & Filters */}
+            <aside className="w-64 flex-shrink-0 flex flex-col border-r border-border bg-secondary/30">
+                <div className="h-12 border-b border-border flex items-center justify-between px-4">
+                    <Link href="/app" className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+                        <ArrowLeft size={14} /> Explorer
+                    </Link>
+                    <ModeToggle />
+                </div>
+
+                <div className="p-4 border-b border-border space-y-3">
+                    <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Dependency Graph</h2>
+                    <form
+                        onSubmit={(e) => { e.preventDefault(); loadGraph(rootInput); }}
+                        className="flex gap-2"
+                    >
+                        <input
+                            type="text"
+                            placeholder="E:\Code\Project"
+                            className="flex-1 bg-background border border-border rounded px-2 py-1 text-xs text-foreground focus:outline-none focus:border-primary"
+                            value={rootInput}
+                            onChange={(e) => setRootInput(e.target.value)}
+                        />
+                        <button disabled={loading} type="submit" className="p-1 hover:bg-secondary rounded transition-colors text-primary hover:text-primary/80" title="Load Graph">
+                            {loading ? <Loader2 size={16} className="animate-spin" /> : <FolderOpen size={16} />}
+                        </button>
+                    </form>
+                    {error && <div className="text-xs text-red-500 break-all">{error}</div>}
+                </div>
+
+                {data && (
+                    <div className="flex-1 overflow-auto p-4 space-y-5 text-xs">
+                        <div className="space-y-1 text-muted-foreground">
+                            <div>{visibleNodes.length} / {data.nodes.length} files · {visibleEdges.length} imports</div>
+                            {data.nodes.length > MAX_RENDERED_NODES && (
+                                <div className="text-amber-500">Showing the {MAX_RENDERED_NODES} most connected files. Filter by directory to see more.</div>
+                            )}
+                            {data.cycles.length > 0 && (
+                                <div className="text-red-500">{data.cycles.length} import cycle{data.cycles.length > 1 ? 's' : ''} detected</div>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <h3 className="font-semibold text-foreground uppercase tracking-wider opacity-70">Directory</h3>
+                            <select
+                                value={directoryFilter}
+                                onChange={(e) => setDirectoryFilter(e.target.value)}
+                                className="w-full bg-background border border-border rounded px-2 py-1 text-xs focus:outline-none focus:border-primary"
+                            >
+                                <option value="">All directories</option>
+                                {directories.map(dir => (
+                                    <option key={dir} value={dir}>{dir}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="space-y-2">
+                            <h3 className="font-semibold text-foreground uppercase tracking-wider opacity-70">Languages</h3>
+                            {languages.map(language => (
+                                <label key={language} className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={!hiddenLanguages.has(language)}
+                                        onChange={() => toggleLanguage(language)}
+                                    />
+                                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: LANGUAGE_COLORS[language] || "#9ca3af" }} />
+                                    {language}
+                                </label>
+                            ))}
+                        </div>
+
+                        {selectedNode && neighbourhood && (
+                            <div className="space-y-3">
+                                <h3 className="font-semibold text-foreground uppercase tracking-wider opacity-70">Selected</h3>
+                                <div className="font-mono text-primary break-all">{selectedNode.path}</div>
+                                <NeighbourList title="Imports" ids={neighbourhood.imports} nodeById={nodeById} onSelect={selectFile} />
+                                <NeighbourList title="Imported by" ids={neighbourhood.importers} nodeById={nodeById} onSelect={selectFile} />
+                            </div>
+                        )}
+                    </div>
+                )}
+            </aside>
+
+            {/* Graph Canvas */}
+            <main className="flex-1 flex min-w-0">
+                <section className="flex-1 min-w-0 relative bg-secondary/10">
+                    {!data && !loading && (
+                        <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+                            Enter a project folder to visualize its imports.
+                        </div>
+                    )}
+
+                    {data && (
+                        <>
+                            <div className="absolute top-3 right-3 z-10 flex gap-1 bg-background/80 border border-border rounded p-1">
+                                <button onClick={() => zoom(1.25)} className="p-1 hover:bg-secondary rounded" title="Zoom in"><Plus size={14} /></button>
+                                <button onClick={() => zoom(0.8)} className="p-1 hover:bg-secondary rounded" title="Zoom out"><Minus size={14} /></button>
+                                <button onClick={() => setTransform({ x: 0, y: 0, k: 1 })} className="p-1 hover:bg-secondary rounded" title="Reset view"><RotateCcw size={14} /></button>
+                            </div>
+
+                            <svg
+                                className="w-full h-full cursor-grab active:cursor-grabbing"
+                                viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+                                onWheel={(e) => zoom(e.deltaY < 0 ? 1.1 : 0.9)}
+                                onMouseDown={(e) => { panStart.current = { x: e.clientX, y: e.clientY, tx: transform.x, ty: transform.y }; }}
+                                onMouseMove={(e) => {
+                                    if (!panStart.current) return;
+                                    const start = panStart.current;
+                                    setTransform(t => ({ ...t, x: start.tx + (e.clientX - start.x), y: start.ty + (e.clientY - start.y) }));
+                                }}
+                                onMouseUp={() => { panStart.current = null; }}
+                                onMouseLeave={() => { panStart.current = null; }}
+                            >
+                                <defs>
+                                    <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="5" markerHeight="5" orient="auto-start-reverse">
+                                        <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" className="text-muted-foreground" />
+                                    </marker>
+                                </defs>
+
+                                <g transform={`translate(${transform.x} ${transform.y}) scale(${transform.k})`}>
+                                    {visibleEdges.map(edge => {
+                                        const from = positions.get(edge.from);
+                                        const to = positions.get(edge.to);
+                                        if (!from || !to) return null;
+
+                                        const fromNode = nodeById.get(edge.from)!;
+                                        const toNode = nodeById.get(edge.to)!;
+                                        const inCycle = fromNode.cycle !== undefined && fromNode.cycle === toNode.cycle;
+                                        const isActive = !neighbourhood || edge.from === selectedId || edge.to === selectedId;
+
+                                        return (
+                                            <line
+                                                key={`${edge.from}->${edge.to}`}
+                                                x1={from.x}
+                                                y1={from.y}
+                                                x2={to.x}
+                                                y2={to.y}
+                                                stroke={inCycle ? "#ef4444" : "currentColor"}
+                                                strokeWidth={isActive && neighbourhood ? 1.5 : 0.75}
+                                                markerEnd="url(#arrow)"
+                                                className="text-muted-foreground"
+                                                opacity={isActive ? 0.7 : 0.08}
+                                            />
+                                        );
+                                    })}
+
+                                    {visibleNodes.map(node => {
+                                        const point = positions.get(node.id);
+                                        if (!point) return null;
+
+                                        const isSelected = node.id === selectedId;
+                                        const isDimmed = neighbourhood !== null && !neighbourhood.all.has(node.id);
+                                        const radius = 4 + Math.sqrt(node.importedBy) * 2.5; // Hubs are bigger
+
+                                        return (
+                                            <g
+                                                key={node.id}
+                                                transform={`translate(${point.x} ${point.y})`}
+                                                className="cursor-pointer"
+                                                opacity={isDimmed ? 0.15 : 1}
+                                                onMouseDown={(e) => e.stopPropagation()}
+                                                onClick={() => selectFile(node.id)}
+                                            >
+                                                <title>{`${node.path}\nimported by ${node.importedBy} · imports ${node.imports}`}</title>
+                                                <circle
+                                                    r={radius}
+                                                    fill={LANGUAGE_COLORS[node.language] || "#9ca3af"}
+                                                    stroke={isSelected ? "currentColor" : node.cycle !== undefined ? "#ef4444" : "none"}
+                                                    strokeWidth={isSelected ? 3 : 1.5}
+                                                    className="text-foreground"
+                                                />
+                                                {(showLabels || (neighbourhood && !isDimmed)) && (
+                                                    <text
+                                                        x={radius + 3}
+                                                        y={3}
+                                                        className={cn("fill-foreground text-[10px] select-none", isSelected && "font-bold")}
+                                                    >
+                                                        {node.path.split('/').pop()}
+                                                    </text>
+                                                )}
+                                            </g>
+                                        );
+                                    })}
+                                </g>
+                            </svg>
+                        </>
+                    )}
+                </section>
+
+                {/* Code View for the selected file */}
+                {selectedNode && (
+                    <section className="w-[40%] flex-shrink-0 flex flex-col border-l border-border min-w-0">
+                        <CodeViewer code={fileContent} language={selectedNode.language} />
+                    </section>
+                )}
+            </main>
+        </div>
+    );
+}
+
+function NeighbourList({
+    title,
+    ids,
+    nodeById,
+    onSelect
+}: {
+    title: string;
+    ids: string[];
+    nodeById: Map<string, GraphNode>;
+    onSelect: (id: string) => void;
+}) {
+    return (
+        <div className="space-y-1">
+            <div className="text-muted-foreground">{title} ({ids.length})</div>
+            {ids.map(id => (
+                <button
+                    key={id}
+                    onClick={() => onSelect(id)}
+                    className="block w-full text-left font-mono truncate hover:text-primary"
+                    title={nodeById.get(id)?.path}
+                >
+                    {nodeById.get(id)?.path || id}
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -65,7 +65,7 @@ export function HowItWorksSection() {
                     <ul className="space-y-2 text-sm text-muted-foreground">
                         <li>• Supports JavaScript/TypeScript, Python, and Java parsing</li>
                         <li>• Dependency graphs cached with incremental updates (MD5 hashing)</li>
-                        <li>• In-memory vector store with cosine similarity search</li>
+                        <li>• HNSW vector index with cosine similarity, cached as a compact binary file</li>
                         <li>• Rate-limited batch embedding generation (10-20 units per batch)</li>
                         <li>•  Max 3-5 semantic results per query with confidence filtering</li>
                     </ul>
@@ -24,7 +24,7 @@ const techStack = [
         items: [
             { name: "Google Gemini", detail: "gemini-flash for explanations" },
             { name: "text-embedding-004", detail: "Code embeddings" },
-            { name: "Cosine similarity", detail: "Vector search" }
+            { name: "HNSW", detail: "Approximate nearest-neighbour vector search" }
         ]
     },
     {
@@ -39,7 +39,7 @@ const techStack = [
         category: "Storage & Caching",
         items: [
             { name: "File-based cache", detail: "Dependency graphs (MD5 hashing)" },
-            { name: "In-memory vector store", detail: "Semantic search index" }
+            { name: "Binary HNSW index", detail: "Semantic search index (Float32, lazily loaded)" }
         ]
     }
 ];
@@ -79,7 +79,7 @@ export function TechStackSection() {
                     </h4>
                     <ul className="space-y-2 text-sm text-muted-foreground">
                         <li>• <strong>Gemini over OpenAI:</strong> Free tier for embeddings, good code understanding</li>
-                        <li>• <strong>In-memory vector store:</strong> Zero dependencies, fast for small-medium projects</li>
+                        <li>• <strong>Built-in HNSW index:</strong> Zero dependencies, scales to tens of thousands of functions</li>
                         <li>• <strong>File-based caching:</strong> Simple, no external database required</li>
                         <li>• <strong>AST parsing:</strong> Deterministic symbol resolution, not regex guessing</li>
                     </ul>
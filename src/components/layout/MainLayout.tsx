@@ -1,8 +1,11 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
+import { Network, Search } from "lucide-react";
 import { FileExplorer, FileNode } from "@/components/explorer/FileExplorer";
-import { CodeViewer } from "@/components/code/CodeViewer";
+import { CodeViewer, LineRange } from "@/components/code/CodeViewer";
+import { ReferencesPanel, SymbolNavigation } from "@/components/code/ReferencesPanel";
 import { ExplanationPanel } from "@/components/explanation/ExplanationPanel";
 
 import { ModeToggle } from "@/components/mode-toggle";
@@ -12,22 +15,26 @@ export function MainLayout() {
     const [fileContent, setFileContent] = useState<string>("// Select a file to view code");
     const [fileLanguage, setFileLanguage] = useState<string>("plaintext");
     const [selectedLine, setSelectedLine] = useState<number | null>(null);
+    const [selectedRange, setSelectedRange] = useState<LineRange | null>(null);
     const [filePath, setFilePath] = useState<string | undefined>();
     const [projectRoot, setProjectRoot] = useState<string | undefined>();
+    const [explorerRoot, setExplorerRoot] = useState<string | undefined>();
+    const [revealRange, setRevealRange] = useState<LineRange | null>(null);
+    const [navigation, setNavigation] = useState<SymbolNavigation | null>(null);
 
-    const handleFileSelect = async (file: FileNode) => {
+    const handleFileSelect = async (file: FileNode, reveal: LineRange | null = null) => {
         setSelectedFileId(file.id);
         setSelectedLine(null);
+        setSelectedRange(null);
+        setRevealRange(reveal);
         setFileContent("// Loading...");
         setFileLanguage(file.language || "plaintext");
         setFilePath(file.path);
 
-        // Extract project root from file path (path to the first parent directory)
-        // For example: e:\Coding\CodeInterpreter\test-project\main.ts -> e:\Coding\CodeInterpreter\test-project
-        const pathParts = file.path.split(/[\\/]/);
-        // Find the directory containing the file
-        const rootPath = pathParts.slice(0, -1).join('\\');
-        setProjectRoot(rootPath);
+        // Use the folder loaded in the explorer as the project root, falling back to
+        // the file's parent directory (e.g. e:\Coding\Project\main.ts -> e:\Coding\Project)
+        const parentDir = file.path.replace(/[\\/][^\\/]*$/, '');
+        setProjectRoot(explorerRoot || parentDir);
 
         try {
             const res = await fetch('/api/content', {
@@ -45,10 +52,64 @@ export function MainLayout() {
         }
     };
 
+    // Jump to a location returned by symbol navigation, loading the file if needed
+    const openLocation = (path: string, language: string, line: number, endLine?: number) => {
+        const reveal = { start: line, end: endLine ?? line };
+        if (path === filePath) {
+            setRevealRange(reveal);
+            return;
+        }
+        handleFileSelect({
+            // Same id scheme as /api/files so the explorer highlights the file
+            id: btoa(String.fromCharCode(...Array.from(new TextEncoder().encode(path)))),
+            name: path.split(/[\\/]/).pop() || path,
+            type: "file",
+            language,
+            path
+        }, reveal);
+    };
+
+    const handleSymbolClick = async (symbol: string) => {
+        const root = explorerRoot || projectRoot;
+        if (!filePath || !root) return;
+
+        setNavigation({ symbol, loading: true, references: [] });
+
+        try {
+            const res = await fetch('/api/symbol', {
+                method: 'POST',
+                body: JSON.stringify({ project_root: root, file_path: filePath, symbol })
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to resolve symbol');
+
+            setNavigation({
+                symbol,
+                loading: false,
+                type: data.type,
+                definition: data.definition,
+                declaration: data.declaration,
+                references: data.references || []
+            });
+
+            if (data.definition) {
+                openLocation(data.definition.filePath, data.definition.language, data.definition.startLine, data.definition.endLine);
+            }
+        } catch (e: any) {
+            setNavigation({ symbol, loading: false, references: [], error: e.message });
+        }
+    };
+
     const handleLineSelect = (lineNum: number) => {
+        setSelectedRange(null);
         setSelectedLine(lineNum === selectedLine ? null : lineNum);
     };
 
+    const handleRangeSelect = (range: LineRange) => {
+        setSelectedLine(null);
+        setSelectedRange(range);
+    };
+
     return (
         <div className="h-screen w-full flex overflow-hidden bg-background text-foreground transition-colors duration-300">
             {/* Sidebar - File Explorer */}
@@ -57,11 +118,28 @@ export function MainLayout() {
                     <span className="font-bold text-lg tracking-tight bg-gradient-to-r from-blue-500 to-purple-500 bg-clip-text text-transparent">
                         CodeAI
                     </span>
-                    <ModeToggle />
+                    <div className="flex items-center gap-1">
+                        <Link
+                            href={explorerRoot ? `/app/search?root=${encodeURIComponent(explorerRoot)}` : "/app/search"}
+                            className="p-2 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+                            title="Semantic Search"
+                        >
+                            <Search size={16} />
+                        </Link>
+                        <Link
+                            href={explorerRoot ? `/app/graph?root=${encodeURIComponent(explorerRoot)}` : "/app/graph"}
+                            className="p-2 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+                            title="Dependency Graph"
+                        >
+                            <Network size={16} />
+                        </Link>
+                        <ModeToggle />
+                    </div>
                 </div>
                 <FileExplorer
                     onFileSelect={handleFileSelect}
                     selectedFileId={selectedFileId}
+                    onRootChange={setExplorerRoot}
                 />
             </aside>
 
@@ -74,17 +152,31 @@ export function MainLayout() {
                         language={fileLanguage}
                         onLineSelect={handleLineSelect}
                         selectedLine={selectedLine}
+                        onRangeSelect={handleRangeSelect}
+                        selectedRange={selectedRange}
+                        onSymbolClick={handleSymbolClick}
+                        revealRange={revealRange}
                     />
+                    {navigation && (
+                        <ReferencesPanel
+                            navigation={navigation}
+                            projectRoot={explorerRoot || projectRoot}
+                            onOpen={openLocation}
+                            onClose={() => setNavigation(null)}
+                        />
+                    )}
                 </section>
 
                 {/* Explanations Panel */}
                 <aside className="w-80 flex-shrink-0 bg-card">
                     <ExplanationPanel
                         selectedLine={selectedLine}
+                        selectedRange={selectedRange}
                         fileContent={fileContent}
                         fileLanguage={fileLanguage}
                         filePath={filePath}
                         projectRoot={projectRoot}
+                        explorerRoot={explorerRoot}
                     />
                 </aside>
             </main>
@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Loader2, Search } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CodeViewer, LineRange } from "@/components/code/CodeViewer";
+import { ModeToggle } from "@/components/mode-toggle";
+import type { CodeSearchHit } from "@/lib/search-types";
+import type { IndexingProgress } from "@/lib/semantic/types";
+
+const CONFIDENCE_STYLES: Record<CodeSearchHit["confidence"], string> = {
+    high: "bg-green-500/10 text-green-500 border-green-500/20",
+    medium: "bg-amber-500/10 text-amber-500 border-amber-500/20",
+    low: "bg-secondary text-muted-foreground border-border"
+};
+
+// How often to poll a running indexing job
+const INDEXING_POLL_MS = 2000;
+
+interface SearchExplorerProps {
+    initialRoot?: string;
+}
+
+export function SearchExplorer({ initialRoot }: SearchExplorerProps) {
+    const [rootInput, setRootInput] = useState(initialRoot || "");
+    const [query, setQuery] = useState("");
+    const [results, setResults] = useState<CodeSearchHit[] | null>(null);
+    const [stats, setStats] = useState<{ indexedUnits: number; duration: number } | null>(null);
+    const [indexing, setIndexing] = useState<IndexingProgress | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const [selected, setSelected] = useState<CodeSearchHit | null>(null);
+    const [fileContent, setFileContent] = useState<string>("// Select a file to view code");
+    const [revealRange, setRevealRange] = useState<LineRange | null>(null);
+
+    const runSearch = async () => {
+        if (!rootInput || !query.trim()) return;
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch('/api/search', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ project_root: rootInput, query })
+            });
+            const json = await res.json();
+            if (!res.ok) throw new Error(json.error || 'Search failed');
+            setResults(json.results);
+            setStats(json.stats);
+            setIndexing(json.stats.indexing);
+        } catch (err: any) {
+            setError(err.message);
+            setResults(null);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Follow the background indexing job until it finishes
+    useEffect(() => {
+        if (indexing?.status !== 'running') return;
+
+        const timer = setTimeout(async () => {
+            try {
+                const res = await fetch('/api/indexing', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ project_root: indexing.projectRoot })
+                });
+                if (res.ok) {
+                    setIndexing(await res.json());
+                }
+            } catch (e) {
+                // Stop polling; the next search reports progress again
+            }
+        }, INDEXING_POLL_MS);
+
+        return () => clearTimeout(timer);
+    }, [indexing]);
+
+    const openResult = async (hit: CodeSearchHit) => {
+        setSelected(hit);
+        setRevealRange(hit.lines);
+        if (selected?.file === hit.file) return;
+
+        setFileContent("// Loading...");
+        try {
+            const res = await fetch('/api/content', {
+                method: 'POST',
+                body: JSON.stringify({ path: hit.file })
+            });
+            if (res.ok) {
+                const json = await res.json();
+                setFileContent(json.content);
+            } else {
+                setFileContent("// Failed to load file content");
+            }
+        } catch (e) {
+            setFileContent("// Error loading file");
+        }
+    };
+
+    const relative = (filePath: string) =>
+        rootInput && filePath.startsWith(rootInput)
+            ? filePath.slice(rootInput.length).replace(/^[\\/]/, '')
+            : filePath;
+
+    return (
+        <div className="h-screen w-full flex overflow-hidden bg-background text-foreground transition-colors duration-300">
+            {/* Sidebar - Query & Results */}
+            <aside className="w-[28rem] flex-shrink-0 flex flex-col border-r border-border bg-secondary/30">
+                <div className="h-12 border-b border-border flex items-center justify-between px-4">
+                    <Link href="/app" className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+                        <ArrowLeft size={14} /> Explorer
+                    </Link>
+                    <ModeToggle />
+                </div>
+
+                <form
+                    onSubmit={(e) => { e.preventDefault(); runSearch(); }}
+                    className="p-4 border-b border-border space-y-3"
+                >
+                    <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Semantic Search</h2>
+                    <input
+                        type="text"
+                        placeholder="E:\Code\Project"
+                        className="w-full bg-background border border-border rounded px-2 py-1 text-xs text-foreground focus:outline-none focus:border-primary"
+                        value={rootInput}
+                        onChange={(e) => setRootInput(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            placeholder="Where do we hash passwords?"
+                            className="flex-1 bg-background border border-border rounded px-2 py-1.5 text-sm text-foreground focus:outline-none focus:border-primary"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                        />
+                        <button
+                            disabled={loading || !rootInput || !query.trim()}
+                            type="submit"
+                            className="px-2 hover:bg-secondary rounded transition-colors text-primary hover:text-primary/80 disabled:opacity-50"
+                            title="Search"
+                        >
+                            {loading ? <Loader2 size={16} className="animate-spin" /> : <Search size={16} />}
+                        </button>
+                    </div>
+                    {error && <div className="text-xs text-red-500 break-all">{error}</div>}
+                    {loading && <div className="text-xs text-muted-foreground">Searching... the first search in a project starts indexing it.</div>}
+                    {indexing?.status === 'running' && (
+                        <div className="text-xs text-muted-foreground">
+                            Indexing in the background: {indexing.total > 0 ? `${indexing.current}/${indexing.total} units` : indexing.message.toLowerCase()}. Semantic matches cover the {indexing.embedded} units embedded so far.
+                        </div>
+                    )}
+                    {indexing?.status === 'failed' && (
+                        <div className="text-xs text-red-500 break-all">Indexing failed: {indexing.error}</div>
+                    )}
+                </form>
+
+                <div className="flex-1 overflow-auto p-3 space-y-2">
+                    {results && stats && (
+                        <div className="px-1 text-[11px] text-muted-foreground">
+                            {results.length} result{results.length === 1 ? '' : 's'} · {stats.indexedUnits} indexed units · {stats.duration}ms
+                        </div>
+                    )}
+
+                    {results?.length === 0 && (
+                        <div className="p-6 text-center text-xs text-muted-foreground border border-dashed border-border rounded-lg">
+                            No matching code found. Try describing what the code does.
+                        </div>
+                    )}
+
+                    {results?.map(hit => (
+                        <button
+                            key={hit.id}
+                            onClick={() => openResult(hit)}
+                            className={cn(
+                                "w-full text-left p-3 rounded-lg border bg-background/50 hover:bg-background transition-colors space-y-2",
+                                selected?.id === hit.id ? "border-primary/50" : "border-border/50"
+                            )}
+                        >
+                            <div className="flex items-start justify-between gap-2">
+                                <div className="min-w-0">
+                                    <div className="text-sm font-mono text-foreground truncate">
+                                        {hit.symbol || hit.type}
+                                    </div>
+                                    <div className="text-[11px] font-mono text-muted-foreground truncate">
+                                        {relative(hit.file)}:{hit.lines.start}-{hit.lines.end}
+                                    </div>
+                                </div>
+                                <span className={cn("shrink-0 px-1.5 py-0.5 rounded border text-[10px] font-semibold uppercase tracking-wider", CONFIDENCE_STYLES[hit.confidence])}>
+                                    {hit.score.toFixed(2)}
+                                </span>
+                            </div>
+                            <pre className="text-[11px] font-mono text-foreground/70 bg-secondary/20 rounded p-2 overflow-hidden whitespace-pre">
+                                {hit.snippet}
+                            </pre>
+                            <div className="flex flex-wrap gap-1">
+                                {hit.matchReasons.map(reason => (
+                                    <span key={reason} className="px-1.5 py-0.5 rounded bg-secondary/40 text-[10px] text-muted-foreground">
+                                        {reason}
+                                    </span>
+                                ))}
+                            </div>
+                        </button>
+                    ))}
+                </div>
+            </aside>
+
+            {/* Code View for the selected result */}
+            <main className="flex-1 min-w-0 flex flex-col">
+                <CodeViewer
+                    code={fileContent}
+                    language={selected?.language || "plaintext"}
+                    revealRange={revealRange}
+                />
+            </main>
+        </div>
+    );
+}
@@ -8,12 +8,16 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { parserRegistry } from './parsers';
+import { FileFilter } from './file-filter';
+import { clearModuleResolutionCache, resolveImportTargets } from './module-resolution';
 import type {
     DependencyGraph,
     FileMetadata,
     SymbolMetadata,
     GraphBuildOptions,
-    GraphBuildResult
+    GraphBuildResult,
+    GraphFileFilters,
+    ImportEdge
 } from './types';
 
 const IGNORED_DIRS = new Set([
@@ -34,6 +38,8 @@ const IGNORED_DIRS = new Set([
 
 const IGNORED_FILES = new Set(['.DS_Store', 'Thumbs.db']);
 
+const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
 /**
  * Build a dependency graph for a project
  */
@@ -43,6 +49,15 @@ export async function buildDependencyGraph(
     const startTime = Date.now();
     const errors: Array<{ file: string; error: string }> = [];
 
+    // Re-read tsconfig/package.json in case path aliases changed
+    clearModuleResolutionCache(options.projectRoot);
+
+    const filters: GraphFileFilters = {
+        include: options.include,
+        exclude: options.exclude,
+        respectGitignore: options.respectGitignore
+    };
+
     const graph: DependencyGraph = {
         files: new Map(),
         symbols: new Map(),
@@ -54,16 +69,18 @@ export async function buildDependencyGraph(
             totalSymbols: 0,
             totalImports: 0,
             languageBreakdown: {}
-        }
+        },
+        filters,
+        sourceRoots: options.sourceRoots,
+        includePaths: options.includePaths
     };
 
     try {
         // Scan directory for files
         const files = await scanDirectory(
             options.projectRoot,
-            options.include,
-            options.exclude,
-            options.maxFileSize || 5 * 1024 * 1024 // 5MB default
+            filters,
+            options.maxFileSize || DEFAULT_MAX_FILE_SIZE
         );
 
         // Parse each file
@@ -127,15 +144,15 @@ export async function buildDependencyGraph(
 /**
  * Scan directory recursively for supported files
  */
-async function scanDirectory(
+export async function scanDirectory(
     dir: string,
-    include?: string[],
-    exclude?: string[],
-    maxFileSize?: number
+    filterOptions: GraphFileFilters,
+    maxFileSize: number = DEFAULT_MAX_FILE_SIZE
 ): Promise<string[]> {
     const files: string[] = [];
 
-    async function scan(currentDir: string): Promise<void> {
+    async function scan(currentDir: string, parentFilter: FileFilter): Promise<void> {
+        const filter = await parentFilter.enterDirectory(currentDir);
         const entries = await fs.readdir(currentDir, { withFileTypes: true });
 
         for (const entry of entries) {
@@ -151,13 +168,19 @@ async function scanDirectory(
             const fullPath = path.join(currentDir, entry.name);
 
             if (entry.isDirectory()) {
-                await scan(fullPath);
+                if (filter.acceptsDirectory(fullPath)) {
+                    await scan(fullPath, filter);
+                }
             } else if (entry.isFile()) {
                 // Check if file is supported
                 if (!parserRegistry.isSupported(fullPath)) {
                     continue;
                 }
 
+                if (!filter.acceptsFile(fullPath)) {
+                    continue;
+                }
+
                 // Check file size
                 if (maxFileSize) {
                     const stats = await fs.stat(fullPath);
@@ -166,13 +189,12 @@ async function scanDirectory(
                     }
                 }
 
-                // TODO: Apply include/exclude patterns (glob matching)
                 files.push(fullPath);
             }
         }
     }
 
-    await scan(dir);
+    await scan(dir, FileFilter.create(dir, filterOptions));
     return files;
 }
 
@@ -213,9 +235,36 @@ function buildSymbolIndex(graph: DependencyGraph): void {
     }
 
     // Resolve symbol usage by analyzing imports
+    classifyProjectImports(graph);
     resolveSymbolUsage(graph);
 }
 
+/**
+ * Parsers mark every non-relative import as external; clear the flag for
+ * aliased, workspace, absolute Python, Java, Go module and Rust crate paths
+ * ('@/lib/utils', 'myapp.models', 'com.acme.Foo', 'example.com/app/store', 'crate::db')
+ * and `#include <...>` headers that resolve to project files
+ */
+function classifyProjectImports(graph: DependencyGraph): void {
+    for (const [filePath, fileMetadata] of graph.files) {
+        for (const importStmt of fileMetadata.imports) {
+            if (!importStmt.isExternal) continue;
+
+            const resolved = resolveImportTargets(
+                importStmt.from,
+                filePath,
+                fileMetadata.language,
+                graph,
+                importStmt
+            );
+
+            if (resolved.length > 0) {
+                importStmt.isExternal = false;
+            }
+        }
+    }
+}
+
 /**
  * Resolve which files use which symbols based on imports
  */
@@ -227,25 +276,25 @@ function resolveSymbolUsage(graph: DependencyGraph): void {
                 continue;
             }
 
-            // Resolve the imported file path
-            const importedFilePath = resolveImportPath(
+            // Resolve the imported file paths (several for a Java package wildcard)
+            const importedFilePaths = resolveImportTargets(
                 importStmt.from,
                 filePath,
-                graph.projectRoot,
-                fileMetadata.language
-            );
+                fileMetadata.language,
+                graph,
+                importStmt
+            ).filter(importedFilePath => graph.files.has(importedFilePath));
 
-            if (!importedFilePath || !graph.files.has(importedFilePath)) {
+            if (importedFilePaths.length === 0) {
                 continue;
             }
 
             // Mark symbols as used
             for (const symbolName of importStmt.symbols) {
                 if (symbolName === '*') {
-                    // Import all - mark all exports from that file as used
-                    const importedFile = graph.files.get(importedFilePath);
-                    if (importedFile) {
-                        for (const exportedSymbol of importedFile.exports) {
+                    // Import all - mark all exports from those files as used
+                    for (const importedFilePath of importedFilePaths) {
+                        for (const exportedSymbol of graph.files.get(importedFilePath)!.exports) {
                             addSymbolUsage(graph, exportedSymbol.name, filePath);
                         }
                     }
@@ -258,68 +307,56 @@ function resolveSymbolUsage(graph: DependencyGraph): void {
 }
 
 /**
- * Add a file to the symbol's usedIn array
+ * Resolve every project-internal import into a file-to-file edge
  */
-function addSymbolUsage(graph: DependencyGraph, symbolName: string, filePath: string): void {
-    const symbolMetadataArray = graph.symbols.get(symbolName);
-    if (symbolMetadataArray) {
-        for (const symbolMetadata of symbolMetadataArray) {
-            if (!symbolMetadata.usedIn.includes(filePath)) {
-                symbolMetadata.usedIn.push(filePath);
+export function resolveImportEdges(graph: DependencyGraph): ImportEdge[] {
+    const edges = new Map<string, ImportEdge>();
+
+    for (const [filePath, fileMetadata] of graph.files) {
+        for (const importStmt of fileMetadata.imports) {
+            if (importStmt.isExternal) {
+                continue;
             }
-        }
-    }
-}
 
-/**
- * Resolve import path to absolute file path
- */
-function resolveImportPath(
-    importPath: string,
-    currentFile: string,
-    projectRoot: string,
-    language: string
-): string | null {
-    try {
-        // Relative import
-        if (importPath.startsWith('.')) {
-            const currentDir = path.dirname(currentFile);
-            let resolvedPath = path.resolve(currentDir, importPath);
-
-            // Try to add extension if not present
-            if (!path.extname(resolvedPath)) {
-                // Try common extensions based on language
-                const extensions = language === 'python'
-                    ? ['.py']
-                    : ['.ts', '.tsx', '.js', '.jsx'];
-
-                for (const ext of extensions) {
-                    const withExt = resolvedPath + ext;
-                    try {
-                        // Note: We can't use fs.existsSync in async context easily
-                        // For now, just return the path with extension
-                        // The caller will check if it exists in the graph
-                        return withExt;
-                    } catch {
-                        continue;
-                    }
+            const importedFilePaths = resolveImportTargets(
+                importStmt.from,
+                filePath,
+                fileMetadata.language,
+                graph,
+                importStmt
+            );
+
+            for (const importedFilePath of importedFilePaths) {
+                if (importedFilePath === filePath || !graph.files.has(importedFilePath)) {
+                    continue;
                 }
 
-                // Try index file
-                const indexPath = path.join(resolvedPath, 'index');
-                for (const ext of extensions) {
-                    return indexPath + ext;
+                // Merge multiple import statements between the same pair of files
+                const key = `${filePath}\0${importedFilePath}`;
+                const existing = edges.get(key);
+                if (existing) {
+                    existing.symbols.push(...importStmt.symbols.filter(s => !existing.symbols.includes(s)));
+                } else {
+                    edges.set(key, { from: filePath, to: importedFilePath, symbols: [...importStmt.symbols] });
                 }
             }
-
-            return resolvedPath;
         }
+    }
 
-        // Absolute or package import - these are external
-        return null;
+    return Array.from(edges.values());
+}
 
-    } catch (error) {
-        return null;
+/**
+ * Add a file to the symbol's usedIn array
+ */
+function addSymbolUsage(graph: DependencyGraph, symbolName: string, filePath: string): void {
+    const symbolMetadataArray = graph.symbols.get(symbolName);
+    if (symbolMetadataArray) {
+        for (const symbolMetadata of symbolMetadataArray) {
+            if (!symbolMetadata.usedIn.includes(filePath)) {
+                symbolMetadata.usedIn.push(filePath);
+            }
+        }
     }
 }
 
@@ -344,12 +381,17 @@ export async function updateDependencyGraph(
             const content = await fs.readFile(filePath, 'utf-8');
             const metadata = await parser.parseFile(filePath, content);
             graph.files.set(filePath, metadata);
-        } catch (error) {
-            // File might have been deleted
-            console.error(`Error updating file ${filePath}:`, error);
+        } catch (error: any) {
+            // Deleted files just drop out of the graph
+            if (error.code !== 'ENOENT') {
+                console.error(`Error updating file ${filePath}:`, error);
+            }
         }
     }
 
+    // Package and source-root indexes are derived from the file set
+    clearModuleResolutionCache(graph.projectRoot);
+
     // Rebuild symbol index
     buildSymbolIndex(graph);
 
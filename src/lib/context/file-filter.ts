@@ -0,0 +1,110 @@
+/**
+ * File Filter
+ *
+ * Decides which files the graph builder scans: include/exclude globs from
+ * GraphBuildOptions plus the project's .gitignore files (root and nested).
+ * Paths are matched relative to the project root with forward slashes.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import ignore, { type Ignore } from 'ignore';
+import picomatch from 'picomatch';
+import type { GraphFileFilters } from './types';
+
+interface GitignoreLayer {
+    /** Directory containing the .gitignore, relative to the project root ('' for root) */
+    base: string;
+    rules: Ignore;
+}
+
+/**
+ * Filter state for one directory during a scan. Child directories get their
+ * own filter so nested .gitignore rules only apply beneath them.
+ */
+export class FileFilter {
+    private constructor(
+        private readonly projectRoot: string,
+        private readonly includeMatcher: ((p: string) => boolean) | null,
+        private readonly excludeMatcher: ((p: string) => boolean) | null,
+        private readonly respectGitignore: boolean,
+        private readonly layers: GitignoreLayer[]
+    ) { }
+
+    /**
+     * Root filter; call enterDirectory(projectRoot) to load the root .gitignore
+     */
+    static create(projectRoot: string, options: GraphFileFilters = {}): FileFilter {
+        const include = options.include?.filter(Boolean) || [];
+        const exclude = options.exclude?.filter(Boolean) || [];
+
+        return new FileFilter(
+            projectRoot,
+            include.length > 0 ? picomatch(include, { dot: true }) : null,
+            exclude.length > 0 ? picomatch(exclude, { dot: true }) : null,
+            options.respectGitignore !== false,
+            []
+        );
+    }
+
+    /**
+     * Filter for a subdirectory, picking up its .gitignore if present
+     */
+    async enterDirectory(dir: string): Promise<FileFilter> {
+        if (!this.respectGitignore) return this;
+
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(dir, '.gitignore'), 'utf-8');
+        } catch {
+            return this;
+        }
+
+        const layer: GitignoreLayer = {
+            base: this.relative(dir),
+            rules: ignore().add(content)
+        };
+
+        return new FileFilter(
+            this.projectRoot,
+            this.includeMatcher,
+            this.excludeMatcher,
+            this.respectGitignore,
+            [...this.layers, layer]
+        );
+    }
+
+    /**
+     * Whether a directory should be descended into
+     */
+    acceptsDirectory(fullPath: string): boolean {
+        const rel = this.relative(fullPath);
+        if (this.excludeMatcher?.(rel)) return false;
+        return !this.isGitignored(rel, true);
+    }
+
+    /**
+     * Whether a file should be scanned
+     */
+    acceptsFile(fullPath: string): boolean {
+        const rel = this.relative(fullPath);
+        if (this.includeMatcher && !this.includeMatcher(rel)) return false;
+        if (this.excludeMatcher?.(rel)) return false;
+        return !this.isGitignored(rel, false);
+    }
+
+    private isGitignored(rel: string, isDirectory: boolean): boolean {
+        for (const layer of this.layers) {
+            if (layer.base && !rel.startsWith(layer.base + '/')) continue;
+
+            const local = layer.base ? rel.slice(layer.base.length + 1) : rel;
+            // Directory-only rules ("build/") need the trailing slash to match
+            if (layer.rules.ignores(isDirectory ? local + '/' : local)) return true;
+        }
+        return false;
+    }
+
+    private relative(fullPath: string): string {
+        return path.relative(this.projectRoot, fullPath).split(path.sep).join('/');
+    }
+}
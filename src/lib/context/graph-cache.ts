@@ -8,11 +8,19 @@
 import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
-import type { DependencyGraph, SerializedGraph, FileMetadata } from './types';
-import { buildDependencyGraph, updateDependencyGraph } from './dependency-graph-builder';
+import type { DependencyGraph, SerializedGraph, FileMetadata, GraphFileFilters } from './types';
+import { buildDependencyGraph, scanDirectory, updateDependencyGraph } from './dependency-graph-builder';
+import { clearModuleResolutionCache, getModuleResolutionConfigFiles } from './module-resolution';
 
 const CACHE_DIR = path.join(process.cwd(), 'node_modules', '.cache', 'codeinterpreter', 'graphs');
 
+// Walking the project for new files is skipped if it was done this recently;
+// edits and deletions of known files are still checked on every call
+const NEW_FILE_SCAN_INTERVAL_MS = 30 * 1000;
+
+// When each project was last walked for new files
+const lastNewFileScans = new Map<string, number>();
+
 /**
  * Get cache file path for a project
  */
@@ -38,7 +46,10 @@ export async function saveGraphToCache(graph: DependencyGraph): Promise<void> {
         lastUpdated: graph.lastUpdated,
         projectRoot: graph.projectRoot,
         version: graph.version,
-        stats: graph.stats
+        stats: graph.stats,
+        filters: graph.filters,
+        sourceRoots: graph.sourceRoots,
+        includePaths: graph.includePaths
     };
 
     // Write to file
@@ -62,7 +73,10 @@ export async function loadGraphFromCache(projectRoot: string): Promise<Dependenc
             lastUpdated: serialized.lastUpdated,
             projectRoot: serialized.projectRoot,
             version: serialized.version,
-            stats: serialized.stats
+            stats: serialized.stats,
+            filters: serialized.filters,
+            sourceRoots: serialized.sourceRoots,
+            includePaths: serialized.includePaths
         };
 
         return graph;
@@ -112,24 +126,48 @@ export async function detectChangedFiles(
  * Load or build a dependency graph
  * 
  * Tries to load from cache first. If cache is invalid or files have changed,
- * rebuilds the graph (or updates incrementally).
+ * been added or deleted, rebuilds the graph (or updates incrementally). A cached graph built with
+ * different include/exclude filters, source roots or include paths is rebuilt.
  */
 export async function loadOrBuildGraph(
     projectRoot: string,
-    options?: {
+    options?: GraphFileFilters & {
+        sourceRoots?: string[];
+        includePaths?: string[];
         forceRebuild?: boolean;
         onProgress?: (current: number, total: number, file: string) => void;
     }
 ): Promise<{ graph: DependencyGraph; fromCache: boolean; duration: number }> {
     const startTime = Date.now();
 
+    // Building or updating the graph clears the resolution cache itself; this
+    // catches config edits when no source file changed
+    await clearResolutionCacheOnConfigChange(projectRoot);
+
+    const filters: GraphFileFilters = {
+        include: options?.include,
+        exclude: options?.exclude,
+        respectGitignore: options?.respectGitignore
+    };
+
     // Skip cache if force rebuild
     if (!options?.forceRebuild) {
         const cachedGraph = await loadGraphFromCache(projectRoot);
 
-        if (cachedGraph) {
-            // Check if any files have changed
+        const sameSourceRoots = (cachedGraph?.sourceRoots || []).join('\0') === (options?.sourceRoots || []).join('\0');
+        const sameIncludePaths = (cachedGraph?.includePaths || []).join('\0') === (options?.includePaths || []).join('\0');
+
+        if (cachedGraph && sameFilters(cachedGraph.filters, filters) && sameSourceRoots && sameIncludePaths) {
+            // Check if any files have changed, and pick up files created since
             const changedFiles = await detectChangedFiles(cachedGraph, projectRoot);
+            if (Date.now() - (lastNewFileScans.get(projectRoot) ?? 0) >= NEW_FILE_SCAN_INTERVAL_MS) {
+                for (const filePath of await scanDirectory(projectRoot, filters)) {
+                    if (!cachedGraph.files.has(filePath)) {
+                        changedFiles.push(filePath);
+                    }
+                }
+                lastNewFileScans.set(projectRoot, Date.now());
+            }
 
             if (changedFiles.length === 0) {
                 // Cache is fresh
@@ -157,6 +195,9 @@ export async function loadOrBuildGraph(
     console.log('Building dependency graph from scratch...');
     const result = await buildDependencyGraph({
         projectRoot,
+        ...filters,
+        sourceRoots: options?.sourceRoots,
+        includePaths: options?.includePaths,
         skipErrors: true,
         onProgress: options?.onProgress
     });
@@ -165,6 +206,8 @@ export async function loadOrBuildGraph(
         throw new Error(`Failed to build graph: ${result.errors.map(e => e.error).join(', ')}`);
     }
 
+    lastNewFileScans.set(projectRoot, Date.now());
+
     // Save to cache
     await saveGraphToCache(result.graph);
 
@@ -175,6 +218,40 @@ export async function loadOrBuildGraph(
     };
 }
 
+/**
+ * Forget cached module resolution data when a config file it was read from
+ * (tsconfig and its bases, package manifests, go.mod, ...) was created,
+ * edited or deleted since
+ */
+async function clearResolutionCacheOnConfigChange(projectRoot: string): Promise<void> {
+    const configFiles = getModuleResolutionConfigFiles(projectRoot);
+
+    const changed = await Promise.all(configFiles.map(async ([filePath, mtime]) => {
+        const current = await fs.stat(filePath).then(stats => (stats.isFile() ? stats.mtimeMs : null), () => null);
+        return current !== mtime;
+    }));
+
+    if (changed.includes(true)) {
+        clearModuleResolutionCache(projectRoot);
+    }
+}
+
+/**
+ * Compare build filters, treating missing lists as empty and gitignore as on by default.
+ * Graphs cached before filters were recorded never match, so they get rebuilt once.
+ */
+function sameFilters(a: GraphFileFilters | undefined, b: GraphFileFilters): boolean {
+    if (!a) return false;
+
+    const normalize = (filters?: GraphFileFilters) => JSON.stringify({
+        include: [...(filters?.include || [])].sort(),
+        exclude: [...(filters?.exclude || [])].sort(),
+        respectGitignore: filters?.respectGitignore !== false
+    });
+
+    return normalize(a) === normalize(b);
+}
+
 /**
  * Clear cache for a project
  */
@@ -8,4 +8,7 @@ export * from './types';
 export * from './dependency-graph-builder';
 export * from './graph-cache';
 export * from './symbol-resolver';
+export * from './project-summary';
+export { FileFilter } from './file-filter';
+export { resolveImportPath, resolveImportTargets, findPackagePeers, clearModuleResolutionCache, getModuleResolutionConfigFiles } from './module-resolution';
 export { parserRegistry } from './parsers';
@@ -0,0 +1,1217 @@
+/**
+ * Module Resolution
+ *
+ * Resolves import specifiers to files inside the project. Shared by the graph
+ * builder and the symbol resolver so both agree on what an import points at.
+ *
+ * Candidates are probed against `DependencyGraph.files` in a fixed order: the
+ * exact path, the TypeScript source for an emitted `.js` name, each extension
+ * in SCRIPT_EXTENSIONS, then `index.*` in the same order.
+ *
+ * Non-relative JavaScript/TypeScript imports use the same sources a bundler would:
+ * - tsconfig.json / jsconfig.json `paths` and `baseUrl` (nearest config, following `extends`)
+ * - workspace packages (package.json `workspaces`, pnpm-workspace.yaml) and their `exports`
+ *
+ * Python imports follow the interpreter: leading dots climb packages from the
+ * importing file, absolute module paths are looked up under each source root
+ * (configured roots, the project root, `src/`, and the parents of top-level packages).
+ * `from package import name` first tries `name` as a submodule of the package.
+ *
+ * Java imports are fully-qualified names. Every Java file is indexed by its
+ * `package` declaration (or, without one, its path below a Maven/Gradle
+ * `src/main/java` root or a configured source root) plus its top-level type
+ * names. `com.acme.Foo` resolves to the file declaring `Foo` in `com.acme`,
+ * `com.acme.Foo.Inner` to the file of its outer class, and a wildcard import of
+ * `com.acme` to every file in that package (see resolveImportTargets).
+ *
+ * Go imports name a package directory. The nearest go.mod above each Go file
+ * supplies a module path; an import under that path (or under a local
+ * `replace` target) resolves to the non-test `.go` files of the matching directory.
+ *
+ * Rust paths walk the module tree: `crate::` starts at the crate root
+ * (src/lib.rs or src/main.rs next to the nearest Cargo.toml), `self::` at the
+ * current module and each `super::` climbs one level. Every segment that names
+ * a `foo.rs` or `foo/mod.rs` module descends into it; the first one that does
+ * not is an item inside the module reached so far. Paths starting with the
+ * name of a crate in the project resolve from that crate's root.
+ *
+ * C/C++ `#include "x.h"` is looked up next to the including file, then in the
+ * include directories; `#include <x.h>` only in the include directories. Those
+ * are the configured `includePaths`, `-I`/`-isystem` flags from a
+ * compile_commands.json at the project root (or in build/), then `include/`,
+ * `src/` and the project root.
+ *
+ * Config files are read synchronously and cached per project root; call
+ * clearModuleResolutionCache() before a build so edits to them are picked up.
+ * getModuleResolutionConfigFiles() lists the files read (and probed for but
+ * missing) with their modification times, to check whether the cache is stale.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { DependencyGraph, ImportStatement } from './types';
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+const PYTHON_EXTENSIONS = ['.py'];
+
+// Conventional Maven/Gradle source directories; the package path starts below them
+const JAVA_SOURCE_DIRS = /\/src\/(main|test|[\w-]+)\/java\//;
+
+// TypeScript ESM imports name the emitted file ('./foo.js') but the source is './foo.ts'
+const EMITTED_TO_SOURCE: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts']
+};
+
+// Conditions accepted when walking package.json `exports`, in order of preference
+const EXPORT_CONDITIONS = ['source', 'types', 'import', 'module', 'require', 'node', 'development', 'browser', 'default'];
+
+// Build output directories that usually mirror `src/`
+const BUILD_DIRS = /\/(dist|build|lib|out|esm|cjs)\//;
+
+interface PathMapping {
+    /** Pattern before the `*` (the whole pattern when there is no wildcard) */
+    prefix: string;
+    /** Pattern after the `*` */
+    suffix: string;
+    hasWildcard: boolean;
+    /** Absolute target patterns, `*` substituted at match time */
+    targets: string[];
+}
+
+interface CompilerPathConfig {
+    baseUrl?: string;
+    paths: PathMapping[];
+}
+
+interface WorkspacePackage {
+    name: string;
+    dir: string;
+    manifest: Record<string, any>;
+}
+
+interface JavaIndex {
+    /** Fully-qualified top-level type name to the file declaring it */
+    types: Map<string, string>;
+    /** Package name to the files in it */
+    packages: Map<string, string[]>;
+    /** File to its package name ('' for the default package) */
+    packageOf: Map<string, string>;
+}
+
+interface GoModule {
+    /** Module path from the `module` directive, or a `replace`d module path */
+    modulePath: string;
+    /** Directory the module path maps to */
+    dir: string;
+}
+
+interface GoIndex {
+    /** Modules found in the project, longest path first */
+    modules: GoModule[];
+    /** Package directory to its `.go` files */
+    packages: Map<string, string[]>;
+}
+
+interface RustCrate {
+    /** Crate name as used in paths (dashes become underscores) */
+    name: string | null;
+    /** Directory holding the crate root */
+    srcDir: string;
+    /** lib.rs or main.rs */
+    rootFile: string;
+}
+
+interface RustIndex {
+    /** Crate containing each directory's modules (null outside any crate) */
+    crateByDir: Map<string, RustCrate | null>;
+    /** Crates in the project by name */
+    crates: Map<string, RustCrate>;
+}
+
+interface ProjectResolution {
+    /** Nearest tsconfig/jsconfig per directory (null when none applies) */
+    configByDir: Map<string, CompilerPathConfig | null>;
+    /** Workspace packages keyed by package name */
+    packages: Map<string, WorkspacePackage> | null;
+    /** Directories Python absolute imports are resolved against, in priority order */
+    pythonRoots: string[] | null;
+    /** Java types and packages, built from the graph on first use */
+    java: JavaIndex | null;
+    /** Go modules and package directories, built from the graph on first use */
+    go: GoIndex | null;
+    /** Rust crates, built from the graph on first use */
+    rust: RustIndex | null;
+    /** Directories searched for C/C++ includes, in priority order */
+    includeDirs: string[] | null;
+    /** Modification time of every config file read, null for ones found missing */
+    configFiles: Map<string, number | null>;
+}
+
+const resolutionCache = new Map<string, ProjectResolution>();
+
+/**
+ * Resolve an import to an absolute project file path, or null if it is external
+ * or points at nothing in the project
+ */
+export function resolveImportPath(
+    importPath: string,
+    currentFile: string,
+    language: string,
+    graph: DependencyGraph
+): string | null {
+    return resolveImportTargets(importPath, currentFile, language, graph)[0] ?? null;
+}
+
+/**
+ * Every project file an import refers to. Usually zero or one; a Java wildcard
+ * import of a package (`import com.acme.model.*`) yields all files in it, and
+ * a Python `from . import views, forms` (pass the statement) its submodules.
+ */
+export function resolveImportTargets(
+    importPath: string,
+    currentFile: string,
+    language: string,
+    graph: DependencyGraph,
+    importStmt?: Pick<ImportStatement, 'type' | 'symbols'>
+): string[] {
+    if (language === 'java') {
+        return resolveJavaImport(importPath, graph);
+    }
+
+    if (language === 'python') {
+        // Only `from x import a, b` names can be submodules
+        const names = importStmt?.type === 'named' ? importStmt.symbols : [];
+        return resolvePythonImport(importPath, currentFile, names, graph);
+    }
+
+    if (language === 'go') {
+        return resolveGoImport(importPath, currentFile, graph);
+    }
+
+    const resolved = resolveSingleImport(importPath, currentFile, language, graph);
+    return resolved ? [resolved] : [];
+}
+
+/**
+ * Other files of the same package as `currentFile`, whose package-private
+ * declarations are visible without an import (Java and Go)
+ */
+export function findPackagePeers(currentFile: string, graph: DependencyGraph): string[] {
+    const language = graph.files.get(currentFile)?.language;
+
+    if (language === 'go') {
+        // A Go package is a directory; external test packages (`foo_test`) only see exports
+        const packageName = graph.files.get(currentFile)!.packageName;
+        const files = getGoIndex(getProjectResolution(graph.projectRoot), graph).packages.get(path.dirname(currentFile)) || [];
+        return files.filter(filePath => filePath !== currentFile && graph.files.get(filePath)?.packageName === packageName);
+    }
+
+    if (language !== 'java') return [];
+
+    const index = getJavaIndex(getProjectResolution(graph.projectRoot), graph);
+    const packageName = index.packageOf.get(currentFile);
+    if (packageName === undefined) return [];
+
+    return (index.packages.get(packageName) || []).filter(filePath => filePath !== currentFile);
+}
+
+function resolveSingleImport(
+    importPath: string,
+    currentFile: string,
+    language: string,
+    graph: DependencyGraph
+): string | null {
+    const isProjectFile = (filePath: string) => graph.files.has(filePath);
+
+    if (language === 'rust') {
+        return resolveRustPath(importPath, currentFile, graph);
+    }
+
+    if (language === 'c' || language === 'cpp') {
+        return resolveInclude(importPath, currentFile, graph);
+    }
+
+    if (language !== 'typescript' && language !== 'javascript') {
+        return importPath.startsWith('.')
+            ? probeFile(path.resolve(path.dirname(currentFile), importPath), isProjectFile, [path.extname(currentFile)])
+            : null;
+    }
+
+    // Relative import
+    if (importPath.startsWith('.')) {
+        return probeFile(path.resolve(path.dirname(currentFile), importPath), isProjectFile);
+    }
+
+    // Path aliases and workspace packages; anything else is external
+    return resolveNonRelativeImport(importPath, currentFile, graph.projectRoot, isProjectFile);
+}
+
+/**
+ * Resolve a bare or aliased import ('@/lib/utils', '@acme/ui/button') to a project file
+ */
+function resolveNonRelativeImport(
+    specifier: string,
+    fromFile: string,
+    projectRoot: string,
+    isProjectFile: (filePath: string) => boolean
+): string | null {
+    const resolution = getProjectResolution(projectRoot);
+
+    // 1. tsconfig/jsconfig `paths`, then `baseUrl`
+    const config = findCompilerConfig(resolution, path.dirname(fromFile), projectRoot);
+    if (config) {
+        for (const candidate of matchPathMappings(config.paths, specifier)) {
+            const resolved = probeFile(candidate, isProjectFile);
+            if (resolved) return resolved;
+        }
+
+        if (config.baseUrl) {
+            const resolved = probeFile(path.resolve(config.baseUrl, specifier), isProjectFile);
+            if (resolved) return resolved;
+        }
+    }
+
+    // 2. Workspace packages (including the root package importing itself by name)
+    for (const candidate of matchWorkspacePackage(getWorkspacePackages(resolution, projectRoot), specifier)) {
+        const resolved = probeFile(candidate, isProjectFile);
+        if (resolved) return resolved;
+    }
+
+    return null;
+}
+
+/**
+ * Forget cached tsconfig/package.json data for one project (or all projects)
+ */
+export function clearModuleResolutionCache(projectRoot?: string): void {
+    if (projectRoot) {
+        resolutionCache.delete(projectRoot);
+    } else {
+        resolutionCache.clear();
+    }
+}
+
+/**
+ * Config files the cached data for a project came from, with their
+ * modification times when read (null when they did not exist)
+ */
+export function getModuleResolutionConfigFiles(projectRoot: string): Array<[string, number | null]> {
+    return Array.from(resolutionCache.get(projectRoot)?.configFiles || []);
+}
+
+/**
+ * Find a project file for a path that may lack an extension or point at a directory
+ */
+function probeFile(
+    basePath: string,
+    isProjectFile: (filePath: string) => boolean,
+    extensions: string[] = SCRIPT_EXTENSIONS,
+    indexName = 'index'
+): string | null {
+    if (isProjectFile(basePath)) return basePath;
+
+    // './foo.js' written for './foo.ts'; '.d.ts' declarations for their source
+    if (extensions === SCRIPT_EXTENSIONS) {
+        const ext = path.extname(basePath);
+
+        if (basePath.endsWith('.d.ts')) {
+            const resolved = probeFile(basePath.slice(0, -'.d.ts'.length), isProjectFile);
+            if (resolved) return resolved;
+        } else if (EMITTED_TO_SOURCE[ext]) {
+            const stem = basePath.slice(0, -ext.length);
+            for (const sourceExt of EMITTED_TO_SOURCE[ext]) {
+                if (isProjectFile(stem + sourceExt)) return stem + sourceExt;
+            }
+        }
+    }
+
+    for (const candidateExt of extensions) {
+        if (isProjectFile(basePath + candidateExt)) return basePath + candidateExt;
+    }
+
+    for (const candidateExt of extensions) {
+        const indexPath = path.join(basePath, indexName + candidateExt);
+        if (isProjectFile(indexPath)) return indexPath;
+    }
+
+    return null;
+}
+
+function getProjectResolution(projectRoot: string): ProjectResolution {
+    let resolution = resolutionCache.get(projectRoot);
+    if (!resolution) {
+        resolution = {
+            configByDir: new Map(),
+            packages: null,
+            pythonRoots: null,
+            java: null,
+            go: null,
+            rust: null,
+            includeDirs: null,
+            configFiles: new Map()
+        };
+        resolutionCache.set(projectRoot, resolution);
+    }
+    return resolution;
+}
+
+// ---------------------------------------------------------------------------
+// tsconfig / jsconfig
+
+/**
+ * Nearest tsconfig.json or jsconfig.json between `dir` and the project root
+ */
+function findCompilerConfig(resolution: ProjectResolution, dir: string, projectRoot: string): CompilerPathConfig | null {
+    const cached = resolution.configByDir.get(dir);
+    if (cached !== undefined) return cached;
+
+    let config: CompilerPathConfig | null = null;
+    for (const name of ['tsconfig.json', 'jsconfig.json']) {
+        const configPath = path.join(dir, name);
+        if (fs.existsSync(configPath)) {
+            config = loadCompilerConfig(resolution, configPath);
+            break;
+        }
+        resolution.configFiles.set(configPath, null);
+    }
+
+    // Walk up until the project root
+    if (!config) {
+        const parent = path.dirname(dir);
+        const insideProject = dir !== projectRoot && parent !== dir && !path.relative(projectRoot, parent).startsWith('..');
+        config = insideProject ? findCompilerConfig(resolution, parent, projectRoot) : null;
+    }
+
+    resolution.configByDir.set(dir, config);
+    return config;
+}
+
+/**
+ * Read `baseUrl` and `paths` from a config, following `extends`
+ */
+function loadCompilerConfig(
+    resolution: ProjectResolution,
+    configPath: string,
+    seen = new Set<string>()
+): CompilerPathConfig {
+    const result: CompilerPathConfig = { paths: [] };
+    if (seen.has(configPath)) return result;
+    seen.add(configPath);
+
+    const json = readJsonFile(resolution, configPath);
+    if (!json) return result;
+
+    const configDir = path.dirname(configPath);
+
+    // Base configs first so this file's options override them
+    const bases = Array.isArray(json.extends) ? json.extends : json.extends ? [json.extends] : [];
+    for (const base of bases) {
+        const basePath = resolveExtendsPath(String(base), configDir);
+        if (!basePath) continue;
+
+        const baseConfig = loadCompilerConfig(resolution, basePath, seen);
+        if (baseConfig.baseUrl) result.baseUrl = baseConfig.baseUrl;
+        if (baseConfig.paths.length > 0) result.paths = baseConfig.paths;
+    }
+
+    const options = json.compilerOptions || {};
+    if (typeof options.baseUrl === 'string') {
+        result.baseUrl = path.resolve(configDir, options.baseUrl);
+    }
+
+    if (options.paths && typeof options.paths === 'object') {
+        // `paths` are relative to baseUrl when set, otherwise to the config declaring them
+        const pathsBase = result.baseUrl || configDir;
+        result.paths = Object.entries(options.paths).map(([pattern, targets]) => {
+            const star = pattern.indexOf('*');
+            return {
+                prefix: star === -1 ? pattern : pattern.slice(0, star),
+                suffix: star === -1 ? '' : pattern.slice(star + 1),
+                hasWildcard: star !== -1,
+                targets: (Array.isArray(targets) ? targets : [targets])
+                    .filter((target): target is string => typeof target === 'string')
+                    .map(target => path.resolve(pathsBase, target))
+            };
+        });
+    }
+
+    return result;
+}
+
+function resolveExtendsPath(base: string, configDir: string): string | null {
+    const withJson = (p: string) => (path.extname(p) ? p : p + '.json');
+
+    if (base.startsWith('.') || path.isAbsolute(base)) {
+        const resolved = withJson(path.resolve(configDir, base));
+        return fs.existsSync(resolved) ? resolved : null;
+    }
+
+    // Shared configs from packages, e.g. "@tsconfig/node20/tsconfig.json"
+    let dir = configDir;
+    while (true) {
+        const candidate = path.join(dir, 'node_modules', base);
+        for (const file of [withJson(candidate), path.join(candidate, 'tsconfig.json')]) {
+            if (fs.existsSync(file) && fs.statSync(file).isFile()) return file;
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * Candidate paths for a specifier, TypeScript-style: exact patterns first,
+ * then the wildcard pattern with the longest prefix
+ */
+function matchPathMappings(mappings: PathMapping[], specifier: string): string[] {
+    const exact = mappings.find(mapping => !mapping.hasWildcard && mapping.prefix === specifier);
+    if (exact) return exact.targets;
+
+    let best: { mapping: PathMapping; captured: string } | null = null;
+    for (const mapping of mappings) {
+        if (!mapping.hasWildcard) continue;
+        if (!specifier.startsWith(mapping.prefix) || !specifier.endsWith(mapping.suffix)) continue;
+        if (specifier.length < mapping.prefix.length + mapping.suffix.length) continue;
+
+        if (!best || mapping.prefix.length > best.mapping.prefix.length) {
+            best = {
+                mapping,
+                captured: specifier.slice(mapping.prefix.length, specifier.length - mapping.suffix.length)
+            };
+        }
+    }
+
+    return best ? best.mapping.targets.map(target => target.replace('*', best!.captured)) : [];
+}
+
+// ---------------------------------------------------------------------------
+// Workspace packages
+
+function getWorkspacePackages(resolution: ProjectResolution, projectRoot: string): Map<string, WorkspacePackage> {
+    if (resolution.packages) return resolution.packages;
+
+    const packages = new Map<string, WorkspacePackage>();
+    const rootManifest = readJsonFile(resolution, path.join(projectRoot, 'package.json'));
+
+    const patterns: string[] = [];
+    if (rootManifest) {
+        const workspaces = rootManifest.workspaces;
+        if (Array.isArray(workspaces)) patterns.push(...workspaces);
+        else if (Array.isArray(workspaces?.packages)) patterns.push(...workspaces.packages);
+    }
+    patterns.push(...readPnpmWorkspacePatterns(resolution, projectRoot));
+
+    const dirs = new Set<string>([projectRoot]);
+    for (const pattern of patterns) {
+        if (typeof pattern !== 'string' || pattern.startsWith('!')) continue;
+        for (const dir of expandWorkspacePattern(projectRoot, pattern)) dirs.add(dir);
+    }
+
+    for (const dir of dirs) {
+        const manifest = dir === projectRoot ? rootManifest : readJsonFile(resolution, path.join(dir, 'package.json'));
+        if (manifest && typeof manifest.name === 'string') {
+            packages.set(manifest.name, { name: manifest.name, dir, manifest });
+        }
+    }
+
+    resolution.packages = packages;
+    return packages;
+}
+
+/**
+ * `packages:` entries from pnpm-workspace.yaml (just the list, no YAML parser needed)
+ */
+function readPnpmWorkspacePatterns(resolution: ProjectResolution, projectRoot: string): string[] {
+    const content = readConfigFile(resolution, path.join(projectRoot, 'pnpm-workspace.yaml'));
+    if (content === null) return [];
+
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of content.split('\n')) {
+        if (/^packages\s*:/.test(line)) {
+            inPackages = true;
+            continue;
+        }
+        if (inPackages) {
+            const item = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+            if (item) patterns.push(item[1]);
+            else if (/^\S/.test(line)) inPackages = false;
+        }
+    }
+    return patterns;
+}
+
+/**
+ * Directories matching a workspace glob such as "packages/*" or "apps/**"
+ */
+function expandWorkspacePattern(projectRoot: string, pattern: string): string[] {
+    const segments = pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/');
+    const results: string[] = [];
+
+    const walk = (dir: string, index: number, depth: number) => {
+        if (index === segments.length) {
+            if (fs.existsSync(path.join(dir, 'package.json'))) results.push(dir);
+            return;
+        }
+
+        const segment = segments[index];
+        if (segment === '**') {
+            walk(dir, index + 1, depth);
+            if (depth < 4) {
+                for (const child of listSubdirectories(dir)) walk(child, index, depth + 1);
+            }
+        } else if (segment.includes('*')) {
+            const matcher = new RegExp('^' + segment.split('*').map(escapeRegExp).join('.*') + '$');
+            for (const child of listSubdirectories(dir)) {
+                if (matcher.test(path.basename(child))) walk(child, index + 1, depth);
+            }
+        } else {
+            walk(path.join(dir, segment), index + 1, depth);
+        }
+    };
+
+    walk(projectRoot, 0, 0);
+    return results;
+}
+
+function listSubdirectories(dir: string): string[] {
+    try {
+        return fs.readdirSync(dir, { withFileTypes: true })
+            .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+            .map(entry => path.join(dir, entry.name));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Candidate paths for '@scope/pkg' or '@scope/pkg/sub/path' inside a workspace package
+ */
+function matchWorkspacePackage(packages: Map<string, WorkspacePackage>, specifier: string): string[] {
+    let pkg: WorkspacePackage | undefined;
+    for (const candidate of packages.values()) {
+        if (specifier === candidate.name || specifier.startsWith(candidate.name + '/')) {
+            if (!pkg || candidate.name.length > pkg.name.length) pkg = candidate;
+        }
+    }
+    if (!pkg) return [];
+
+    const subpath = specifier === pkg.name ? '.' : './' + specifier.slice(pkg.name.length + 1);
+    const { manifest, dir } = pkg;
+
+    let targets: string[];
+    if (manifest.exports !== undefined) {
+        targets = resolveExports(manifest.exports, subpath);
+    } else if (subpath === '.') {
+        targets = [manifest.source, manifest.module, manifest.main, manifest.types, './index']
+            .filter((target): target is string => typeof target === 'string');
+    } else {
+        targets = [subpath];
+    }
+
+    const candidates: string[] = [];
+    for (const target of targets) {
+        const absolute = path.resolve(dir, target);
+        candidates.push(absolute);
+
+        // Exports usually point at build output; the graph only has sources
+        const relative = '/' + path.relative(dir, absolute).split(path.sep).join('/');
+        if (BUILD_DIRS.test(relative)) {
+            candidates.push(path.join(dir, relative.replace(BUILD_DIRS, '/src/')));
+        }
+    }
+
+    // Last resort: mirror the subpath under src/
+    candidates.push(path.join(dir, 'src', subpath === '.' ? 'index' : subpath));
+
+    return candidates;
+}
+
+/**
+ * Targets for a subpath from a package.json `exports` field
+ */
+function resolveExports(exportsField: any, subpath: string): string[] {
+    const isSubpathMap = exportsField && typeof exportsField === 'object' && !Array.isArray(exportsField)
+        && Object.keys(exportsField).some(key => key.startsWith('.'));
+
+    if (!isSubpathMap) {
+        return subpath === '.' ? collectExportTargets(exportsField, '') : [];
+    }
+
+    if (exportsField[subpath] !== undefined) {
+        return collectExportTargets(exportsField[subpath], '');
+    }
+
+    // Pattern keys like "./components/*"
+    let best: { key: string; captured: string } | null = null;
+    for (const key of Object.keys(exportsField)) {
+        const star = key.indexOf('*');
+        if (star === -1) continue;
+
+        const prefix = key.slice(0, star);
+        const suffix = key.slice(star + 1);
+        if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= prefix.length + suffix.length) {
+            if (!best || prefix.length > best.key.indexOf('*')) {
+                best = { key, captured: subpath.slice(prefix.length, subpath.length - suffix.length) };
+            }
+        }
+    }
+
+    return best ? collectExportTargets(exportsField[best.key], best.captured) : [];
+}
+
+function collectExportTargets(value: any, captured: string): string[] {
+    if (typeof value === 'string') return [value.replace(/\*/g, captured)];
+    if (Array.isArray(value)) return value.flatMap(item => collectExportTargets(item, captured));
+
+    if (value && typeof value === 'object') {
+        return EXPORT_CONDITIONS
+            .filter(condition => condition in value)
+            .flatMap(condition => collectExportTargets(value[condition], captured));
+    }
+
+    return [];
+}
+
+// ---------------------------------------------------------------------------
+// Python
+
+/**
+ * Resolve `.models`, `..utils.helpers` or `myapp.models` to a module file or package `__init__.py`
+ *
+ * Imported names that are submodules (`from . import views`) resolve to their
+ * own files, listed first; the package itself is included when it exists and
+ * some names are not submodules.
+ */
+function resolvePythonImport(
+    importPath: string,
+    currentFile: string,
+    importedNames: string[],
+    graph: DependencyGraph
+): string[] {
+    const isProjectFile = (filePath: string) => graph.files.has(filePath);
+    const probe = (basePath: string) => probeFile(basePath, isProjectFile, PYTHON_EXTENSIONS, '__init__');
+    const names = importedNames.filter(name => name !== '*');
+
+    for (const base of pythonModuleBases(importPath, currentFile, graph)) {
+        const submodules = names.map(name => probe(path.join(base, name)));
+        const resolved = submodules.filter((file): file is string => file !== null);
+
+        // A namespace package (no __init__.py) only resolves through its submodules
+        const packageModule = probe(base);
+        if (packageModule && (names.length === 0 || resolved.length < names.length)) {
+            resolved.push(packageModule);
+        }
+
+        if (resolved.length > 0) return Array.from(new Set(resolved));
+    }
+
+    return [];
+}
+
+/**
+ * Paths (without extension) the module of an import may live at, in lookup order
+ */
+function pythonModuleBases(importPath: string, currentFile: string, graph: DependencyGraph): string[] {
+    const dots = importPath.length - importPath.replace(/^\.+/, '').length;
+    const parts = importPath.slice(dots).split('.').filter(Boolean);
+
+    // Relative: one dot is the current package, each extra dot climbs one level
+    if (dots > 0) {
+        let base = path.dirname(currentFile);
+        for (let level = 1; level < dots; level++) {
+            base = path.dirname(base);
+        }
+        return [path.join(base, ...parts)];
+    }
+
+    if (parts.length === 0) return [];
+
+    return getPythonSourceRoots(getProjectResolution(graph.projectRoot), graph)
+        .map(root => path.join(root, ...parts));
+}
+
+function getPythonSourceRoots(resolution: ProjectResolution, graph: DependencyGraph): string[] {
+    if (resolution.pythonRoots) return resolution.pythonRoots;
+
+    const roots: string[] = [
+        ...(graph.sourceRoots || []).map(root => path.resolve(graph.projectRoot, root)),
+        graph.projectRoot,
+        path.join(graph.projectRoot, 'src')
+    ];
+
+    // The parent of each top-level package (a directory with __init__.py whose
+    // parent has none) is where `import package` starts, e.g. Django's manage.py dir
+    const inferred = new Set<string>();
+    for (const filePath of graph.files.keys()) {
+        if (path.basename(filePath) !== '__init__.py') continue;
+
+        let packageDir = path.dirname(filePath);
+        while (graph.files.has(path.join(path.dirname(packageDir), '__init__.py'))) {
+            packageDir = path.dirname(packageDir);
+        }
+        inferred.add(path.dirname(packageDir));
+    }
+
+    const sortedInferred = Array.from(inferred).sort((a, b) => a.length - b.length);
+    resolution.pythonRoots = Array.from(new Set([...roots, ...sortedInferred]));
+    return resolution.pythonRoots;
+}
+
+// ---------------------------------------------------------------------------
+// Java
+
+/**
+ * Resolve `com.acme.Foo`, `com.acme.Foo.Inner` or a wildcard package `com.acme`
+ */
+function resolveJavaImport(importPath: string, graph: DependencyGraph): string[] {
+    const index = getJavaIndex(getProjectResolution(graph.projectRoot), graph);
+
+    const type = index.types.get(importPath);
+    if (type) return [type];
+
+    const packageFiles = index.packages.get(importPath);
+    if (packageFiles) return packageFiles;
+
+    // Nested types live in the file of their outermost class
+    const parts = importPath.split('.');
+    for (let length = parts.length - 1; length > 0; length--) {
+        const outer = index.types.get(parts.slice(0, length).join('.'));
+        if (outer) return [outer];
+    }
+
+    return [];
+}
+
+function getJavaIndex(resolution: ProjectResolution, graph: DependencyGraph): JavaIndex {
+    if (resolution.java) return resolution.java;
+
+    const index: JavaIndex = { types: new Map(), packages: new Map(), packageOf: new Map() };
+    const sourceRoots = (graph.sourceRoots || []).map(root => path.resolve(graph.projectRoot, root));
+
+    for (const [filePath, metadata] of graph.files) {
+        if (metadata.language !== 'java') continue;
+
+        const packageName = metadata.packageName ?? inferJavaPackage(filePath, sourceRoots);
+        index.packageOf.set(filePath, packageName);
+
+        const files = index.packages.get(packageName) || [];
+        files.push(filePath);
+        index.packages.set(packageName, files);
+
+        const qualify = (name: string) => (packageName ? `${packageName}.${name}` : name);
+
+        // The public type matches the file name; other top-level types can sit beside it
+        index.types.set(qualify(path.basename(filePath, '.java')), filePath);
+        for (const def of metadata.definitions) {
+            if (def.scope !== 'global' || def.parent || (def.type !== 'class' && def.type !== 'interface')) continue;
+            if (!index.types.has(qualify(def.name))) index.types.set(qualify(def.name), filePath);
+        }
+    }
+
+    resolution.java = index;
+    return index;
+}
+
+/**
+ * Package implied by a file's location, for files parsed without a `package` line
+ */
+function inferJavaPackage(filePath: string, sourceRoots: string[]): string {
+    const normalized = filePath.split(path.sep).join('/');
+    const match = JAVA_SOURCE_DIRS.exec(normalized);
+
+    let relativeDir: string | null = null;
+    if (match) {
+        relativeDir = path.posix.dirname(normalized.slice(match.index + match[0].length));
+    } else {
+        const root = sourceRoots.find(candidate => !path.relative(candidate, filePath).startsWith('..'));
+        if (root) relativeDir = path.dirname(path.relative(root, filePath)).split(path.sep).join('/');
+    }
+
+    return !relativeDir || relativeDir === '.' ? '' : relativeDir.split('/').join('.');
+}
+
+// ---------------------------------------------------------------------------
+// Go
+
+/**
+ * Resolve `example.com/app/internal/store` to the files of that package directory
+ */
+function resolveGoImport(importPath: string, currentFile: string, graph: DependencyGraph): string[] {
+    const index = getGoIndex(getProjectResolution(graph.projectRoot), graph);
+
+    const goModule = index.modules.find(candidate =>
+        importPath === candidate.modulePath || importPath.startsWith(candidate.modulePath + '/')
+    );
+    if (!goModule) return [];
+
+    const packageDir = path.join(goModule.dir, ...importPath.slice(goModule.modulePath.length).split('/').filter(Boolean));
+    const files = index.packages.get(packageDir) || [];
+
+    // Tests are not part of the package an importer sees
+    return files.filter(filePath => filePath !== currentFile && !filePath.endsWith('_test.go'));
+}
+
+function getGoIndex(resolution: ProjectResolution, graph: DependencyGraph): GoIndex {
+    if (resolution.go) return resolution.go;
+
+    const packages = new Map<string, string[]>();
+    for (const [filePath, metadata] of graph.files) {
+        if (metadata.language !== 'go') continue;
+
+        const dir = path.dirname(filePath);
+        const files = packages.get(dir) || [];
+        files.push(filePath);
+        packages.set(dir, files);
+    }
+
+    // go.mod files are not parsed into the graph; find the nearest one above each package
+    const modules = new Map<string, GoModule>();
+    const checkedDirs = new Set<string>();
+    for (const packageDir of packages.keys()) {
+        let dir = packageDir;
+        while (!checkedDirs.has(dir)) {
+            checkedDirs.add(dir);
+
+            for (const goModule of readGoMod(resolution, dir)) {
+                if (!modules.has(goModule.modulePath)) modules.set(goModule.modulePath, goModule);
+            }
+
+            const parent = path.dirname(dir);
+            if (dir === graph.projectRoot || parent === dir || path.relative(graph.projectRoot, parent).startsWith('..')) break;
+            dir = parent;
+        }
+    }
+
+    resolution.go = {
+        modules: Array.from(modules.values()).sort((a, b) => b.modulePath.length - a.modulePath.length),
+        packages
+    };
+    return resolution.go;
+}
+
+/**
+ * The `module` directive of `dir/go.mod` plus `replace` directives pointing at local directories
+ */
+function readGoMod(resolution: ProjectResolution, dir: string): GoModule[] {
+    const content = readConfigFile(resolution, path.join(dir, 'go.mod'));
+    if (content === null) return [];
+
+    const modules: GoModule[] = [];
+    let inReplaceBlock = false;
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/\/\/.*$/, '').trim();
+
+        const moduleMatch = /^module\s+"?([^\s"]+)"?/.exec(line);
+        if (moduleMatch) {
+            modules.push({ modulePath: moduleMatch[1], dir });
+            continue;
+        }
+
+        if (/^replace\s*\($/.test(line)) {
+            inReplaceBlock = true;
+            continue;
+        }
+        if (inReplaceBlock && line === ')') {
+            inReplaceBlock = false;
+            continue;
+        }
+
+        // replace example.com/lib [v1.2.3] => ../lib
+        const replaceSpec = inReplaceBlock ? line : /^replace\s+(.+)$/.exec(line)?.[1];
+        const replaceMatch = replaceSpec ? /^(\S+)(?:\s+\S+)?\s*=>\s*(\.{1,2}\/\S*|\/\S*)\s*$/.exec(replaceSpec) : null;
+        if (replaceMatch) {
+            modules.push({ modulePath: replaceMatch[1], dir: path.resolve(dir, replaceMatch[2]) });
+        }
+    }
+
+    return modules;
+}
+
+// ---------------------------------------------------------------------------
+// Rust
+
+/**
+ * Resolve `crate::db::pool::Pool`, `super::Config` or `self::handlers` to the
+ * file of the deepest module the path names
+ */
+function resolveRustPath(importPath: string, currentFile: string, graph: DependencyGraph): string | null {
+    const resolution = getProjectResolution(graph.projectRoot);
+    const index = getRustIndex(resolution, graph);
+    const isProjectFile = (filePath: string) => graph.files.has(filePath);
+    const segments = importPath.split('::').filter(Boolean);
+
+    const currentCrate = findRustCrate(resolution, index, path.dirname(currentFile), graph);
+    const moduleFileFor = (crate: RustCrate | null, dir: string) =>
+        crate && dir === crate.srcDir ? crate.rootFile : probeFile(dir, isProjectFile, ['.rs'], 'mod');
+
+    let crate = currentCrate;
+    let dir: string;
+    let moduleFile: string | null;
+    let rest: string[];
+    // Bare paths (2018 edition) only count when they name a child module
+    let requireModule = false;
+
+    if (segments[0] === 'crate') {
+        if (!currentCrate) return null;
+        dir = currentCrate.srcDir;
+        moduleFile = currentCrate.rootFile;
+        rest = segments.slice(1);
+    } else if (segments[0] === 'self' || segments[0] === 'super') {
+        dir = rustModuleDir(currentFile);
+        moduleFile = currentFile;
+        rest = segments.slice(1);
+        if (segments[0] === 'super') {
+            let levels = 1;
+            while (rest[0] === 'super') {
+                levels++;
+                rest = rest.slice(1);
+            }
+            for (let level = 0; level < levels; level++) dir = path.dirname(dir);
+            moduleFile = moduleFileFor(crate, dir);
+        }
+    } else if (index.crates.has(segments[0])) {
+        crate = index.crates.get(segments[0])!;
+        dir = crate.srcDir;
+        moduleFile = crate.rootFile;
+        rest = segments.slice(1);
+    } else {
+        dir = rustModuleDir(currentFile);
+        moduleFile = null;
+        rest = segments;
+        requireModule = true;
+    }
+
+    for (const segment of rest) {
+        const child = probeFile(path.join(dir, segment), isProjectFile, ['.rs'], 'mod');
+        if (!child) break;
+        moduleFile = child;
+        dir = path.join(dir, segment);
+    }
+
+    if (requireModule && !moduleFile) return null;
+    return moduleFile && isProjectFile(moduleFile) ? moduleFile : null;
+}
+
+/**
+ * Directory holding a module's children: `foo/` for foo.rs, the file's own
+ * directory for mod.rs and crate roots
+ */
+function rustModuleDir(filePath: string): string {
+    const base = path.basename(filePath);
+    if (base === 'mod.rs' || base === 'lib.rs' || base === 'main.rs') {
+        return path.dirname(filePath);
+    }
+    return path.join(path.dirname(filePath), path.basename(filePath, '.rs'));
+}
+
+function getRustIndex(resolution: ProjectResolution, graph: DependencyGraph): RustIndex {
+    if (resolution.rust) return resolution.rust;
+
+    const index: RustIndex = { crateByDir: new Map(), crates: new Map() };
+    for (const [filePath, metadata] of graph.files) {
+        if (metadata.language !== 'rust') continue;
+
+        const crate = findRustCrate(resolution, index, path.dirname(filePath), graph);
+        if (crate?.name && !index.crates.has(crate.name)) {
+            index.crates.set(crate.name, crate);
+        }
+    }
+
+    resolution.rust = index;
+    return index;
+}
+
+/**
+ * The crate a directory belongs to: nearest Cargo.toml above it, with its
+ * root at src/lib.rs or src/main.rs
+ */
+function findRustCrate(
+    resolution: ProjectResolution,
+    index: RustIndex,
+    dir: string,
+    graph: DependencyGraph
+): RustCrate | null {
+    const cached = index.crateByDir.get(dir);
+    if (cached !== undefined) return cached;
+
+    let crate: RustCrate | null = null;
+    const manifestPath = path.join(dir, 'Cargo.toml');
+    if (fs.existsSync(manifestPath)) {
+        const srcDir = path.join(dir, 'src');
+        const rootFile = ['lib.rs', 'main.rs']
+            .map(name => path.join(srcDir, name))
+            .find(candidate => graph.files.has(candidate));
+        if (rootFile) {
+            crate = { name: readCargoPackageName(resolution, manifestPath), srcDir, rootFile };
+        }
+    } else {
+        const parent = path.dirname(dir);
+        const insideProject = dir !== graph.projectRoot && parent !== dir && !path.relative(graph.projectRoot, parent).startsWith('..');
+        resolution.configFiles.set(manifestPath, null);
+        crate = insideProject ? findRustCrate(resolution, index, parent, graph) : null;
+    }
+
+    index.crateByDir.set(dir, crate);
+    return crate;
+}
+
+/**
+ * `name` from the [package] table, in the form used in paths
+ */
+function readCargoPackageName(resolution: ProjectResolution, manifestPath: string): string | null {
+    const content = readConfigFile(resolution, manifestPath);
+    if (content === null) return null;
+
+    let inPackage = false;
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.trim();
+        if (line.startsWith('[')) {
+            inPackage = line === '[package]';
+            continue;
+        }
+
+        const nameMatch = inPackage ? /^name\s*=\s*"([^"]+)"/.exec(line) : null;
+        if (nameMatch) return nameMatch[1].replace(/-/g, '_');
+    }
+    return null;
+}
+
+// ---------------------------------------------------------------------------
+// C / C++
+
+/**
+ * Resolve the path of an `#include`; only quoted includes look next to the including file
+ */
+function resolveInclude(includePath: string, currentFile: string, graph: DependencyGraph): string | null {
+    const fileMetadata = graph.files.get(currentFile);
+    const includeStmt = fileMetadata?.imports.find(importStmt => importStmt.from === includePath);
+    const isQuoted = includeStmt ? includeStmt.source.includes('"') : true;
+
+    const candidates = isQuoted ? [path.dirname(currentFile)] : [];
+    candidates.push(...getIncludeDirs(getProjectResolution(graph.projectRoot), graph));
+
+    for (const dir of candidates) {
+        const candidate = path.resolve(dir, includePath);
+        if (graph.files.has(candidate)) return candidate;
+    }
+
+    return null;
+}
+
+function getIncludeDirs(resolution: ProjectResolution, graph: DependencyGraph): string[] {
+    if (resolution.includeDirs) return resolution.includeDirs;
+
+    const dirs = [
+        ...(graph.includePaths || []).map(dir => path.resolve(graph.projectRoot, dir)),
+        ...readCompileCommandsIncludes(resolution, graph.projectRoot),
+        path.join(graph.projectRoot, 'include'),
+        path.join(graph.projectRoot, 'src'),
+        graph.projectRoot
+    ];
+
+    resolution.includeDirs = Array.from(new Set(dirs));
+    return resolution.includeDirs;
+}
+
+/**
+ * Include directories passed to the compiler in a CMake/Bear compilation database
+ */
+function readCompileCommandsIncludes(resolution: ProjectResolution, projectRoot: string): string[] {
+    const database = [
+        path.join(projectRoot, 'compile_commands.json'),
+        path.join(projectRoot, 'build', 'compile_commands.json')
+    ].map(filePath => readJsonFile(resolution, filePath)).find(Array.isArray) as Array<Record<string, any>> | undefined;
+    if (!database) return [];
+
+    const dirs = new Set<string>();
+    for (const entry of database) {
+        const args: string[] = Array.isArray(entry.arguments)
+            ? entry.arguments
+            : typeof entry.command === 'string' ? entry.command.split(/\s+/) : [];
+        const baseDir = typeof entry.directory === 'string' ? entry.directory : projectRoot;
+
+        for (let i = 0; i < args.length; i++) {
+            const flag = /^(-I|-isystem|-iquote)(.*)$/.exec(args[i]);
+            if (!flag) continue;
+
+            const dir = flag[2] || args[++i];
+            if (dir) dirs.add(path.resolve(baseDir, dir.replace(/^"|"$/g, '')));
+        }
+    }
+
+    return Array.from(dirs);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+
+/**
+ * Read a config file, recording its modification time (null when missing)
+ */
+function readConfigFile(resolution: ProjectResolution, filePath: string): string | null {
+    try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        resolution.configFiles.set(filePath, fs.statSync(filePath).mtimeMs);
+        return content;
+    } catch {
+        resolution.configFiles.set(filePath, null);
+        return null;
+    }
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas (tsconfig style)
+ */
+function readJsonFile(resolution: ProjectResolution, filePath: string): Record<string, any> | null {
+    const content = readConfigFile(resolution, filePath);
+    if (content === null) return null;
+
+    try {
+        return JSON.parse(stripJsonComments(content));
+    } catch {
+        return null;
+    }
+}
+
+function stripJsonComments(content: string): string {
+    let output = '';
+    let inString = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inString) {
+            output += char;
+            if (char === '\\') {
+                output += content[++i] ?? '';
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+            output += char;
+        } else if (char === '/' && content[i + 1] === '/') {
+            while (i < content.length && content[i] !== '\n') i++;
+            output += '\n';
+        } else if (char === '/' && content[i + 1] === '*') {
+            i += 2;
+            while (i < content.length && !(content[i] === '*' && content[i + 1] === '/')) i++;
+            i++;
+        } else {
+            output += char;
+        }
+    }
+
+    // Trailing commas before } or ]
+    return output.replace(/,(\s*[}\]])/g, '$1');
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,610 @@
+/**
+ * C and C++ parser using a lightweight declaration scanner
+ *
+ * Extracts `#include` directives, macros, namespaces, classes/structs/unions/
+ * enums, typedefs and functions. Prototypes (`int add(int, int);`) are kept
+ * apart from definitions with a body via `isDeclaration`, so a call can be
+ * traced to both the header and the implementation file.
+ *
+ * The source is scanned statement by statement with comments, strings and
+ * preprocessor lines blanked out; only namespace and class scopes are read,
+ * function bodies are skipped.
+ */
+
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import type {
+    FileMetadata,
+    SymbolDefinition,
+    ImportStatement,
+    LanguageParser
+} from '../types';
+
+const CONTROL_KEYWORDS = new Set([
+    'if', 'for', 'while', 'switch', 'return', 'sizeof', 'catch', 'do', 'else', 'case',
+    'new', 'delete', 'throw', 'static_assert', 'decltype', 'alignof', 'typeid'
+]);
+
+const C_KEYWORDS = new Set([
+    ...CONTROL_KEYWORDS, 'int', 'char', 'void', 'long', 'short', 'float', 'double', 'bool',
+    'unsigned', 'signed', 'const', 'static', 'struct', 'class', 'enum', 'union', 'auto',
+    'this', 'nullptr', 'true', 'false', 'NULL', 'std', 'template', 'typename', 'namespace'
+]);
+
+// class/struct/union/enum header, optionally after `typedef`
+const TYPE_HEADER = /^(typedef\s+)?(class|struct|union|enum(?:\s+(?:class|struct))?)\b\s*(?:\[\[[^\]]*\]\]\s*|alignas\([^)]*\)\s*)*(?:[A-Z_][A-Z0-9_]*\s+)*([A-Za-z_]\w*)?\s*(?:final\s*)?(?::[^{]*)?$/;
+
+// Return type and specifiers, then a possibly qualified name, then the parameter list
+const FUNCTION_HEAD = /^((?:[\w:<>,*&~\s]|\[\[[^\]]*\]\])*?)((?:[A-Za-z_]\w*(?:<[^()]*?>)?::)*(?:~?[A-Za-z_]\w*|operator\s*(?:\(\)|[^\s(]+)))\s*\(/;
+
+interface ScopeContext {
+    kind: 'namespace' | 'class' | 'other';
+    /** Class name, or the namespace name ('' when anonymous) */
+    name?: string;
+    /** Current access level inside a class */
+    access?: 'public' | 'private' | 'protected';
+}
+
+export class CppParser implements LanguageParser {
+    constructor(
+        public language: 'c' | 'cpp',
+        public extensions: string[]
+    ) { }
+
+    async parseFile(filePath: string, content: string): Promise<FileMetadata> {
+        const stats = await fs.stat(filePath);
+        const hash = crypto.createHash('md5').update(content).digest('hex');
+
+        const metadata: FileMetadata = {
+            path: filePath,
+            language: this.language,
+            exports: [],
+            imports: [],
+            definitions: [],
+            lastModified: stats.mtimeMs,
+            hash,
+            size: stats.size,
+            errors: []
+        };
+
+        try {
+            const lines = content.split('\n');
+
+            // Includes and macros come from the preprocessor lines
+            const { imports, macros } = this.extractPreprocessor(lines);
+            metadata.imports = imports;
+
+            // Declarations come from everything else
+            const code = blankOutNonCode(content);
+            metadata.definitions = [...macros, ...this.extractDeclarations(code, lines)]
+                .sort((a, b) => a.startLine - b.startLine);
+
+            // Anything with external linkage (or a public member) is reachable by includers
+            metadata.exports = metadata.definitions.filter(def => def.isExported);
+
+        } catch (error: any) {
+            metadata.errors = [error.message];
+        }
+
+        return metadata;
+    }
+
+    extractSymbolsFromLine(line: string): string[] {
+        const symbols: string[] = [];
+
+        // Match function and macro calls: name( / obj.method( / ptr->method(
+        const calls = line.matchAll(/\b([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g);
+        for (const match of calls) {
+            symbols.push(match[1]);
+        }
+
+        // Match scope qualifiers: Class::member / ns::func
+        const qualified = line.matchAll(/\b([a-zA-Z_][a-zA-Z0-9_]*)::/g);
+        for (const match of qualified) {
+            symbols.push(match[1]);
+        }
+
+        // Match type names and constants: Widget w; MAX_SIZE
+        const types = line.matchAll(/\b([A-Z][a-zA-Z0-9_]*)\b/g);
+        for (const match of types) {
+            symbols.push(match[1]);
+        }
+
+        return [...new Set(symbols)].filter(symbol => !C_KEYWORDS.has(symbol));
+    }
+
+    private extractPreprocessor(lines: string[]): { imports: ImportStatement[]; macros: SymbolDefinition[] } {
+        const imports: ImportStatement[] = [];
+        const macros: SymbolDefinition[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i].trim();
+            const lineNum = i + 1;
+
+            // #include "local.h" / #include <system.h>
+            const includeMatch = /^#\s*include\s*([<"])([^>"]+)[>"]/.exec(line);
+            if (includeMatch) {
+                const isQuoted = includeMatch[1] === '"';
+                imports.push({
+                    source: line,
+                    from: includeMatch[2],
+                    type: 'namespace',
+                    // An include makes everything the header declares visible
+                    symbols: ['*'],
+                    line: lineNum,
+                    // Quoted includes are the project's own; system headers resolve only via include paths
+                    isExternal: !isQuoted
+                });
+                continue;
+            }
+
+            // #define NAME value / #define NAME(args) body
+            const defineMatch = /^#\s*define\s+([A-Za-z_]\w*)(\()?/.exec(line);
+            if (defineMatch) {
+                let endLine = lineNum;
+                while (lines[endLine - 1].trimEnd().endsWith('\\') && endLine < lines.length) {
+                    endLine++;
+                }
+
+                macros.push({
+                    name: defineMatch[1],
+                    type: defineMatch[2] ? 'function' : 'constant',
+                    startLine: lineNum,
+                    endLine,
+                    signature: line.replace(/\s*\\$/, ''),
+                    documentation: extractDocComment(lines, i),
+                    isExported: true,
+                    exportType: 'named',
+                    scope: 'global'
+                });
+            }
+        }
+
+        return { imports, macros };
+    }
+
+    /**
+     * Walk namespace and class scopes statement by statement. A statement
+     * ends at `;` (declarations) or `{` (a header whose body follows).
+     */
+    private extractDeclarations(code: string, lines: string[]): SymbolDefinition[] {
+        const definitions: SymbolDefinition[] = [];
+        const lineStarts = computeLineStarts(code);
+        const lineOf = (offset: number) => findLine(lineStarts, offset);
+
+        const stack: ScopeContext[] = [];
+        let statementStart = 0;
+        let parenDepth = 0;
+        // `typedef struct { ... } Name;` - the name arrives after the body
+        let pendingTypedef: { startLine: number; kind: SymbolDefinition['type']; depth: number } | null = null;
+
+        const atDeclarationLevel = () => stack.every(scope => scope.kind !== 'other');
+
+        for (let i = 0; i < code.length; i++) {
+            const char = code[i];
+
+            if (!atDeclarationLevel()) {
+                // Inside a function body or initializer: only track nesting
+                if (char === '{') stack.push({ kind: 'other' });
+                if (char === '}') {
+                    stack.pop();
+                    if (atDeclarationLevel()) statementStart = i + 1;
+                }
+                continue;
+            }
+
+            if (char === '(') parenDepth++;
+            else if (char === ')') parenDepth--;
+            if (parenDepth > 0) continue;
+
+            if (char === ';') {
+                const statement = code.slice(statementStart, i);
+                const startLine = lineOf(statementStart + leadingWhitespace(statement));
+
+                if (pendingTypedef && pendingTypedef.depth === stack.length) {
+                    const aliasMatch = /([A-Za-z_]\w*)\s*(?:\[[^\]]*\])?\s*(?:,.*)?$/.exec(statement.trim());
+                    if (aliasMatch) {
+                        definitions.push(this.createDefinition(lines, aliasMatch[1], pendingTypedef.kind, pendingTypedef.startLine, lineOf(i), false, stack));
+                    }
+                    pendingTypedef = null;
+                } else {
+                    const declaration = this.classifyStatement(statement, stack, lines, startLine, lineOf(i));
+                    if (declaration) definitions.push(declaration);
+                }
+
+                statementStart = i + 1;
+            } else if (char === '{') {
+                const header = code.slice(statementStart, i);
+                const startLine = lineOf(statementStart + leadingWhitespace(header));
+                const endLine = lineOf(findMatchingBrace(code, i));
+
+                const { scope, typedefKind } = this.classifyHeader(header, stack, lines, startLine, endLine, definitions);
+                if (typedefKind) {
+                    pendingTypedef = { startLine, kind: typedefKind, depth: stack.length };
+                }
+                stack.push(scope);
+                statementStart = i + 1;
+            } else if (char === '}') {
+                stack.pop();
+                statementStart = i + 1;
+            } else if (char === ':' && code[i + 1] !== ':' && code[i - 1] !== ':') {
+                // Access specifiers inside a class: `public:`
+                const top = stack[stack.length - 1];
+                const label = code.slice(statementStart, i).trim();
+                if (top?.kind === 'class' && /^(public|private|protected)$/.test(label)) {
+                    top.access = label as ScopeContext['access'];
+                    statementStart = i + 1;
+                }
+            }
+        }
+
+        return definitions;
+    }
+
+    /**
+     * A header followed by `{`: namespace, type or function body
+     */
+    private classifyHeader(
+        rawHeader: string,
+        stack: ScopeContext[],
+        lines: string[],
+        startLine: number,
+        endLine: number,
+        definitions: SymbolDefinition[]
+    ): { scope: ScopeContext; typedefKind?: SymbolDefinition['type'] } {
+        const header = normalizeStatement(rawHeader, stack);
+
+        const namespaceMatch = /^(?:inline\s+)?namespace\b\s*([\w:]*)/.exec(header);
+        if (namespaceMatch) {
+            return { scope: { kind: 'namespace', name: namespaceMatch[1] } };
+        }
+        if (/^extern\s*"C(\+\+)?"$/.test(header)) {
+            return { scope: { kind: 'namespace', name: 'extern' } };
+        }
+
+        const typeMatch = TYPE_HEADER.exec(header);
+        if (typeMatch) {
+            const isTypedef = !!typeMatch[1];
+            const keyword = typeMatch[2];
+            const name = typeMatch[3];
+            const kind: SymbolDefinition['type'] = keyword.startsWith('enum') ? 'type' : 'class';
+
+            if (name) {
+                definitions.push(this.createDefinition(lines, name, kind, startLine, endLine, false, stack));
+            }
+            // Enums have no member functions to find
+            const scope: ScopeContext = kind === 'class'
+                ? { kind: 'class', name: name || '', access: keyword === 'class' ? 'private' : 'public' }
+                : { kind: 'other' };
+            return { scope, typedefKind: isTypedef ? kind : undefined };
+        }
+
+        const fn = this.matchFunction(header, stack);
+        if (fn) {
+            definitions.push(this.createDefinition(lines, fn.name, fn.type, startLine, endLine, false, stack, fn));
+        }
+
+        return { scope: { kind: 'other' } };
+    }
+
+    /**
+     * A statement ending in `;`: prototype, typedef, alias or variable
+     */
+    private classifyStatement(
+        rawStatement: string,
+        stack: ScopeContext[],
+        lines: string[],
+        startLine: number,
+        endLine: number
+    ): SymbolDefinition | null {
+        const statement = normalizeStatement(rawStatement, stack);
+        if (!statement) return null;
+
+        // using Name = Type;
+        const usingMatch = /^using\s+([A-Za-z_]\w*)\s*=/.exec(statement);
+        if (usingMatch) {
+            return this.createDefinition(lines, usingMatch[1], 'type', startLine, endLine, false, stack);
+        }
+
+        if (statement.startsWith('typedef')) {
+            // typedef void (*handler_t)(int); / typedef unsigned long size_type;
+            const name = /\(\s*\*\s*([A-Za-z_]\w*)\s*\)/.exec(statement)?.[1]
+                || /([A-Za-z_]\w*)\s*(?:\[[^\]]*\])?$/.exec(statement)?.[1];
+            return name ? this.createDefinition(lines, name, 'type', startLine, endLine, false, stack) : null;
+        }
+
+        // Forward declarations, friends and other using-directives carry no definition
+        if (/^(class|struct|union|enum|friend|using|namespace|template\s*<[^>]*>\s*(class|struct))\b/.test(statement)) {
+            return null;
+        }
+
+        const fn = this.matchFunction(statement, stack);
+        if (fn) {
+            return this.createDefinition(lines, fn.name, fn.type, startLine, endLine, true, stack, fn);
+        }
+
+        // Namespace-level variables and constants (class data members are skipped)
+        const top = stack[stack.length - 1];
+        if (top?.kind !== 'class') {
+            const variableMatch = /^((?:[\w:<>,*&\s])+?)\s*[*&]*\b([A-Za-z_]\w*)\s*(?:\[[^\]]*\])*\s*(?:=.*|\{.*\})?$/.exec(statement);
+            if (variableMatch && /\s|[*&]/.test(variableMatch[1].trim() + ' ') && !CONTROL_KEYWORDS.has(variableMatch[2])) {
+                const prefix = variableMatch[1];
+                if (/\b(extern)\b/.test(prefix)) return null;
+                const type = /\b(const|constexpr)\b/.test(prefix) ? 'constant' : 'variable';
+                return this.createDefinition(lines, variableMatch[2], type, startLine, endLine, false, stack, { prefix });
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Match `ret name(params)`, `Class::method(params)` or a constructor inside its class
+     */
+    private matchFunction(statement: string, stack: ScopeContext[]): {
+        name: string;
+        type: SymbolDefinition['type'];
+        parent?: string;
+        prefix: string;
+        signature: string;
+    } | null {
+        const match = FUNCTION_HEAD.exec(statement);
+        if (!match) return null;
+
+        const prefix = match[1].trim();
+        const qualifiedName = match[2].replace(/\s+/g, '');
+        const qualifiers = qualifiedName.split('::');
+        const name = qualifiers[qualifiers.length - 1];
+        const baseName = name.replace(/^~/, '');
+
+        if (CONTROL_KEYWORDS.has(baseName) || CONTROL_KEYWORDS.has(prefix.split(/\s+/).pop() || '')) {
+            return null;
+        }
+
+        const top = stack[stack.length - 1];
+        const className = top?.kind === 'class' ? top.name : undefined;
+        // Out-of-line member definitions name their class: Widget::draw
+        const parent = qualifiers.length > 1 ? qualifiers[qualifiers.length - 2].replace(/<.*$/, '') : className;
+
+        // Constructors and destructors have no return type; anything else without one is a macro call
+        const isConstructor = !!parent && baseName === parent;
+        if (!prefix && !isConstructor) return null;
+
+        return {
+            name,
+            type: parent ? 'method' : 'function',
+            parent,
+            prefix,
+            signature: functionSignature(statement, match[0].length - 1)
+        };
+    }
+
+    private createDefinition(
+        lines: string[],
+        name: string,
+        type: SymbolDefinition['type'],
+        startLine: number,
+        endLine: number,
+        isDeclaration: boolean,
+        stack: ScopeContext[],
+        details?: { parent?: string; prefix?: string; signature?: string }
+    ): SymbolDefinition {
+        const top = stack[stack.length - 1];
+        const inClass = top?.kind === 'class';
+        const parent = details?.parent;
+
+        // Internal linkage: `static` at namespace level or an anonymous namespace
+        const isInternal = (!inClass && /\bstatic\b/.test(details?.prefix || ''))
+            || stack.some(scope => scope.kind === 'namespace' && scope.name === '');
+        const isExported = inClass ? top.access === 'public' : !isInternal;
+
+        return {
+            name,
+            type,
+            startLine,
+            endLine,
+            signature: details?.signature || lines[startLine - 1].trim().replace(/\s*\{\s*$/, ''),
+            documentation: extractDocComment(lines, startLine - 1),
+            isExported,
+            exportType: isExported ? 'named' : undefined,
+            scope: parent ? 'class' : 'global',
+            parent,
+            isDeclaration: isDeclaration || undefined
+        };
+    }
+}
+
+/**
+ * Collapse whitespace and drop template/attribute prefixes and class access labels
+ */
+function normalizeStatement(statement: string, stack: ScopeContext[]): string {
+    let text = statement.replace(/\s+/g, ' ').trim();
+
+    if (stack[stack.length - 1]?.kind === 'class') {
+        text = text.replace(/^(public|private|protected)\s*:\s*/, '');
+    }
+
+    // template<typename T, typename U = std::vector<T>>
+    while (text.startsWith('template')) {
+        const open = text.indexOf('<');
+        if (open === -1) break;
+        let depth = 0;
+        let close = open;
+        for (; close < text.length; close++) {
+            if (text[close] === '<') depth++;
+            else if (text[close] === '>' && --depth === 0) break;
+        }
+        text = text.slice(close + 1).trim();
+    }
+
+    return text
+        .replace(/^(?:\[\[[^\]]*\]\]\s*)+/, '')
+        .replace(/__attribute__\s*\(\(.*?\)\)\s*/g, '')
+        .trim();
+}
+
+/**
+ * Declaration text up to the end of the parameter list and trailing qualifiers
+ */
+function functionSignature(statement: string, openParen: number): string {
+    let depth = 0;
+    let close = openParen;
+    for (; close < statement.length; close++) {
+        if (statement[close] === '(') depth++;
+        else if (statement[close] === ')' && --depth === 0) break;
+    }
+
+    const qualifiers = /^(\s*(?:const|noexcept|override|final|volatile|&&?|->\s*[\w:<>*&\s]+?(?=\s*(?:$|override|final|noexcept|=))))*/.exec(statement.slice(close + 1))?.[0] || '';
+    return (statement.slice(0, close + 1) + qualifiers).trim();
+}
+
+/**
+ * `//` or `/** *\/` comment block directly above a line
+ */
+function extractDocComment(lines: string[], index: number): string | undefined {
+    const commentLines: string[] = [];
+
+    for (let j = index - 1; j >= 0; j--) {
+        const trimmed = lines[j].trim();
+        if (trimmed.startsWith('//')) {
+            commentLines.unshift(trimmed.replace(/^\/\/+\s?/, ''));
+            continue;
+        }
+        if (trimmed.endsWith('*/')) {
+            for (; j >= 0; j--) {
+                const commentLine = lines[j].trim();
+                commentLines.unshift(commentLine.replace(/^\/\*+\s?|\s*\*+\/$|^\*\s?/g, ''));
+                if (commentLine.startsWith('/*')) break;
+            }
+        }
+        break;
+    }
+
+    const text = commentLines.join('\n').trim();
+    return text || undefined;
+}
+
+function leadingWhitespace(text: string): number {
+    return text.length - text.trimStart().length;
+}
+
+function computeLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+}
+
+/**
+ * 1-indexed line containing an offset
+ */
+function findLine(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) low = mid;
+        else high = mid - 1;
+    }
+    return low + 1;
+}
+
+function findMatchingBrace(code: string, openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < code.length; i++) {
+        if (code[i] === '{') depth++;
+        else if (code[i] === '}' && --depth === 0) return i;
+    }
+    return code.length - 1;
+}
+
+/**
+ * Replace comments, string/char literals and preprocessor lines with spaces,
+ * keeping line breaks so offsets map back to the original lines
+ */
+function blankOutNonCode(content: string): string {
+    let output = '';
+    let i = 0;
+    let atLineStart = true;
+
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+    while (i < content.length) {
+        const char = content[i];
+        const next = content[i + 1];
+
+        // Preprocessor directive, including backslash continuations
+        if (atLineStart && char === '#') {
+            let j = i;
+            while (j < content.length) {
+                const end = content.indexOf('\n', j);
+                const stop = end === -1 ? content.length : end;
+                if (content.slice(j, stop).trimEnd().endsWith('\\')) {
+                    j = stop + 1;
+                } else {
+                    j = stop;
+                    break;
+                }
+            }
+            output += blank(content.slice(i, j));
+            i = j;
+            continue;
+        }
+
+        if (char === '\n') {
+            atLineStart = true;
+            output += char;
+            i++;
+            continue;
+        }
+        if (char !== ' ' && char !== '\t') atLineStart = false;
+
+        // Line comment
+        if (char === '/' && next === '/') {
+            const end = content.indexOf('\n', i);
+            const stop = end === -1 ? content.length : end;
+            output += blank(content.slice(i, stop));
+            i = stop;
+            continue;
+        }
+
+        // Block comment
+        if (char === '/' && next === '*') {
+            const end = content.indexOf('*/', i + 2);
+            const stop = end === -1 ? content.length : end + 2;
+            output += blank(content.slice(i, stop));
+            i = stop;
+            continue;
+        }
+
+        // C++11 raw string: R"delim( ... )delim"
+        const raw = /^R"([^(\s]{0,16})\(/.exec(content.slice(i, i + 20));
+        if (raw && !/[A-Za-z0-9_]/.test(content[i - 1] || '')) {
+            const terminator = ')' + raw[1] + '"';
+            const end = content.indexOf(terminator, i + raw[0].length);
+            const stop = end === -1 ? content.length : end + terminator.length;
+            output += ' "' + blank(content.slice(i + 2, stop - 1)) + '"';
+            i = stop;
+            continue;
+        }
+
+        // String and char literals
+        if (char === '"' || char === '\'') {
+            let j = i + 1;
+            while (j < content.length && content[j] !== char && content[j] !== '\n') {
+                if (content[j] === '\\') j++;
+                j++;
+            }
+            const closed = content[j] === char;
+            output += char + blank(content.slice(i + 1, j)) + (closed ? char : '');
+            i = closed ? j + 1 : j;
+            continue;
+        }
+
+        output += char;
+        i++;
+    }
+
+    return output;
+}
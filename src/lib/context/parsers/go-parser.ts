@@ -0,0 +1,376 @@
+/**
+ * Go parser using line-based extraction
+ *
+ * Extracts the package clause, imports (single and grouped), functions,
+ * methods with receivers, structs, interfaces, type declarations and
+ * package-level constants/variables. Go exports are decided by
+ * capitalization, so no keyword is needed to tell them apart.
+ */
+
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import type {
+    FileMetadata,
+    SymbolDefinition,
+    ImportStatement,
+    LanguageParser
+} from '../types';
+
+export class GoParser implements LanguageParser {
+    language = 'go';
+    extensions = ['go'];
+
+    async parseFile(filePath: string, content: string): Promise<FileMetadata> {
+        const stats = await fs.stat(filePath);
+        const hash = crypto.createHash('md5').update(content).digest('hex');
+
+        const metadata: FileMetadata = {
+            path: filePath,
+            language: 'go',
+            exports: [],
+            imports: [],
+            definitions: [],
+            lastModified: stats.mtimeMs,
+            hash,
+            size: stats.size,
+            errors: []
+        };
+
+        try {
+            const lines = content.split('\n');
+
+            // Extract package clause and imports
+            const packageMatch = /^\s*package\s+([a-zA-Z_][a-zA-Z0-9_]*)/m.exec(content);
+            metadata.packageName = packageMatch ? packageMatch[1] : undefined;
+            metadata.imports = this.extractImports(lines);
+
+            // Extract definitions
+            metadata.definitions = this.extractDefinitions(lines);
+
+            // Capitalized identifiers are exported from the package
+            metadata.exports = metadata.definitions.filter(def => def.isExported);
+
+        } catch (error: any) {
+            metadata.errors = [error.message];
+        }
+
+        return metadata;
+    }
+
+    extractSymbolsFromLine(line: string): string[] {
+        const symbols: string[] = [];
+
+        // Match function calls: funcName( and pkg.FuncName(
+        const functionCalls = line.matchAll(/\b([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g);
+        for (const match of functionCalls) {
+            symbols.push(match[1]);
+        }
+
+        // Match qualified identifiers: pkg.Name (both the package and the member)
+        const qualified = line.matchAll(/\b([a-zA-Z_][a-zA-Z0-9_]*)\.([A-Z][a-zA-Z0-9_]*)/g);
+        for (const match of qualified) {
+            symbols.push(match[1], match[2]);
+        }
+
+        // Match composite literals and type references: Name{ or *Name
+        const typeUse = line.matchAll(/[*&\[\]\s(]([A-Z][a-zA-Z0-9_]*)\s*\{/g);
+        for (const match of typeUse) {
+            symbols.push(match[1]);
+        }
+
+        return [...new Set(symbols)];
+    }
+
+    private extractImports(lines: string[]): ImportStatement[] {
+        const imports: ImportStatement[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = stripLineComment(lines[i]).trim();
+
+            // import ( ... )
+            if (/^import\s*\($/.test(line)) {
+                for (i = i + 1; i < lines.length; i++) {
+                    const specLine = stripLineComment(lines[i]).trim();
+                    if (specLine.startsWith(')')) break;
+
+                    const spec = this.parseImportSpec(specLine, i + 1);
+                    if (spec) imports.push(spec);
+                }
+                continue;
+            }
+
+            // import "fmt" / import alias "example.com/pkg"
+            const singleImport = /^import\s+(.+)$/.exec(line);
+            if (singleImport) {
+                const spec = this.parseImportSpec(singleImport[1], i + 1);
+                if (spec) imports.push(spec);
+            }
+        }
+
+        return imports;
+    }
+
+    /**
+     * One import spec: `"path"`, `alias "path"`, `. "path"` or `_ "path"`.
+     * A package import makes all of its exported identifiers reachable through
+     * its name, so it is recorded as a namespace import of `*`.
+     */
+    private parseImportSpec(spec: string, lineNum: number): ImportStatement | null {
+        const match = /^(?:([a-zA-Z_][a-zA-Z0-9_]*|\.)\s+)?"([^"]+)"/.exec(spec);
+        if (!match) return null;
+
+        const [, alias, importPath] = match;
+
+        // Blank imports only run the package's init()
+        if (alias === '_') {
+            return {
+                source: importPath,
+                from: importPath,
+                type: 'namespace',
+                symbols: [],
+                alias,
+                line: lineNum,
+                isExternal: true
+            };
+        }
+
+        return {
+            source: importPath,
+            from: importPath,
+            type: 'namespace',
+            symbols: ['*'],
+            // Dot imports merge the package into the file scope, so there is no qualifier
+            alias: alias === '.' ? undefined : alias || defaultPackageName(importPath),
+            line: lineNum,
+            isExternal: true
+        };
+    }
+
+    private extractDefinitions(lines: string[]): SymbolDefinition[] {
+        const definitions: SymbolDefinition[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            const lineNum = i + 1;
+
+            // Only top-level declarations start in column 0 in gofmt'd code
+            if (/^\s/.test(line)) continue;
+
+            // Method: func (s *Server) Handle(w http.ResponseWriter) error {
+            const methodMatch = /^func\s*\(\s*(?:[a-zA-Z_][a-zA-Z0-9_]*\s+)?\*?\s*([a-zA-Z_][a-zA-Z0-9_]*)(?:\[[^\]]*\])?\s*\)\s*([a-zA-Z_][a-zA-Z0-9_]*)/.exec(line);
+            if (methodMatch) {
+                const receiver = methodMatch[1];
+                const methodName = methodMatch[2];
+
+                definitions.push({
+                    name: methodName,
+                    type: 'method',
+                    startLine: lineNum,
+                    endLine: findBlockEnd(lines, i),
+                    signature: declarationSignature(line),
+                    documentation: extractDocComment(lines, i),
+                    isExported: isExportedName(methodName),
+                    exportType: isExportedName(methodName) ? 'named' : undefined,
+                    scope: 'class',
+                    parent: receiver
+                });
+                continue;
+            }
+
+            // Function: func NewServer(cfg Config) *Server {
+            const funcMatch = /^func\s+([a-zA-Z_][a-zA-Z0-9_]*)/.exec(line);
+            if (funcMatch) {
+                const funcName = funcMatch[1];
+
+                definitions.push({
+                    name: funcName,
+                    type: 'function',
+                    startLine: lineNum,
+                    endLine: findBlockEnd(lines, i),
+                    signature: declarationSignature(line),
+                    documentation: extractDocComment(lines, i),
+                    isExported: isExportedName(funcName),
+                    exportType: isExportedName(funcName) ? 'named' : undefined,
+                    scope: 'global'
+                });
+                continue;
+            }
+
+            // type ( ... ) / const ( ... ) / var ( ... )
+            const groupMatch = /^(type|const|var)\s*\($/.exec(stripLineComment(line).trim());
+            if (groupMatch) {
+                const keyword = groupMatch[1];
+                const groupEnd = findBlockEnd(lines, i, '(', ')');
+
+                // Specs share the indentation of the first one; deeper lines are struct bodies or values
+                let specIndent: string | null = null;
+                for (let j = i + 1; j < groupEnd - 1; j++) {
+                    const specLine = lines[j];
+                    const trimmed = specLine.trim();
+                    if (!trimmed || trimmed.startsWith('//')) continue;
+
+                    const indent = /^\s*/.exec(specLine)![0];
+                    if (specIndent === null) specIndent = indent;
+                    if (indent !== specIndent) continue;
+
+                    const definition = keyword === 'type'
+                        ? this.parseTypeSpec(lines, j, trimmed)
+                        : this.parseValueSpec(lines, j, trimmed, keyword);
+                    if (definition) {
+                        definitions.push(definition);
+                        j = definition.endLine - 1;
+                    }
+                }
+
+                i = groupEnd - 1;
+                continue;
+            }
+
+            // type Server struct { / type Handler interface { / type ID string
+            const typeMatch = /^type\s+(.+)$/.exec(line);
+            if (typeMatch) {
+                const definition = this.parseTypeSpec(lines, i, typeMatch[1]);
+                if (definition) {
+                    definitions.push(definition);
+                    i = definition.endLine - 1;
+                }
+                continue;
+            }
+
+            // const MaxRetries = 3 / var ErrNotFound = errors.New("not found")
+            const valueMatch = /^(const|var)\s+(.+)$/.exec(line);
+            if (valueMatch) {
+                const definition = this.parseValueSpec(lines, i, valueMatch[2], valueMatch[1]);
+                if (definition) definitions.push(definition);
+            }
+        }
+
+        return definitions;
+    }
+
+    private parseTypeSpec(lines: string[], index: number, spec: string): SymbolDefinition | null {
+        const match = /^([a-zA-Z_][a-zA-Z0-9_]*)(?:\[[^\]]*\])?\s*(=\s*)?(struct|interface)?/.exec(spec);
+        if (!match) return null;
+
+        const typeName = match[1];
+        const kind = match[3];
+        const hasBody = !!kind && stripLineComment(spec).trimEnd().endsWith('{');
+
+        return {
+            name: typeName,
+            type: kind === 'struct' ? 'class' : kind === 'interface' ? 'interface' : 'type',
+            startLine: index + 1,
+            endLine: hasBody ? findBlockEnd(lines, index) : index + 1,
+            signature: `type ${declarationSignature(spec)}`,
+            documentation: extractDocComment(lines, index),
+            isExported: isExportedName(typeName),
+            exportType: isExportedName(typeName) ? 'named' : undefined,
+            scope: 'global'
+        };
+    }
+
+    private parseValueSpec(lines: string[], index: number, spec: string, keyword: string): SymbolDefinition | null {
+        const match = /^([a-zA-Z_][a-zA-Z0-9_]*)/.exec(spec);
+        if (!match || match[1] === '_') return null;
+
+        const name = match[1];
+        return {
+            name,
+            type: keyword === 'const' ? 'constant' : 'variable',
+            startLine: index + 1,
+            endLine: index + 1,
+            signature: `${keyword} ${stripLineComment(spec).trim()}`,
+            documentation: extractDocComment(lines, index),
+            isExported: isExportedName(name),
+            exportType: isExportedName(name) ? 'named' : undefined,
+            scope: 'global'
+        };
+    }
+}
+
+/**
+ * Name a package is referred to by when imported without an alias:
+ * the last path element, skipping major-version suffixes ("github.com/x/y/v2" -> "y")
+ */
+function defaultPackageName(importPath: string): string {
+    const parts = importPath.split('/');
+    let name = parts[parts.length - 1];
+    if (/^v\d+$/.test(name) && parts.length > 1) {
+        name = parts[parts.length - 2];
+    }
+    return name.replace(/^go-/, '').replace(/[.-]/g, '_');
+}
+
+function isExportedName(name: string): boolean {
+    return /^[A-Z]/.test(name);
+}
+
+function stripLineComment(line: string): string {
+    // Good enough for declarations; string literals with "//" are rare there
+    const commentStart = line.indexOf('//');
+    return commentStart === -1 ? line : line.slice(0, commentStart);
+}
+
+function declarationSignature(line: string): string {
+    return stripLineComment(line).replace(/\{\s*$/, '').trim();
+}
+
+/**
+ * Consecutive `//` comment lines directly above a declaration (Go doc comments)
+ */
+function extractDocComment(lines: string[], index: number): string | undefined {
+    const commentLines: string[] = [];
+    for (let j = index - 1; j >= 0; j--) {
+        const trimmed = lines[j].trim();
+        if (!trimmed.startsWith('//')) break;
+        commentLines.unshift(trimmed.replace(/^\/\/\s?/, ''));
+    }
+    return commentLines.length > 0 ? commentLines.join('\n') : undefined;
+}
+
+/**
+ * Last line (1-indexed) of the block opened on `startIndex`, counting
+ * delimiters outside strings, runes and comments
+ */
+function findBlockEnd(lines: string[], startIndex: number, open = '{', close = '}'): number {
+    let depth = 0;
+    let seenOpen = false;
+    let inRawString = false;
+
+    for (let j = startIndex; j < lines.length; j++) {
+        const line = lines[j];
+
+        for (let k = 0; k < line.length; k++) {
+            const char = line[k];
+
+            if (inRawString) {
+                if (char === '`') inRawString = false;
+                continue;
+            }
+
+            if (char === '/' && line[k + 1] === '/') break;
+            if (char === '`') {
+                inRawString = true;
+            } else if (char === '"' || char === '\'') {
+                // Skip to the closing quote, honoring escapes
+                for (k++; k < line.length && line[k] !== char; k++) {
+                    if (line[k] === '\\') k++;
+                }
+            } else if (char === open) {
+                depth++;
+                seenOpen = true;
+            } else if (char === close) {
+                depth--;
+                if (seenOpen && depth === 0) return j + 1;
+            }
+        }
+
+        // A declaration without a body (e.g. an assembly-backed func) ends on its own line;
+        // a signature broken across lines ends with '(' or ','
+        if (!seenOpen && !inRawString && j === startIndex && !line.includes(open) && !/[(,]\s*$/.test(stripLineComment(line))) {
+            return startIndex + 1;
+        }
+    }
+
+    return lines.length;
+}
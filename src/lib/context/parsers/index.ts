@@ -5,6 +5,11 @@
 import { TypeScriptParser } from './typescript-parser';
 import { PythonParser } from './python-parser';
 import { JavaParser } from './java-parser';
+import { GoParser } from './go-parser';
+import { RustParser } from './rust-parser';
+import { CppParser } from './cpp-parser';
+import { TreeSitterParser } from './tree-sitter-parser';
+import { TREE_SITTER_LANGUAGES } from './tree-sitter-languages';
 import type { LanguageParser } from '../types';
 import path from 'path';
 
@@ -26,10 +31,26 @@ class ParserRegistry {
         const tsParser = new TypeScriptParser();
         const pyParser = new PythonParser();
         const javaParser = new JavaParser();
+        const goParser = new GoParser();
+        const rustParser = new RustParser();
+        // Headers named .h are treated as C, matching the file tree's language labels
+        const cParser = new CppParser('c', ['c', 'h']);
+        const cppParser = new CppParser('cpp', ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx']);
 
         this.register(tsParser);
         this.register(pyParser);
         this.register(javaParser);
+        this.register(goParser);
+        this.register(rustParser);
+        this.register(cParser);
+        this.register(cppParser);
+
+        // Remaining languages come from tree-sitter grammars and query files
+        for (const spec of TREE_SITTER_LANGUAGES) {
+            if (!this.parsers.has(spec.language)) {
+                this.register(new TreeSitterParser(spec));
+            }
+        }
     }
 
     /**
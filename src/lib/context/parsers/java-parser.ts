@@ -1,8 +1,9 @@
 /**
  * Java parser using java-parser library
  * 
- * Extracts imports, class/interface definitions, and method declarations
- * from Java source files.
+ * Extracts imports and walks the concrete syntax tree for definitions:
+ * classes, interfaces, enums, records (nested at any depth), their methods,
+ * constructors and fields, with Javadoc as documentation.
  */
 
 import fs from 'fs/promises';
@@ -16,6 +17,7 @@ import type {
 
 // Import java-parser as ES6 module
 import * as javaParser from 'java-parser';
+import type { CstNode, IToken } from 'java-parser';
 
 export class JavaParser implements LanguageParser {
     language = 'java';
@@ -41,7 +43,8 @@ export class JavaParser implements LanguageParser {
             // Parse Java code
             const cst = javaParser.parse(content);
 
-            // Extract imports
+            // Extract package and imports
+            metadata.packageName = this.extractPackage(content);
             metadata.imports = this.extractImports(content);
 
             // Extract definitions
@@ -81,6 +84,11 @@ export class JavaParser implements LanguageParser {
         return [...new Set(symbols)];
     }
 
+    private extractPackage(content: string): string | undefined {
+        const packageMatch = /^\s*package\s+([a-zA-Z0-9_.]+)\s*;/m.exec(content);
+        return packageMatch ? packageMatch[1] : undefined;
+    }
+
     private extractImports(content: string): ImportStatement[] {
         const imports: ImportStatement[] = [];
         const lines = content.split('\n');
@@ -121,119 +129,412 @@ export class JavaParser implements LanguageParser {
                     isExternal: true
                 });
             }
+
+            // import static package.Class.member; / import static package.Class.*;
+            const staticImport = /^import\s+static\s+([a-zA-Z0-9_.]+)\.([a-zA-Z0-9_]+|\*)\s*;/.exec(line);
+            if (staticImport) {
+                const className = staticImport[1];
+                const member = staticImport[2];
+
+                imports.push({
+                    source: `${className}.${member}`,
+                    from: className,
+                    type: member === '*' ? 'namespace' : 'named',
+                    symbols: [member],
+                    line: lineNum,
+                    isExternal: true
+                });
+            }
         }
 
         return imports;
     }
 
-    private extractDefinitions(content: string, cst: any): SymbolDefinition[] {
-        const definitions: SymbolDefinition[] = [];
-        const lines = content.split('\n');
+    private extractDefinitions(content: string, cst: CstNode): SymbolDefinition[] {
+        const comments = ((cst as CstNode & { comments?: IToken[] }).comments || [])
+            .filter(comment => comment.image.startsWith('/**'));
+
+        const collector = new DefinitionCollector(content, comments);
+        const unit = child(cst, 'ordinaryCompilationUnit');
+        if (unit) {
+            for (const typeDecl of children(unit, 'typeDeclaration')) {
+                collector.visitTypeDeclaration(typeDecl);
+            }
+        }
 
-        // Use regex for simplicity since java-parser CST is complex
-        // In production, you'd traverse the CST properly
+        return collector.definitions;
+    }
+}
 
-        let currentClass: string | null = null;
-        let currentClassStart: number = 0;
+type ParentKind = 'class' | 'interface';
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-            const lineNum = i + 1;
+/**
+ * Walks the java-parser CST collecting types and their members. Line ranges
+ * come from node locations (which start at the first annotation), and the
+ * Javadoc block directly preceding a declaration becomes its documentation.
+ */
+class DefinitionCollector {
+    readonly definitions: SymbolDefinition[] = [];
 
-            // Class declaration: public class ClassName
-            const classMatch = /^(public\s+)?(abstract\s+)?(final\s+)?class\s+([A-Z][a-zA-Z0-9_]*)\s*(extends\s+[A-Z][a-zA-Z0-9_]*)?\s*(implements\s+[A-Z][a-zA-Z0-9_,\s]*)?\s*\{?/.exec(line);
-            if (classMatch) {
-                const isPublic = !!classMatch[1];
-                const className = classMatch[4];
-
-                // Find end of class (simplified - looks for closing brace at same indent)
-                let endLine = lineNum;
-                let braceCount = 1;
-                for (let j = i + 1; j < lines.length && braceCount > 0; j++) {
-                    const nextLine = lines[j];
-                    braceCount += (nextLine.match(/\{/g) || []).length;
-                    braceCount -= (nextLine.match(/\}/g) || []).length;
-                    endLine = j + 1;
-                }
+    constructor(
+        private readonly content: string,
+        private readonly javadocs: IToken[]
+    ) { }
+
+    visitTypeDeclaration(node: CstNode, parent?: string, parentKind?: ParentKind): void {
+        const classDecl = child(node, 'classDeclaration');
+        if (classDecl) this.visitClass(classDecl, parent, parentKind);
 
-                definitions.push({
-                    name: className,
-                    type: 'class',
-                    startLine: lineNum,
-                    endLine,
-                    signature: line.replace(/\{$/, '').trim(),
-                    isExported: isPublic,
-                    exportType: isPublic ? 'named' : undefined,
-                    scope: 'global'
+        const interfaceDecl = child(node, 'interfaceDeclaration');
+        if (interfaceDecl) this.visitInterface(interfaceDecl, parent, parentKind);
+    }
+
+    private visitClass(node: CstNode, parent?: string, parentKind?: ParentKind): void {
+        const modifiers = children(node, 'classModifier');
+        // Member types of interfaces are implicitly public
+        const isExported = hasToken(modifiers, 'Public') || parentKind === 'interface';
+
+        const normal = child(node, 'normalClassDeclaration');
+        if (normal) {
+            const body = child(normal, 'classBody')!;
+            const name = typeName(normal);
+            this.addType(node, name, 'class', modifiers, body, isExported, parent);
+            this.visitClassBody(children(body, 'classBodyDeclaration'), name);
+            return;
+        }
+
+        const enumDecl = child(node, 'enumDeclaration');
+        if (enumDecl) {
+            const body = child(enumDecl, 'enumBody')!;
+            const name = typeName(enumDecl);
+            this.addType(node, name, 'class', modifiers, body, isExported, parent);
+
+            const constants = child(body, 'enumConstantList');
+            for (const constant of constants ? children(constants, 'enumConstant') : []) {
+                this.add(constant, {
+                    name: tokens(constant, 'Identifier')[0].image,
+                    type: 'constant',
+                    signature: `${name}.${tokens(constant, 'Identifier')[0].image}`,
+                    isExported,
+                    scope: 'class',
+                    parent: name
                 });
+            }
 
-                currentClass = className;
-                currentClassStart = lineNum;
+            const declarations = child(body, 'enumBodyDeclarations');
+            if (declarations) this.visitClassBody(children(declarations, 'classBodyDeclaration'), name);
+            return;
+        }
+
+        const record = child(node, 'recordDeclaration');
+        if (record) {
+            const body = child(record, 'recordBody')!;
+            const name = typeName(record);
+            this.addType(node, name, 'class', modifiers, body, isExported, parent);
+
+            // Components double as public accessor methods
+            const componentList = child(child(record, 'recordHeader')!, 'recordComponentList');
+            for (const component of componentList ? children(componentList, 'recordComponent') : []) {
+                const id = tokens(component, 'Identifier')[0]
+                    ?? tokens(child(component, 'variableArityRecordComponent')!, 'Identifier')[0];
+                if (!id) continue;
+
+                this.add(component, {
+                    name: id.image,
+                    type: 'variable',
+                    signature: this.text(component.location.startOffset, component.location.endOffset + 1),
+                    isExported,
+                    scope: 'class',
+                    parent: name
+                });
             }
 
-            // Interface declaration
-            const interfaceMatch = /^(public\s+)?interface\s+([A-Z][a-zA-Z0-9_]*)\s*(extends\s+[A-Z][a-zA-Z0-9_,\s]*)?\s*\{?/.exec(line);
-            if (interfaceMatch) {
-                const isPublic = !!interfaceMatch[1];
-                const interfaceName = interfaceMatch[2];
-
-                let endLine = lineNum;
-                let braceCount = 1;
-                for (let j = i + 1; j < lines.length && braceCount > 0; j++) {
-                    const nextLine = lines[j];
-                    braceCount += (nextLine.match(/\{/g) || []).length;
-                    braceCount -= (nextLine.match(/\}/g) || []).length;
-                    endLine = j + 1;
+            for (const declaration of children(body, 'recordBodyDeclaration')) {
+                const compact = child(declaration, 'compactConstructorDeclaration');
+                if (compact) {
+                    this.addMember(declaration, name, 'method', children(compact, 'constructorModifier'),
+                        child(compact, 'constructorBody')!.location.startOffset, name, false);
+                    continue;
                 }
+                this.visitClassBody(children(declaration, 'classBodyDeclaration'), name);
+            }
+        }
+    }
 
-                definitions.push({
-                    name: interfaceName,
-                    type: 'interface',
-                    startLine: lineNum,
-                    endLine,
-                    signature: line.replace(/\{$/, '').trim(),
-                    isExported: isPublic,
-                    exportType: isPublic ? 'named' : undefined,
-                    scope: 'global'
-                });
+    private visitInterface(node: CstNode, parent?: string, parentKind?: ParentKind): void {
+        const modifiers = children(node, 'interfaceModifier');
+        const isExported = hasToken(modifiers, 'Public') || parentKind === 'interface';
+
+        const normal = child(node, 'normalInterfaceDeclaration');
+        if (normal) {
+            const body = child(normal, 'interfaceBody')!;
+            const name = typeName(normal);
+            this.addType(node, name, 'interface', modifiers, body, isExported, parent);
+
+            for (const member of children(body, 'interfaceMemberDeclaration')) {
+                this.visitInterfaceMember(member, name);
             }
+            return;
+        }
 
-            // Method declaration (within a class)
-            if (currentClass) {
-                const methodMatch = /^(public\s+|private\s+|protected\s+)?(static\s+)?(final\s+)?([a-zA-Z0-9_<>\[\]]+)\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\)/.exec(line);
-                if (methodMatch && !line.includes('class ') && !line.includes('interface ')) {
-                    const visibility = methodMatch[1]?.trim();
-                    const isStatic = !!methodMatch[2];
-                    const returnType = methodMatch[4];
-                    const methodName = methodMatch[5];
-                    const params = methodMatch[6];
-
-                    // Find end of method
-                    let endLine = lineNum;
-                    if (line.includes('{')) {
-                        let braceCount = 1;
-                        for (let j = i + 1; j < lines.length && braceCount > 0; j++) {
-                            const nextLine = lines[j];
-                            braceCount += (nextLine.match(/\{/g) || []).length;
-                            braceCount -= (nextLine.match(/\}/g) || []).length;
-                            endLine = j + 1;
-                        }
-                    }
-
-                    definitions.push({
-                        name: methodName,
+        const annotation = child(node, 'annotationInterfaceDeclaration');
+        if (annotation) {
+            const body = child(annotation, 'annotationInterfaceBody')!;
+            const name = typeName(annotation);
+            this.addType(node, name, 'interface', modifiers, body, isExported, parent);
+
+            for (const member of children(body, 'annotationInterfaceMemberDeclaration')) {
+                const element = child(member, 'annotationInterfaceElementDeclaration');
+                if (element) {
+                    const id = tokens(element, 'Identifier')[0];
+                    this.add(member, {
+                        name: id.image,
                         type: 'method',
-                        startLine: lineNum,
-                        endLine,
-                        signature: `${returnType} ${methodName}(${params})`,
-                        isExported: visibility === 'public',
+                        signature: this.header(children(element, 'annotationInterfaceElementModifier'),
+                            member.location.startOffset, tokens(element, 'RBrace')[0].endOffset + 1),
+                        isExported: true,
                         scope: 'class',
-                        parent: currentClass
+                        parent: name
                     });
+                    continue;
                 }
+                this.visitInterfaceMember(member, name);
             }
         }
+    }
+
+    private visitClassBody(declarations: CstNode[], className: string): void {
+        for (const declaration of declarations) {
+            const constructor = child(declaration, 'constructorDeclaration');
+            if (constructor) {
+                // Shares the class name; only the class itself is exported
+                const modifiers = children(constructor, 'constructorModifier');
+                this.addMember(declaration, className, 'method', modifiers,
+                    child(constructor, 'constructorBody')!.location.startOffset, className, false);
+                continue;
+            }
+
+            const member = child(declaration, 'classMemberDeclaration');
+            if (!member) continue;
+
+            const method = child(member, 'methodDeclaration');
+            if (method) {
+                const header = child(method, 'methodHeader')!;
+                const result = child(header, 'result')!;
+
+                // java-parser reads a member record with a statement-like body,
+                // `record Inner(String name) {}`, as a method returning `record`
+                if (this.text(result.location.startOffset, result.location.endOffset + 1) === 'record') {
+                    this.visitMisparsedRecord(declaration, method, className);
+                    continue;
+                }
 
-        return definitions;
+                this.addMember(declaration, methodName(header), 'method', children(method, 'methodModifier'),
+                    child(method, 'methodBody')!.location.startOffset, className);
+                continue;
+            }
+
+            const field = child(member, 'fieldDeclaration');
+            if (field) {
+                this.addFields(declaration, field, children(field, 'fieldModifier'), className, false);
+                continue;
+            }
+
+            this.visitTypeDeclaration(member, className, 'class');
+        }
+    }
+
+    private visitMisparsedRecord(node: CstNode, method: CstNode, parent: string): void {
+        const modifiers = children(method, 'methodModifier');
+        const isExported = hasToken(modifiers, 'Public');
+        const name = methodName(child(method, 'methodHeader')!);
+        this.addType(node, name, 'class', modifiers, child(method, 'methodBody')!, isExported, parent);
+
+        const declarator = child(child(method, 'methodHeader')!, 'methodDeclarator')!;
+        const parameterList = child(declarator, 'formalParameterList');
+        for (const parameter of parameterList ? children(parameterList, 'formalParameter') : []) {
+            const regular = child(parameter, 'variableParaRegularParameter');
+            const id = regular
+                ? tokens(child(regular, 'variableDeclaratorId')!, 'Identifier')[0]
+                : tokens(child(parameter, 'variableArityParameter')!, 'Identifier')[0];
+            if (!id) continue;
+
+            this.add(parameter, {
+                name: id.image,
+                type: 'variable',
+                signature: this.text(parameter.location.startOffset, parameter.location.endOffset + 1),
+                isExported,
+                scope: 'class',
+                parent: name
+            });
+        }
+    }
+
+    private visitInterfaceMember(member: CstNode, interfaceName: string): void {
+        const method = child(member, 'interfaceMethodDeclaration');
+        if (method) {
+            const modifiers = children(method, 'interfaceMethodModifier');
+            const header = child(method, 'methodHeader')!;
+            this.add(member, {
+                name: methodName(header),
+                type: 'method',
+                signature: this.header(modifiers, member.location.startOffset,
+                    child(method, 'methodBody')!.location.startOffset),
+                isExported: !hasToken(modifiers, 'Private'),
+                scope: 'class',
+                parent: interfaceName
+            });
+            return;
+        }
+
+        const constant = child(member, 'constantDeclaration');
+        if (constant) {
+            this.addFields(member, constant, children(constant, 'constantModifier'), interfaceName, true);
+            return;
+        }
+
+        this.visitTypeDeclaration(member, interfaceName, 'interface');
     }
+
+    private addType(
+        node: CstNode,
+        name: string,
+        type: 'class' | 'interface',
+        modifiers: CstNode[],
+        body: CstNode,
+        isExported: boolean,
+        parent?: string
+    ): void {
+        this.add(node, {
+            name,
+            type,
+            signature: this.header(modifiers, node.location.startOffset, body.location.startOffset),
+            isExported,
+            exportType: isExported ? 'named' : undefined,
+            scope: parent ? 'class' : 'global',
+            parent
+        });
+    }
+
+    private addMember(
+        node: CstNode,
+        name: string,
+        type: 'method',
+        modifiers: CstNode[],
+        bodyOffset: number,
+        className: string,
+        isExported = hasToken(modifiers, 'Public')
+    ): void {
+        this.add(node, {
+            name,
+            type,
+            signature: this.header(modifiers, node.location.startOffset, bodyOffset),
+            isExported,
+            scope: 'class',
+            parent: className
+        });
+    }
+
+    /**
+     * One definition per declarator: `int a, b;` declares two fields.
+     * Interface constants are implicitly public static final.
+     */
+    private addFields(
+        node: CstNode,
+        declaration: CstNode,
+        modifiers: CstNode[],
+        className: string,
+        inInterface: boolean
+    ): void {
+        const isConstant = inInterface || (hasToken(modifiers, 'Static') && hasToken(modifiers, 'Final'));
+        const unannType = child(declaration, 'unannType')!;
+        const prefix = this.header(modifiers, node.location.startOffset, unannType.location.endOffset + 1);
+        const declarators = children(child(declaration, 'variableDeclaratorList')!, 'variableDeclarator');
+
+        for (const declarator of declarators) {
+            const id = tokens(child(declarator, 'variableDeclaratorId')!, 'Identifier')[0];
+            if (!id) continue;
+
+            this.add(node, {
+                name: id.image,
+                type: isConstant ? 'constant' : 'variable',
+                signature: `${prefix} ${id.image}`,
+                isExported: inInterface || hasToken(modifiers, 'Public'),
+                scope: 'class',
+                parent: className
+            });
+        }
+    }
+
+    private add(
+        node: CstNode,
+        def: Omit<SymbolDefinition, 'startLine' | 'endLine' | 'documentation'>
+    ): void {
+        const location = node.location;
+        this.definitions.push({
+            ...def,
+            startLine: location.startLine,
+            endLine: location.endLine,
+            documentation: this.javadocFor(location.startOffset)
+        });
+    }
+
+    /**
+     * Declaration text up to its body, without leading annotations
+     */
+    private header(modifiers: CstNode[], start: number, end: number): string {
+        for (const modifier of modifiers) {
+            const annotation = child(modifier, 'annotation');
+            if (annotation) start = Math.max(start, annotation.location.endOffset + 1);
+        }
+        return this.text(start, end);
+    }
+
+    private text(start: number, end: number): string {
+        return this.content.slice(start, end).replace(/\s+/g, ' ').trim();
+    }
+
+    /**
+     * Javadoc immediately preceding offset, separated only by whitespace
+     */
+    private javadocFor(offset: number): string | undefined {
+        for (let i = this.javadocs.length - 1; i >= 0; i--) {
+            const comment = this.javadocs[i];
+            if (comment.endOffset >= offset) continue;
+            if (this.content.slice(comment.endOffset + 1, offset).trim() !== '') return undefined;
+
+            return comment.image
+                .replace(/^\/\*\*/, '')
+                .replace(/\*\/$/, '')
+                .split('\n')
+                .map(line => line.replace(/^\s*\*? ?/, '').trimEnd())
+                .join('\n')
+                .trim() || undefined;
+        }
+        return undefined;
+    }
+}
+
+function children(node: CstNode, name: string): CstNode[] {
+    return (node.children[name] || []) as CstNode[];
+}
+
+function child(node: CstNode, name: string): CstNode | undefined {
+    return children(node, name)[0];
+}
+
+function tokens(node: CstNode, name: string): IToken[] {
+    return (node.children[name] || []) as IToken[];
+}
+
+function hasToken(modifiers: CstNode[], name: string): boolean {
+    return modifiers.some(modifier => tokens(modifier, name).length > 0);
+}
+
+function typeName(declaration: CstNode): string {
+    return tokens(child(declaration, 'typeIdentifier')!, 'Identifier')[0].image;
+}
+
+function methodName(header: CstNode): string {
+    return tokens(child(header, 'methodDeclarator')!, 'Identifier')[0].image;
 }
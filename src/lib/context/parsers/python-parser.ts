@@ -1,19 +1,28 @@
 /**
- * Python parser using a simplified AST extraction approach
- * 
- * This parser uses regular expressions and simple parsing for basic Python
- * symbol extraction. For production use, consider using a Python subprocess
- * with the 'ast' module for more accurate parsing.
+ * Python parser backed by the tree-sitter Python grammar
+ *
+ * Walks the syntax tree for imports (including parenthesized multi-line
+ * `from x import (...)`) and definitions: classes, functions, async defs,
+ * nested functions and module-level assignments, with decorators, docstrings
+ * and accurate line ranges. `__all__`, when present, decides what is exported.
  */
 
 import fs from 'fs/promises';
 import crypto from 'crypto';
+import type { Node } from 'web-tree-sitter';
 import type {
     FileMetadata,
     SymbolDefinition,
     ImportStatement,
     LanguageParser
 } from '../types';
+import { parseWithTreeSitter, startLineOf, endLineOf, namedChildrenOf } from './tree-sitter';
+
+/** Where a definition sits: module level, a class body, or a function body */
+interface PythonScope {
+    kind: 'module' | 'class' | 'function';
+    name?: string;
+}
 
 export class PythonParser implements LanguageParser {
     language = 'python';
@@ -36,19 +45,31 @@ export class PythonParser implements LanguageParser {
         };
 
         try {
-            const lines = content.split('\n');
-
-            // Extract imports
-            metadata.imports = this.extractImports(lines);
-
-            // Extract definitions
-            metadata.definitions = this.extractDefinitions(lines);
-
-            // In Python, everything at module level is implicitly exported
-            // unless it starts with underscore
-            metadata.exports = metadata.definitions.filter(
-                def => def.scope === 'global' && !def.name.startsWith('_')
-            );
+            const tree = await parseWithTreeSitter('python', content);
+
+            try {
+                const root = tree.rootNode;
+
+                // Extract imports
+                metadata.imports = this.extractImports(root);
+
+                // Extract definitions
+                metadata.definitions = [];
+                this.collectDefinitions(root, { kind: 'module' }, metadata.definitions);
+
+                // Module-level names are public unless they start with an
+                // underscore; an explicit __all__ overrides that
+                const publicNames = this.extractDunderAll(root);
+                for (const def of metadata.definitions) {
+                    if (def.scope !== 'global') continue;
+                    def.isExported = publicNames
+                        ? publicNames.has(def.name)
+                        : !def.name.startsWith('_');
+                }
+                metadata.exports = metadata.definitions.filter(def => def.isExported);
+            } finally {
+                tree.delete();
+            }
 
         } catch (error: any) {
             metadata.errors = [error.message];
@@ -81,200 +102,232 @@ export class PythonParser implements LanguageParser {
         return [...new Set(symbols)];
     }
 
-    private extractImports(lines: string[]): ImportStatement[] {
+    private extractImports(root: Node): ImportStatement[] {
         const imports: ImportStatement[] = [];
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-            const lineNum = i + 1;
-
-            // import module
-            const simpleImport = /^import\s+([a-zA-Z0-9_.]+)(?:\s+as\s+([a-zA-Z0-9_]+))?/.exec(line);
-            if (simpleImport) {
-                const moduleName = simpleImport[1];
-                const alias = simpleImport[2];
-                const isExternal = !moduleName.startsWith('.');
-
-                imports.push({
-                    source: moduleName,
-                    from: moduleName,
-                    type: 'default',
-                    symbols: [alias || moduleName],
-                    alias,
-                    line: lineNum,
-                    isExternal
-                });
-                continue;
-            }
+        for (const node of root.descendantsOfType(['import_statement', 'import_from_statement'])) {
+            if (!node) continue;
+            const line = startLineOf(node);
 
-            // from module import symbol1, symbol2
-            const fromImport = /^from\s+([a-zA-Z0-9_.]+)\s+import\s+(.+)/.exec(line);
-            if (fromImport) {
-                const moduleName = fromImport[1];
-                const importsStr = fromImport[2];
-                const isExternal = !moduleName.startsWith('.');
+            // import a.b, c as d
+            if (node.type === 'import_statement') {
+                for (const name of node.childrenForFieldName('name')) {
+                    if (!name) continue;
+                    const moduleName = (name.childForFieldName('name') ?? name).text;
+                    const alias = name.type === 'aliased_import'
+                        ? name.childForFieldName('alias')?.text
+                        : undefined;
 
-                // Handle: from module import *
-                if (importsStr.trim() === '*') {
                     imports.push({
                         source: moduleName,
                         from: moduleName,
-                        type: 'namespace',
-                        symbols: ['*'],
-                        line: lineNum,
-                        isExternal
+                        type: 'default',
+                        symbols: [alias || moduleName],
+                        alias,
+                        line,
+                        isExternal: true
                     });
-                    continue;
                 }
+                continue;
+            }
 
-                // Parse imported symbols (handle "as" aliases)
-                const symbolParts = importsStr.split(',').map(s => s.trim());
-                const symbols: string[] = [];
-
-                for (const part of symbolParts) {
-                    const asMatch = /^([a-zA-Z0-9_]+)(?:\s+as\s+([a-zA-Z0-9_]+))?/.exec(part);
-                    if (asMatch) {
-                        symbols.push(asMatch[2] || asMatch[1]); // Use alias if present
-                    }
-                }
+            // from module import a, b as c / from .pkg import (a,\n b) / from module import *
+            const moduleName = node.childForFieldName('module_name')?.text;
+            if (!moduleName) continue;
+            const isExternal = !moduleName.startsWith('.');
 
+            if (namedChildrenOf(node).some(child => child.type === 'wildcard_import')) {
                 imports.push({
                     source: moduleName,
                     from: moduleName,
-                    type: 'named',
-                    symbols,
-                    line: lineNum,
+                    type: 'namespace',
+                    symbols: ['*'],
+                    line,
                     isExternal
                 });
+                continue;
+            }
+
+            const symbols: string[] = [];
+            for (const name of node.childrenForFieldName('name')) {
+                if (!name) continue;
+                // Use alias if present
+                symbols.push(name.type === 'aliased_import'
+                    ? name.childForFieldName('alias')?.text ?? name.text
+                    : name.text);
             }
+
+            imports.push({
+                source: moduleName,
+                from: moduleName,
+                type: 'named',
+                symbols,
+                line,
+                isExternal
+            });
         }
 
         return imports;
     }
 
-    private extractDefinitions(lines: string[]): SymbolDefinition[] {
-        const definitions: SymbolDefinition[] = [];
-        let currentClass: string | null = null;
-        let currentIndent = 0;
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmed = line.trim();
-            const indent = line.length - line.trimStart().length;
-            const lineNum = i + 1;
-
-            // Track when we exit a class (based on indentation)
-            if (currentClass && indent <= currentIndent && trimmed && !trimmed.startsWith('#')) {
-                currentClass = null;
-            }
-
-            // Function definition: def function_name(params):
-            const funcMatch = /^def\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\)/.exec(trimmed);
-            if (funcMatch) {
-                const funcName = funcMatch[1];
-                const params = funcMatch[2];
-
-                // Find the end of the function (next def/class at same or lower indent)
-                let endLine = lineNum;
-                for (let j = i + 1; j < lines.length; j++) {
-                    const nextLine = lines[j];
-                    const nextTrimmed = nextLine.trim();
-                    const nextIndent = nextLine.length - nextLine.trimStart().length;
-
-                    if (nextTrimmed && !nextTrimmed.startsWith('#') &&
-                        nextIndent <= indent &&
-                        (nextTrimmed.startsWith('def ') || nextTrimmed.startsWith('class '))) {
-                        endLine = j;
-                        break;
+    /**
+     * Collect definitions from a block, descending into compound statements
+     * (if/try/with/for) so conditional definitions are found too
+     */
+    private collectDefinitions(block: Node, scope: PythonScope, definitions: SymbolDefinition[]): void {
+        for (const statement of namedChildrenOf(block)) {
+            switch (statement.type) {
+                case 'function_definition':
+                case 'class_definition':
+                    this.addDefinition(statement, statement, [], scope, definitions);
+                    break;
+
+                case 'decorated_definition': {
+                    const definition = statement.childForFieldName('definition');
+                    const decorators = namedChildrenOf(statement)
+                        .filter(child => child.type === 'decorator')
+                        .map(decorator => decorator.text.replace(/^@\s*/, ''));
+                    if (definition) {
+                        this.addDefinition(definition, statement, decorators, scope, definitions);
                     }
-                    endLine = j + 1;
+                    break;
                 }
 
-                // Extract docstring if present
-                let documentation: string | undefined;
-                if (i + 1 < lines.length) {
-                    const nextLine = lines[i + 1].trim();
-                    if (nextLine.startsWith('"""') || nextLine.startsWith("'''")) {
-                        documentation = nextLine;
+                case 'expression_statement':
+                    if (scope.kind === 'module') {
+                        this.addAssignment(statement, definitions);
                     }
-                }
+                    break;
 
-                const isMethod = currentClass !== null;
-                definitions.push({
-                    name: funcName,
-                    type: isMethod ? 'method' : 'function',
-                    startLine: lineNum,
-                    endLine,
-                    signature: `def ${funcName}(${params})`,
-                    documentation,
-                    isExported: !funcName.startsWith('_') && !isMethod,
-                    scope: isMethod ? 'class' : 'global',
-                    parent: currentClass || undefined
-                });
+                default:
+                    for (const nested of this.nestedBlocks(statement)) {
+                        this.collectDefinitions(nested, scope, definitions);
+                    }
             }
+        }
+    }
 
-            // Class definition: class ClassName:
-            const classMatch = /^class\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*(\([^)]*\))?:/.exec(trimmed);
-            if (classMatch) {
-                const className = classMatch[1];
-                const inheritance = classMatch[2];
-
-                // Find the end of the class
-                let endLine = lineNum;
-                for (let j = i + 1; j < lines.length; j++) {
-                    const nextLine = lines[j];
-                    const nextTrimmed = nextLine.trim();
-                    const nextIndent = nextLine.length - nextLine.trimStart().length;
-
-                    if (nextTrimmed && !nextTrimmed.startsWith('#') &&
-                        nextIndent <= indent &&
-                        nextTrimmed.startsWith('class ')) {
-                        endLine = j;
-                        break;
-                    }
-                    endLine = j + 1;
-                }
+    private addDefinition(
+        node: Node,
+        outer: Node,
+        decorators: string[],
+        scope: PythonScope,
+        definitions: SymbolDefinition[]
+    ): void {
+        const name = node.childForFieldName('name')?.text;
+        const body = node.childForFieldName('body');
+        if (!name || !body) return;
+
+        const isClass = node.type === 'class_definition';
+        let signature: string;
+        if (isClass) {
+            signature = `class ${name}${node.childForFieldName('superclasses')?.text ?? ''}`;
+        } else {
+            const isAsync = node.children.some(child => child?.type === 'async');
+            const params = node.childForFieldName('parameters')?.text ?? '()';
+            const returnType = node.childForFieldName('return_type');
+            signature = `${isAsync ? 'async ' : ''}def ${name}${params}${returnType ? ` -> ${returnType.text}` : ''}`;
+        }
 
-                // Extract docstring
-                let documentation: string | undefined;
-                if (i + 1 < lines.length) {
-                    const nextLine = lines[i + 1].trim();
-                    if (nextLine.startsWith('"""') || nextLine.startsWith("'''")) {
-                        documentation = nextLine;
-                    }
-                }
+        definitions.push({
+            name,
+            type: isClass ? 'class' : (scope.kind === 'class' ? 'method' : 'function'),
+            // Decorators are part of the definition's range
+            startLine: startLineOf(outer),
+            endLine: endLineOf(outer),
+            signature: signature.replace(/\s+/g, ' '),
+            documentation: this.extractDocstring(body),
+            decorators: decorators.length > 0 ? decorators : undefined,
+            isExported: false,
+            scope: scope.kind === 'module' ? 'global' : (scope.kind === 'class' ? 'class' : 'local'),
+            parent: scope.name
+        });
+
+        this.collectDefinitions(body, { kind: isClass ? 'class' : 'function', name }, definitions);
+    }
 
-                definitions.push({
-                    name: className,
-                    type: 'class',
-                    startLine: lineNum,
-                    endLine,
-                    signature: `class ${className}${inheritance || ''}`,
-                    documentation,
-                    isExported: !className.startsWith('_'),
-                    scope: 'global'
-                });
+    /**
+     * Module-level `NAME = ...` and `name: T = ...`; upper-case names are constants
+     */
+    private addAssignment(statement: Node, definitions: SymbolDefinition[]): void {
+        const assignment = statement.firstNamedChild;
+        if (assignment?.type !== 'assignment') return;
+
+        const target = assignment.childForFieldName('left');
+        if (target?.type !== 'identifier' || target.text === '__all__') return;
+
+        const annotation = assignment.childForFieldName('type');
+        const name = target.text;
+
+        definitions.push({
+            name,
+            type: /^[A-Z][A-Z0-9_]*$/.test(name) ? 'constant' : 'variable',
+            startLine: startLineOf(statement),
+            endLine: endLineOf(statement),
+            signature: annotation ? `${name}: ${annotation.text}` : name,
+            isExported: false,
+            scope: 'global'
+        });
+    }
 
-                currentClass = className;
-                currentIndent = indent;
+    /**
+     * Blocks of a compound statement, including its elif/else/except/finally clauses
+     */
+    private nestedBlocks(statement: Node): Node[] {
+        const blocks: Node[] = [];
+        for (const child of namedChildrenOf(statement)) {
+            if (child.type === 'block') {
+                blocks.push(child);
+            } else if (child.type.endsWith('_clause')) {
+                blocks.push(...namedChildrenOf(child).filter(c => c.type === 'block'));
             }
+        }
+        return blocks;
+    }
 
-            // Global variable assignment (simplified)
-            const varMatch = /^([A-Z_][A-Z0-9_]*)\s*=/.exec(trimmed);
-            if (varMatch && indent === 0) {
-                const varName = varMatch[1];
-                definitions.push({
-                    name: varName,
-                    type: 'constant',
-                    startLine: lineNum,
-                    endLine: lineNum,
-                    signature: varName,
-                    isExported: !varName.startsWith('_'),
-                    scope: 'global'
-                });
+    /**
+     * Docstring of a class/function body, dedented like inspect.cleandoc
+     */
+    private extractDocstring(body: Node): string | undefined {
+        const first = body.firstNamedChild;
+        const literal = first?.type === 'expression_statement' ? first.firstNamedChild : null;
+        if (literal?.type !== 'string') return undefined;
+
+        const text = literal.text.replace(/^[rRuU]?("""|'''|"|')/, '').replace(/("""|'''|"|')$/, '');
+        const lines = text.split('\n');
+        const indents = lines.slice(1)
+            .filter(line => line.trim())
+            .map(line => line.length - line.trimStart().length);
+        const margin = indents.length > 0 ? Math.min(...indents) : 0;
+
+        const cleaned = [lines[0].trim(), ...lines.slice(1).map(line => line.slice(margin).trimEnd())]
+            .join('\n')
+            .trim();
+        return cleaned || undefined;
+    }
+
+    /**
+     * Names listed in a module-level `__all__` (assigned or extended with +=),
+     * or null when the module doesn't define one
+     */
+    private extractDunderAll(root: Node): Set<string> | null {
+        let names: Set<string> | null = null;
+
+        for (const statement of namedChildrenOf(root)) {
+            const expression = statement.type === 'expression_statement' ? statement.firstNamedChild : null;
+            if (expression?.type !== 'assignment' && expression?.type !== 'augmented_assignment') continue;
+            if (expression.childForFieldName('left')?.text !== '__all__') continue;
+
+            const value = expression.childForFieldName('right');
+            if (value?.type !== 'list' && value?.type !== 'tuple') continue;
+
+            if (expression.type === 'assignment' || !names) names = new Set();
+            for (const item of namedChildrenOf(value)) {
+                if (item.type !== 'string') continue;
+                names.add(item.text.replace(/^[rRuU]?['"]+|['"]+$/g, ''));
             }
         }
 
-        return definitions;
+        return names;
     }
 }
@@ -0,0 +1,35 @@
+; C# definitions; namespaces are not containers so types stay global.
+; Private and protected members are not exported.
+
+(class_declaration name: (identifier) @name) @definition.class
+(struct_declaration name: (identifier) @name) @definition.class
+(record_declaration name: (identifier) @name) @definition.class
+(enum_declaration name: (identifier) @name) @definition.class
+(interface_declaration name: (identifier) @name) @definition.interface
+(delegate_declaration name: (identifier) @name) @definition.type
+
+(method_declaration
+  (modifier) @private (#any-of? @private "private" "protected")
+  name: (identifier) @name) @definition.method
+(method_declaration name: (identifier) @name) @definition.method
+
+(constructor_declaration
+  (modifier) @private (#any-of? @private "private" "protected")
+  name: (identifier) @name) @definition.method
+(constructor_declaration name: (identifier) @name) @definition.method
+
+(property_declaration
+  (modifier) @private (#any-of? @private "private" "protected")
+  name: (identifier) @name) @definition.variable
+(property_declaration name: (identifier) @name) @definition.variable
+
+(field_declaration
+  (modifier) @_const (#eq? @_const "const")
+  (variable_declaration (variable_declarator (identifier) @name) @definition.constant))
+(field_declaration
+  (modifier) @private (#any-of? @private "private" "protected")
+  (variable_declaration (variable_declarator (identifier) @name) @definition.variable))
+(field_declaration
+  (variable_declaration (variable_declarator (identifier) @name) @definition.variable))
+
+(enum_member_declaration name: (identifier) @name) @definition.constant
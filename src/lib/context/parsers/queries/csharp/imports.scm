@@ -0,0 +1,7 @@
+; using System.Text; makes every type in the namespace visible
+; using IO = System.IO; aliases it
+
+(using_directive [(identifier) (qualified_name)] @source @wildcard) @import
+(using_directive
+  (name_equals (identifier) @alias)
+  [(identifier) (qualified_name)] @source) @import
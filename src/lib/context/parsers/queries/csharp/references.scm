@@ -0,0 +1,7 @@
+; Calls, member access receivers and instantiated types
+
+(invocation_expression function: (identifier) @reference)
+(invocation_expression function: (member_access_expression name: (identifier) @reference))
+(member_access_expression expression: (identifier) @reference)
+(object_creation_expression type: (identifier) @reference)
+(object_creation_expression type: (generic_name (identifier) @reference))
@@ -0,0 +1,23 @@
+; Kotlin definitions; private and protected declarations are not exported
+
+(class_declaration "interface" (type_identifier) @name) @definition.interface
+(class_declaration
+  (modifiers (visibility_modifier) @private (#any-of? @private "private" "protected"))
+  (type_identifier) @name) @definition.class
+(class_declaration (type_identifier) @name) @definition.class
+(object_declaration (type_identifier) @name) @definition.class
+
+(function_declaration
+  (modifiers (visibility_modifier) @private (#any-of? @private "private" "protected"))
+  (simple_identifier) @name) @definition.function
+(function_declaration (simple_identifier) @name) @definition.function
+
+(property_declaration
+  (modifiers (property_modifier) @_const (#eq? @_const "const"))
+  (variable_declaration (simple_identifier) @name)) @definition.constant
+(property_declaration
+  (modifiers (visibility_modifier) @private (#any-of? @private "private" "protected"))
+  (variable_declaration (simple_identifier) @name)) @definition.variable
+(property_declaration (variable_declaration (simple_identifier) @name)) @definition.variable
+
+(type_alias (type_identifier) @name) @definition.type
@@ -0,0 +1,5 @@
+; import a.b.C / import a.b.* / import a.b.C as D
+
+(import_header (identifier) @source) @import
+(import_header (identifier) @source (wildcard_import) @wildcard) @import
+(import_header (identifier) @source (import_alias (type_identifier) @alias)) @import
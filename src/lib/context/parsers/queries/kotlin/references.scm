@@ -0,0 +1,6 @@
+; Calls, navigation receivers and member names, and types
+
+(call_expression (simple_identifier) @reference)
+(navigation_expression (simple_identifier) @reference)
+(navigation_suffix (simple_identifier) @reference)
+(user_type (type_identifier) @reference)
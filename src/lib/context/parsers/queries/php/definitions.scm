@@ -0,0 +1,22 @@
+; PHP definitions; private and protected members are not exported
+
+(class_declaration name: (name) @name) @definition.class
+(trait_declaration name: (name) @name) @definition.class
+(enum_declaration name: (name) @name) @definition.class
+(interface_declaration name: (name) @name) @definition.interface
+
+(function_definition name: (name) @name) @definition.function
+
+(method_declaration
+  (visibility_modifier) @private (#any-of? @private "private" "protected")
+  name: (name) @name) @definition.method
+(method_declaration name: (name) @name) @definition.method
+
+(const_declaration (const_element (name) @name) @definition.constant)
+(enum_case name: (name) @name) @definition.constant
+
+(property_declaration
+  (visibility_modifier) @private (#any-of? @private "private" "protected")
+  (property_element (variable_name (name) @name)) @definition.variable)
+(property_declaration
+  (property_element (variable_name (name) @name)) @definition.variable)
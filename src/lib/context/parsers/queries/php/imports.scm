@@ -0,0 +1,25 @@
+; use App\Models\User; use Foo\{Bar, Baz as Q}; require_once 'helpers.php';
+
+(namespace_use_clause [(qualified_name) (name)] @source) @import
+(namespace_use_clause
+  [(qualified_name) (name)] @source
+  (namespace_aliasing_clause (name) @alias)) @import
+
+(namespace_use_declaration
+  (namespace_name) @source
+  (namespace_use_group
+    (namespace_use_group_clause (namespace_name) @symbol .))) @import
+(namespace_use_declaration
+  (namespace_name) @source
+  (namespace_use_group
+    (namespace_use_group_clause (namespace_aliasing_clause (name) @symbol)))) @import
+
+; Included paths are taken relative to the file, as with __DIR__ . '/x.php'
+(require_expression (string (string_content) @source.relative)) @import
+(require_expression (binary_expression right: (string (string_content) @source.relative))) @import
+(require_once_expression (string (string_content) @source.relative)) @import
+(require_once_expression (binary_expression right: (string (string_content) @source.relative))) @import
+(include_expression (string (string_content) @source.relative)) @import
+(include_expression (binary_expression right: (string (string_content) @source.relative))) @import
+(include_once_expression (string (string_content) @source.relative)) @import
+(include_once_expression (binary_expression right: (string (string_content) @source.relative))) @import
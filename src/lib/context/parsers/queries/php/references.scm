@@ -0,0 +1,10 @@
+; Function and method calls, instantiations and static access
+
+(function_call_expression function: (name) @reference)
+(function_call_expression function: (qualified_name (name) @reference .))
+(member_call_expression name: (name) @reference)
+(scoped_call_expression scope: (name) @reference)
+(scoped_call_expression name: (name) @reference)
+(class_constant_access_expression . (name) @reference)
+(object_creation_expression (name) @reference)
+(object_creation_expression (qualified_name (name) @reference .))
@@ -0,0 +1,12 @@
+; Ruby definitions
+
+(module name: (constant) @name) @definition.module
+(module name: (scope_resolution name: (constant) @name)) @definition.module
+
+(class name: (constant) @name) @definition.class
+(class name: (scope_resolution name: (constant) @name)) @definition.class
+
+(singleton_method name: (_) @name) @definition.method
+(method name: (_) @name) @definition.function
+
+(assignment left: (constant) @name) @definition.constant
@@ -0,0 +1,9 @@
+; require 'json' / require_relative 'lib/foo'
+
+(call
+  method: (identifier) @_method (#any-of? @_method "require" "load")
+  arguments: (argument_list . (string (string_content) @source))) @import
+
+(call
+  method: (identifier) @_method (#eq? @_method "require_relative")
+  arguments: (argument_list . (string (string_content) @source.relative))) @import
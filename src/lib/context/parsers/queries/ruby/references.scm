@@ -0,0 +1,6 @@
+; Method calls, their receivers and constants
+
+(call method: (identifier) @reference)
+(call receiver: (identifier) @reference)
+(call receiver: (constant) @reference)
+(constant) @reference
@@ -0,0 +1,21 @@
+; Scala definitions; private and protected members are not exported
+
+(class_definition name: (identifier) @name) @definition.class
+(object_definition name: (identifier) @name) @definition.class
+(trait_definition name: (identifier) @name) @definition.interface
+(type_definition name: (type_identifier) @name) @definition.type
+
+(function_definition
+  (modifiers) @private (#match? @private "private|protected")
+  name: (identifier) @name) @definition.function
+(function_definition name: (identifier) @name) @definition.function
+(function_declaration name: (identifier) @name) @definition.function
+
+(val_definition
+  (modifiers) @private (#match? @private "private|protected")
+  pattern: (identifier) @name) @definition.variable
+(val_definition pattern: (identifier) @name) @definition.variable
+(var_definition
+  (modifiers) @private (#match? @private "private|protected")
+  pattern: (identifier) @name) @definition.variable
+(var_definition pattern: (identifier) @name) @definition.variable
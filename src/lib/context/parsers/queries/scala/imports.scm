@@ -0,0 +1,6 @@
+; import a.b.C / import a.b._ / import a.b.{C, D => E}
+
+(import_declaration path: (_) @source) @import
+(import_declaration path: (_) @source (wildcard) @wildcard) @import
+(import_declaration path: (_) @source (import_selectors (identifier) @symbol)) @import
+(import_declaration path: (_) @source (import_selectors (renamed_identifier alias: (identifier) @symbol))) @import
@@ -0,0 +1,6 @@
+; Calls, field access and types (including instantiated ones)
+
+(call_expression function: (identifier) @reference)
+(call_expression function: (field_expression field: (identifier) @reference))
+(field_expression value: (identifier) @reference)
+(type_identifier) @reference
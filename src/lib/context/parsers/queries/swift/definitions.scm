@@ -0,0 +1,25 @@
+; Swift definitions; private and fileprivate declarations are not exported.
+; Extensions scope their members under the extended type.
+
+(class_declaration "extension" name: (user_type (type_identifier) @name)) @container
+
+(class_declaration
+  (modifiers (visibility_modifier) @private (#match? @private "^(private|fileprivate)"))
+  name: (type_identifier) @name) @definition.class
+(class_declaration name: (type_identifier) @name) @definition.class
+(protocol_declaration name: (type_identifier) @name) @definition.interface
+(protocol_function_declaration name: (simple_identifier) @name) @definition.method
+
+(function_declaration
+  (modifiers (visibility_modifier) @private (#match? @private "^(private|fileprivate)"))
+  name: (simple_identifier) @name) @definition.function
+(function_declaration name: (simple_identifier) @name) @definition.function
+(init_declaration "init" @name) @definition.method
+
+(property_declaration
+  (modifiers (visibility_modifier) @private (#match? @private "^(private|fileprivate)"))
+  name: (pattern bound_identifier: (simple_identifier) @name)) @definition.variable
+(property_declaration name: (pattern bound_identifier: (simple_identifier) @name)) @definition.variable
+
+(typealias_declaration name: (type_identifier) @name) @definition.type
+(enum_entry name: (simple_identifier) @name) @definition.constant
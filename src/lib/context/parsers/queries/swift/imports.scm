@@ -0,0 +1,3 @@
+; import Foundation brings in the whole module
+
+(import_declaration (identifier) @source @wildcard) @import
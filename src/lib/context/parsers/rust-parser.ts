@@ -0,0 +1,482 @@
+/**
+ * Rust parser using line-based extraction
+ *
+ * Extracts `use` trees, `mod` declarations, functions, structs, enums,
+ * traits, type aliases, constants and the methods of `impl`/`trait` blocks.
+ * `pub` (including `pub(crate)` and friends) marks an item as exported.
+ *
+ * Strings, char literals and comments are blanked out before scanning so
+ * braces inside them do not throw off block tracking.
+ */
+
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import type {
+    FileMetadata,
+    SymbolDefinition,
+    ImportStatement,
+    LanguageParser
+} from '../types';
+
+const VISIBILITY = String.raw`(pub(?:\s*\([^)]*\))?\s+)?`;
+const FN_PATTERN = new RegExp(String.raw`^${VISIBILITY}(?:default\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+([a-zA-Z_][a-zA-Z0-9_]*)`);
+const TYPE_ITEM_PATTERN = new RegExp(String.raw`^${VISIBILITY}(?:unsafe\s+)?(struct|enum|union|trait|type)\s+([a-zA-Z_][a-zA-Z0-9_]*)`);
+const VALUE_ITEM_PATTERN = new RegExp(String.raw`^${VISIBILITY}(const|static)\s+(?:mut\s+)?([a-zA-Z_][a-zA-Z0-9_]*)\s*:`);
+const MOD_PATTERN = new RegExp(String.raw`^${VISIBILITY}mod\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*(;|\{)?`);
+const USE_PATTERN = new RegExp(String.raw`^${VISIBILITY}use\s+`);
+// impl<T> Trait<T> for Type<T> / impl Type
+const IMPL_PATTERN = /^(?:unsafe\s+)?impl\b(?:\s*<[^{]*?>)?\s+(?:!?([a-zA-Z_][a-zA-Z0-9_:]*)(?:<[^{]*?>)?\s+for\s+)?(?:&(?:'[a-z_]+\s+)?(?:mut\s+)?)?([a-zA-Z_][a-zA-Z0-9_:]*)/;
+
+interface BlockContext {
+    kind: 'impl' | 'trait' | 'mod' | 'other';
+    /** Self type of an impl, or the trait name */
+    name?: string;
+    /** Whether methods in this block are visible wherever the type is */
+    exportsMembers?: boolean;
+}
+
+interface UseLeaf {
+    path: string[];
+    alias?: string;
+    isGlob: boolean;
+}
+
+export class RustParser implements LanguageParser {
+    language = 'rust';
+    extensions = ['rs'];
+
+    async parseFile(filePath: string, content: string): Promise<FileMetadata> {
+        const stats = await fs.stat(filePath);
+        const hash = crypto.createHash('md5').update(content).digest('hex');
+
+        const metadata: FileMetadata = {
+            path: filePath,
+            language: 'rust',
+            exports: [],
+            imports: [],
+            definitions: [],
+            lastModified: stats.mtimeMs,
+            hash,
+            size: stats.size,
+            errors: []
+        };
+
+        try {
+            const lines = content.split('\n');
+            const code = blankOutLiterals(content).split('\n');
+
+            const { imports, definitions } = this.extractItems(lines, code);
+            metadata.imports = imports;
+            metadata.definitions = definitions;
+
+            // `pub` items are visible outside their module
+            metadata.exports = metadata.definitions.filter(def => def.isExported);
+
+        } catch (error: any) {
+            metadata.errors = [error.message];
+        }
+
+        return metadata;
+    }
+
+    extractSymbolsFromLine(line: string): string[] {
+        const symbols: string[] = [];
+
+        // Match function and macro calls: name( / name!(
+        const calls = line.matchAll(/\b([a-zA-Z_][a-zA-Z0-9_]*)!?\s*\(/g);
+        for (const match of calls) {
+            symbols.push(match[1]);
+        }
+
+        // Match path segments: module::item / Type::new
+        const paths = line.matchAll(/\b([a-zA-Z_][a-zA-Z0-9_]*)::/g);
+        for (const match of paths) {
+            symbols.push(match[1]);
+        }
+
+        // Match type names: struct literals, generics and annotations
+        const types = line.matchAll(/\b([A-Z][a-zA-Z0-9_]*)\b/g);
+        for (const match of types) {
+            symbols.push(match[1]);
+        }
+
+        return [...new Set(symbols)].filter(symbol => !RUST_KEYWORDS.has(symbol));
+    }
+
+    /**
+     * Walk the file once, tracking which block each line sits in, so items are
+     * only read at module level and methods only directly inside impl/trait blocks
+     */
+    private extractItems(lines: string[], code: string[]): { imports: ImportStatement[]; definitions: SymbolDefinition[] } {
+        const imports: ImportStatement[] = [];
+        const definitions: SymbolDefinition[] = [];
+        const stack: BlockContext[] = [];
+        // Header matched on an earlier line whose `{` has not been seen yet
+        let pendingBlock: BlockContext | null = null;
+        // Open parens/brackets, so `[u8; 4]` in a signature does not end the header
+        let nesting = 0;
+
+        for (let i = 0; i < code.length; i++) {
+            const trimmed = code[i].trim();
+            const lineNum = i + 1;
+
+            const atModuleLevel = stack.every(block => block.kind === 'mod');
+            const top = stack[stack.length - 1];
+            const inMemberBlock = !!top && (top.kind === 'impl' || top.kind === 'trait')
+                && stack.slice(0, -1).every(block => block.kind === 'mod');
+
+            let opens: BlockContext | null = null;
+
+            if (atModuleLevel && trimmed) {
+                if (USE_PATTERN.test(trimmed)) {
+                    // use trees may span lines: collect up to the `;`
+                    let statement = trimmed;
+                    let j = i;
+                    while (!statement.includes(';') && j + 1 < code.length) {
+                        statement += ' ' + code[++j].trim();
+                    }
+                    imports.push(...this.parseUse(statement, lineNum));
+                    i = j;
+                    continue;
+                }
+
+                const modMatch = MOD_PATTERN.exec(trimmed);
+                if (modMatch) {
+                    const modName = modMatch[2];
+                    if (modMatch[3] === ';') {
+                        // `mod foo;` pulls in foo.rs / foo/mod.rs
+                        imports.push({
+                            source: `mod ${modName}`,
+                            from: `self::${modName}`,
+                            type: 'namespace',
+                            symbols: [],
+                            line: lineNum,
+                            isExternal: false
+                        });
+                    } else {
+                        opens = { kind: 'mod', name: modName };
+                    }
+                }
+
+                const fnMatch = FN_PATTERN.exec(trimmed);
+                if (fnMatch) {
+                    definitions.push(this.createDefinition(lines, code, i, fnMatch[2], 'function', !!fnMatch[1]));
+                    opens = { kind: 'other' };
+                }
+
+                const typeMatch = TYPE_ITEM_PATTERN.exec(trimmed);
+                if (typeMatch) {
+                    const keyword = typeMatch[2];
+                    const name = typeMatch[3];
+                    const isPublic = !!typeMatch[1];
+                    const type = keyword === 'trait' ? 'interface' : keyword === 'type' ? 'type' : 'class';
+
+                    definitions.push(this.createDefinition(lines, code, i, name, type, isPublic));
+                    opens = keyword === 'trait'
+                        ? { kind: 'trait', name, exportsMembers: isPublic }
+                        : { kind: 'other' };
+                }
+
+                const valueMatch = VALUE_ITEM_PATTERN.exec(trimmed);
+                if (valueMatch) {
+                    const type = valueMatch[2] === 'const' ? 'constant' : 'variable';
+                    definitions.push(this.createDefinition(lines, code, i, valueMatch[3], type, !!valueMatch[1]));
+                }
+
+                const implMatch = IMPL_PATTERN.exec(trimmed);
+                if (implMatch) {
+                    const selfType = lastPathSegment(implMatch[2]);
+                    // Trait methods are reachable wherever the trait and type are
+                    opens = { kind: 'impl', name: selfType, exportsMembers: !!implMatch[1] };
+                }
+
+                const macroMatch = /^macro_rules!\s*([a-zA-Z_][a-zA-Z0-9_]*)/.exec(trimmed);
+                if (macroMatch) {
+                    const exported = i > 0 && /#\[macro_export\]/.test(lines[i - 1]);
+                    definitions.push(this.createDefinition(lines, code, i, macroMatch[1], 'function', exported));
+                    opens = { kind: 'other' };
+                }
+            } else if (inMemberBlock && trimmed) {
+                const fnMatch = FN_PATTERN.exec(trimmed);
+                if (fnMatch) {
+                    const definition = this.createDefinition(
+                        lines, code, i, fnMatch[2], 'method',
+                        !!fnMatch[1] || !!top.exportsMembers
+                    );
+                    definition.scope = 'class';
+                    definition.parent = top.name;
+                    definitions.push(definition);
+                    opens = { kind: 'other' };
+                }
+            }
+
+            if (opens) pendingBlock = opens;
+
+            // Track blocks opened and closed on this line
+            for (const char of code[i]) {
+                if (char === '(' || char === '[') {
+                    nesting++;
+                } else if (char === ')' || char === ']') {
+                    nesting--;
+                } else if (char === '{') {
+                    stack.push(pendingBlock || { kind: 'other' });
+                    pendingBlock = null;
+                } else if (char === '}') {
+                    stack.pop();
+                } else if (char === ';' && pendingBlock && nesting === 0) {
+                    // `fn f();` in a trait, `struct Unit;` - no body follows
+                    pendingBlock = null;
+                }
+            }
+        }
+
+        return { imports, definitions };
+    }
+
+    private createDefinition(
+        lines: string[],
+        code: string[],
+        index: number,
+        name: string,
+        type: SymbolDefinition['type'],
+        isExported: boolean
+    ): SymbolDefinition {
+        return {
+            name,
+            type,
+            startLine: index + 1,
+            endLine: findItemEnd(code, index),
+            signature: lines[index].trim().replace(/\s*\{\s*$/, ''),
+            documentation: extractDocComment(lines, index),
+            isExported,
+            exportType: isExported ? 'named' : undefined,
+            scope: 'global'
+        };
+    }
+
+    /**
+     * Turn `use a::{b, c::d as e, f::*};` into one import per leaf of the tree
+     */
+    private parseUse(statement: string, lineNum: number): ImportStatement[] {
+        const tree = statement
+            .replace(USE_PATTERN, '')
+            .replace(/;.*$/, '')
+            .replace(/\s+/g, ' ')
+            .replace(/\s*(::|\{|\}|,)\s*/g, '$1')
+            .trim();
+
+        return expandUseTree([], tree).map(leaf => {
+            const from = leaf.path.join('::');
+            // Paths that start at the crate or current module are always local
+            const isExternal = !/^(crate|self|super)$/.test(leaf.path[0]);
+
+            if (leaf.isGlob) {
+                return {
+                    source: `${from}::*`,
+                    from,
+                    type: 'namespace' as const,
+                    symbols: ['*'],
+                    line: lineNum,
+                    isExternal
+                };
+            }
+
+            const name = leaf.path[leaf.path.length - 1];
+            return {
+                source: from,
+                from,
+                type: 'named' as const,
+                symbols: [leaf.alias || name],
+                alias: leaf.alias,
+                line: lineNum,
+                isExternal
+            };
+        });
+    }
+}
+
+const RUST_KEYWORDS = new Set([
+    'as', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'extern', 'false', 'fn', 'for',
+    'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return',
+    'self', 'Self', 'static', 'struct', 'super', 'trait', 'true', 'type', 'unsafe', 'use',
+    'where', 'while', 'async', 'await', 'dyn'
+]);
+
+/**
+ * Expand a use tree with whitespace squeezed out around `::`, braces and
+ * commas (`a::{b,c::d as e}`) into leaf paths
+ */
+function expandUseTree(prefix: string[], tree: string): UseLeaf[] {
+    const braceStart = tree.indexOf('{');
+
+    if (braceStart === -1) {
+        const [pathPart, alias] = tree.split(' as ');
+        const segments = pathPart.replace(/^::/, '').split('::').filter(Boolean);
+
+        if (segments[segments.length - 1] === '*') {
+            return [{ path: [...prefix, ...segments.slice(0, -1)], isGlob: true }];
+        }
+        // `self` inside braces names the module itself: use foo::{self, Bar}
+        if (segments.length === 1 && segments[0] === 'self' && prefix.length > 0) {
+            return [{ path: prefix, alias: alias || undefined, isGlob: false }];
+        }
+        return segments.length > 0 ? [{ path: [...prefix, ...segments], alias: alias || undefined, isGlob: false }] : [];
+    }
+
+    const head = tree.slice(0, braceStart).replace(/::$/, '');
+    const nestedPrefix = [...prefix, ...head.split('::').filter(Boolean)];
+    const body = tree.slice(braceStart + 1, tree.lastIndexOf('}'));
+
+    return splitTopLevel(body).flatMap(part => expandUseTree(nestedPrefix, part));
+}
+
+/**
+ * Split on commas that are not inside nested braces
+ */
+function splitTopLevel(body: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of body) {
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current) parts.push(current);
+
+    return parts.filter(Boolean);
+}
+
+function lastPathSegment(typePath: string): string {
+    const segments = typePath.split('::');
+    return segments[segments.length - 1];
+}
+
+/**
+ * `///` doc comments directly above an item, skipping attributes like #[derive(...)]
+ */
+function extractDocComment(lines: string[], index: number): string | undefined {
+    const commentLines: string[] = [];
+    for (let j = index - 1; j >= 0; j--) {
+        const trimmed = lines[j].trim();
+        if (trimmed.startsWith('#[')) continue;
+        if (!trimmed.startsWith('///')) break;
+        commentLines.unshift(trimmed.replace(/^\/\/\/\s?/, ''));
+    }
+    return commentLines.length > 0 ? commentLines.join('\n') : undefined;
+}
+
+/**
+ * Last line (1-indexed) of an item: its closing brace, or the `;` that ends
+ * a bodiless item (`struct Id(u64);`, `fn f();`, `const X: u8 = 1;`)
+ */
+function findItemEnd(code: string[], startIndex: number): number {
+    let braces = 0;
+    let nesting = 0;
+
+    for (let j = startIndex; j < code.length; j++) {
+        for (const char of code[j]) {
+            if (char === '(' || char === '[') nesting++;
+            else if (char === ')' || char === ']') nesting--;
+            else if (char === '{') braces++;
+            else if (char === '}') {
+                braces--;
+                if (braces === 0) return j + 1;
+            } else if (char === ';' && braces === 0 && nesting === 0) {
+                return j + 1;
+            }
+        }
+    }
+
+    return code.length;
+}
+
+/**
+ * Replace the contents of comments, strings and char literals with spaces,
+ * keeping line breaks so line numbers still match
+ */
+function blankOutLiterals(content: string): string {
+    let output = '';
+    let i = 0;
+
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+    while (i < content.length) {
+        const char = content[i];
+        const next = content[i + 1];
+
+        // Line comment
+        if (char === '/' && next === '/') {
+            const end = content.indexOf('\n', i);
+            const stop = end === -1 ? content.length : end;
+            output += blank(content.slice(i, stop));
+            i = stop;
+            continue;
+        }
+
+        // Block comment (Rust allows nesting)
+        if (char === '/' && next === '*') {
+            let depth = 0;
+            let j = i;
+            while (j < content.length) {
+                if (content[j] === '/' && content[j + 1] === '*') {
+                    depth++;
+                    j += 2;
+                } else if (content[j] === '*' && content[j + 1] === '/') {
+                    depth--;
+                    j += 2;
+                    if (depth === 0) break;
+                } else {
+                    j++;
+                }
+            }
+            output += blank(content.slice(i, j));
+            i = j;
+            continue;
+        }
+
+        // Raw string: r"..." / r#"..."# / br#"..."#
+        const raw = /^b?r(#*)"/.exec(content.slice(i, i + 40));
+        if (raw && !/[a-zA-Z0-9_]/.test(content[i - 1] || '')) {
+            const terminator = '"' + raw[1];
+            const end = content.indexOf(terminator, i + raw[0].length);
+            const stop = end === -1 ? content.length : end + terminator.length;
+            output += '""' + blank(content.slice(i + 2, stop));
+            i = stop;
+            continue;
+        }
+
+        // String literal
+        if (char === '"') {
+            let j = i + 1;
+            while (j < content.length && content[j] !== '"') {
+                if (content[j] === '\\') j++;
+                j++;
+            }
+            output += '"' + blank(content.slice(i + 1, j)) + '"';
+            i = j + 1;
+            continue;
+        }
+
+        // Char literal ('x', '\n', '\u{1F600}') - but not a lifetime ('a)
+        if (char === '\'') {
+            const charLiteral = /^'(\\(?:u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^\\'\n])'/.exec(content.slice(i, i + 12));
+            if (charLiteral) {
+                output += '\'' + blank(charLiteral[0].slice(1, -1)) + '\'';
+                i += charLiteral[0].length;
+                continue;
+            }
+        }
+
+        output += char;
+        i++;
+    }
+
+    return output;
+}
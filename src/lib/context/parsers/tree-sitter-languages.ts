@@ -0,0 +1,28 @@
+/**
+ * Languages parsed by the generic tree-sitter parser
+ *
+ * Adding a language means adding an entry here and query files under
+ * queries/<language>/ (see tree-sitter-parser.ts for the capture names).
+ * Languages with a dedicated parser are registered first and keep it.
+ */
+
+export interface TreeSitterLanguage {
+    /** Language id used in FileMetadata and by the file tree */
+    language: string;
+    /** Grammar name in tree-sitter-wasms (out/tree-sitter-<grammar>.wasm) */
+    grammar: string;
+    /** File extensions without the dot */
+    extensions: string[];
+    /** Prepended when parsing a single line for references, e.g. so PHP isn't read as HTML */
+    linePrefix?: string;
+}
+
+export const TREE_SITTER_LANGUAGES: TreeSitterLanguage[] = [
+    { language: 'ruby', grammar: 'ruby', extensions: ['rb'] },
+    { language: 'php', grammar: 'php', extensions: ['php'], linePrefix: '<?php ' },
+    { language: 'csharp', grammar: 'c_sharp', extensions: ['cs'] },
+    { language: 'kotlin', grammar: 'kotlin', extensions: ['kt', 'kts'] },
+    { language: 'swift', grammar: 'swift', extensions: ['swift'] },
+    // Scala 2 only allows definitions at the top level
+    { language: 'scala', grammar: 'scala', extensions: ['scala', 'sc'], linePrefix: 'object Line { ' }
+];
@@ -0,0 +1,420 @@
+/**
+ * Query-driven tree-sitter parser
+ *
+ * One LanguageParser for any grammar in tree-sitter-wasms, configured by a
+ * TreeSitterLanguage entry and query files in queries/<language>/
+ * (imports.scm, definitions.scm, references.scm; each optional).
+ *
+ * Capture names:
+ * - definitions: `@definition.<kind>` on the declaration node with `@name`
+ *   inside it. Kinds are function, method, class, module, interface, type,
+ *   constant and variable; a function nested in a class-like definition becomes
+ *   a method. Optional `@parent` names the owner explicitly (Lua `function M.f`)
+ *   and `@private` marks the definition as not exported. `@container` scopes
+ *   nested definitions under its `@name` without being one (Swift extensions).
+ *   When patterns overlap on a node, the earliest pattern decides the kind.
+ * - imports: `@import` on the statement with `@source`, or `@source.relative`
+ *   for a path relative to the importing file, plus optional `@symbol`
+ *   (repeatable), `@alias` and `@wildcard`. Matches on the same statement merge.
+ * - references: `@reference` on identifiers, for extractSymbolsFromLine.
+ *
+ * Captures whose names start with an underscore are free for predicates.
+ * Documentation is the run of comments directly above a definition.
+ */
+
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import path from 'path';
+import { Query, type Node, type Parser } from 'web-tree-sitter';
+import type {
+    FileMetadata,
+    SymbolDefinition,
+    ImportStatement,
+    LanguageParser
+} from '../types';
+import { getTreeSitterParser, parseWithTreeSitter, startLineOf, endLineOf } from './tree-sitter';
+import type { TreeSitterLanguage } from './tree-sitter-languages';
+
+const QUERY_DIR = path.join(process.cwd(), 'src', 'lib', 'context', 'parsers', 'queries');
+
+const QUERY_KINDS = ['imports', 'definitions', 'references'] as const;
+type QueryKind = typeof QUERY_KINDS[number];
+
+const DEFINITION_TYPES: Record<string, SymbolDefinition['type']> = {
+    function: 'function',
+    method: 'method',
+    class: 'class',
+    module: 'class',
+    interface: 'interface',
+    type: 'type',
+    constant: 'constant',
+    variable: 'variable'
+};
+
+/** Definition kinds whose nested functions are methods */
+const CONTAINER_KINDS = new Set(['class', 'module', 'interface', 'type']);
+
+interface CapturedDefinition {
+    node: Node;
+    kind: string;
+    name: string;
+    parent?: string;
+    isPrivate: boolean;
+    isContainer: boolean;
+    patternIndex: number;
+}
+
+interface CapturedImport {
+    node: Node;
+    source?: string;
+    isRelative: boolean;
+    symbols: string[];
+    alias?: string;
+    isWildcard: boolean;
+}
+
+export class TreeSitterParser implements LanguageParser {
+    language: string;
+    extensions: string[];
+
+    private queries: Promise<Partial<Record<QueryKind, Query>>> | null = null;
+    // Set once the queries have loaded, for the synchronous extractSymbolsFromLine
+    private lineParser: Parser | null = null;
+    private referenceQuery: Query | null = null;
+
+    constructor(private readonly spec: TreeSitterLanguage) {
+        this.language = spec.language;
+        this.extensions = spec.extensions;
+    }
+
+    async parseFile(filePath: string, content: string): Promise<FileMetadata> {
+        const stats = await fs.stat(filePath);
+        const hash = crypto.createHash('md5').update(content).digest('hex');
+
+        const metadata: FileMetadata = {
+            path: filePath,
+            language: this.language,
+            exports: [],
+            imports: [],
+            definitions: [],
+            lastModified: stats.mtimeMs,
+            hash,
+            size: stats.size,
+            errors: []
+        };
+
+        try {
+            const queries = await this.loadQueries();
+            const tree = await parseWithTreeSitter(this.spec.grammar, content);
+
+            try {
+                if (queries.imports) {
+                    metadata.imports = this.extractImports(queries.imports, tree.rootNode);
+                }
+                if (queries.definitions) {
+                    metadata.definitions = this.extractDefinitions(queries.definitions, tree.rootNode, content);
+                }
+                metadata.exports = metadata.definitions.filter(def => def.isExported);
+            } finally {
+                tree.delete();
+            }
+
+        } catch (error: any) {
+            metadata.errors = [error.message];
+        }
+
+        return metadata;
+    }
+
+    extractSymbolsFromLine(line: string): string[] {
+        if (!this.lineParser || !this.referenceQuery) {
+            // Grammar not loaded yet (e.g. graph came from cache): start loading
+            // it and fall back to calls and member access for this line
+            this.loadQueries().catch(() => undefined);
+            const symbols = [
+                ...Array.from(line.matchAll(/\b([A-Za-z_$][\w$]*)\s*\(/g), match => match[1]),
+                ...Array.from(line.matchAll(/\b([A-Za-z_$][\w$]*)(?:\.|::|->)/g), match => match[1])
+            ];
+            return [...new Set(symbols)];
+        }
+
+        const tree = this.lineParser.parse((this.spec.linePrefix ?? '') + line);
+        if (!tree) return [];
+
+        try {
+            const symbols = this.referenceQuery.captures(tree.rootNode)
+                .filter(capture => capture.name === 'reference')
+                .map(capture => capture.node.text);
+            return [...new Set(symbols)];
+        } finally {
+            tree.delete();
+        }
+    }
+
+    private loadQueries(): Promise<Partial<Record<QueryKind, Query>>> {
+        if (!this.queries) {
+            this.queries = this.compileQueries();
+            // Allow a failed load to be retried on the next file
+            this.queries.catch(() => { this.queries = null; });
+        }
+        return this.queries;
+    }
+
+    private async compileQueries(): Promise<Partial<Record<QueryKind, Query>>> {
+        const parser = await getTreeSitterParser(this.spec.grammar);
+        const queries: Partial<Record<QueryKind, Query>> = {};
+
+        for (const kind of QUERY_KINDS) {
+            let source: string;
+            try {
+                source = await fs.readFile(path.join(QUERY_DIR, this.language, `${kind}.scm`), 'utf-8');
+            } catch {
+                continue;
+            }
+
+            try {
+                queries[kind] = new Query(parser.language!, source);
+            } catch (error: any) {
+                throw new Error(`Invalid ${this.language} ${kind} query: ${error.message}`);
+            }
+        }
+
+        this.lineParser = parser;
+        this.referenceQuery = queries.references ?? null;
+        return queries;
+    }
+
+    private extractImports(query: Query, root: Node): ImportStatement[] {
+        const statements = new Map<number, CapturedImport>();
+
+        for (const match of query.matches(root)) {
+            const node = match.captures.find(capture => capture.name === 'import')?.node;
+            if (!node) continue;
+
+            let captured = statements.get(node.id);
+            if (!captured) {
+                captured = { node, isRelative: false, symbols: [], isWildcard: false };
+                statements.set(node.id, captured);
+            }
+
+            for (const capture of match.captures) {
+                const text = unquote(capture.node.text);
+                switch (capture.name) {
+                    case 'source':
+                        captured.source = text;
+                        break;
+                    case 'source.relative':
+                        captured.source = text.startsWith('.') ? text : `./${text.replace(/^\/+/, '')}`;
+                        captured.isRelative = true;
+                        break;
+                    case 'symbol':
+                        if (!captured.symbols.includes(text)) captured.symbols.push(text);
+                        break;
+                    case 'alias':
+                        captured.alias = text;
+                        break;
+                    case 'wildcard':
+                        captured.isWildcard = true;
+                        break;
+                }
+            }
+        }
+
+        const imports: ImportStatement[] = [];
+        const ordered = Array.from(statements.values()).sort((a, b) => a.node.startIndex - b.node.startIndex);
+
+        for (const captured of ordered) {
+            const source = captured.source;
+            if (!source) continue;
+
+            const statement: ImportStatement = {
+                source,
+                from: source,
+                type: 'named',
+                symbols: captured.symbols,
+                line: startLineOf(captured.node),
+                isExternal: !captured.isRelative && !source.startsWith('.')
+            };
+
+            if (captured.alias) {
+                statement.type = 'default';
+                statement.symbols = [captured.alias];
+                statement.alias = captured.alias;
+            } else if (captured.isWildcard) {
+                statement.type = 'namespace';
+                statement.symbols = ['*'];
+            } else if (captured.symbols.length === 0) {
+                // `import a.b.C`, `require 'foo/bar.rb'`: the last segment
+                const last = source.includes('/')
+                    ? path.basename(source, path.extname(source))
+                    : source.split(/\.|::|\\/).filter(Boolean).pop();
+                statement.symbols = [last || source];
+            }
+
+            imports.push(statement);
+        }
+
+        return imports;
+    }
+
+    private extractDefinitions(query: Query, root: Node, content: string): SymbolDefinition[] {
+        const captured = new Map<number, CapturedDefinition>();
+
+        for (const match of query.matches(root)) {
+            let node: Node | undefined;
+            let kind = '';
+            let name: string | undefined;
+            let parent: string | undefined;
+            let isPrivate = false;
+            let isContainer = false;
+
+            for (const capture of match.captures) {
+                if (capture.name.startsWith('definition.')) {
+                    node = capture.node;
+                    kind = capture.name.slice('definition.'.length);
+                } else if (capture.name === 'container') {
+                    node = capture.node;
+                    isContainer = true;
+                } else if (capture.name === 'name') {
+                    name = capture.node.text;
+                } else if (capture.name === 'parent') {
+                    parent = capture.node.text;
+                } else if (capture.name === 'private') {
+                    isPrivate = true;
+                }
+            }
+
+            if (!node || !name || (!isContainer && !DEFINITION_TYPES[kind])) continue;
+
+            const existing = captured.get(node.id);
+            if (!existing) {
+                captured.set(node.id, { node, kind, name, parent, isPrivate, isContainer, patternIndex: match.patternIndex });
+                continue;
+            }
+
+            existing.isPrivate = existing.isPrivate || isPrivate;
+            if (match.patternIndex < existing.patternIndex) {
+                Object.assign(existing, { kind, name, parent: parent ?? existing.parent, isContainer, patternIndex: match.patternIndex });
+            }
+        }
+
+        // Outer definitions first so a stack tracks the innermost enclosing one
+        const ordered = Array.from(captured.values()).sort((a, b) =>
+            a.node.startIndex - b.node.startIndex || b.node.endIndex - a.node.endIndex
+        );
+
+        const comments = collectComments(root);
+        const lines = content.split('\n');
+        const definitions: SymbolDefinition[] = [];
+        const enclosing: CapturedDefinition[] = [];
+
+        for (const def of ordered) {
+            while (enclosing.length > 0 && enclosing[enclosing.length - 1].node.endIndex <= def.node.startIndex) {
+                enclosing.pop();
+            }
+            const outer = enclosing[enclosing.length - 1];
+            enclosing.push(def);
+
+            if (def.isContainer) continue;
+
+            const owner = def.parent ?? outer?.name;
+            const inType = def.parent !== undefined ||
+                (outer !== undefined && (outer.isContainer || CONTAINER_KINDS.has(outer.kind)));
+
+            let type = DEFINITION_TYPES[def.kind];
+            if (type === 'function' && inType) type = 'method';
+
+            const scope: SymbolDefinition['scope'] = !owner ? 'global' : (inType ? 'class' : 'local');
+
+            definitions.push({
+                name: def.name,
+                type,
+                startLine: startLineOf(def.node),
+                endLine: endLineOf(def.node),
+                signature: signatureOf(def.node.text),
+                documentation: findDocumentation(def.node, comments, lines),
+                isExported: !def.isPrivate && scope !== 'local',
+                exportType: !def.isPrivate && scope === 'global' ? 'named' : undefined,
+                scope,
+                parent: owner
+            });
+        }
+
+        return definitions;
+    }
+}
+
+/**
+ * Comment nodes keyed by the row they end on (grammars name them
+ * comment, line_comment, multiline_comment, ...)
+ */
+function collectComments(root: Node): Map<number, Node> {
+    const comments = new Map<number, Node>();
+    const cursor = root.walk();
+
+    try {
+        for (;;) {
+            if (cursor.nodeType.includes('comment')) {
+                comments.set(cursor.endPosition.row, cursor.currentNode);
+            } else if (cursor.gotoFirstChild()) {
+                continue;
+            }
+
+            while (!cursor.gotoNextSibling()) {
+                if (!cursor.gotoParent()) return comments;
+            }
+        }
+    } finally {
+        cursor.delete();
+    }
+}
+
+/**
+ * Consecutive comments ending directly above a definition, each on its own line
+ */
+function findDocumentation(node: Node, comments: Map<number, Node>, lines: string[]): string | undefined {
+    const parts: string[] = [];
+    let row = node.startPosition.row - 1;
+
+    for (let comment = comments.get(row); comment; comment = comments.get(row)) {
+        const { row: startRow, column } = comment.startPosition;
+        // Skip trailing comments after code on the previous line
+        if (lines[startRow].slice(0, column).trim() !== '') break;
+
+        parts.unshift(cleanComment(comment.text));
+        row = startRow - 1;
+    }
+
+    return parts.join('\n').trim() || undefined;
+}
+
+function cleanComment(text: string): string {
+    return text
+        .split('\n')
+        .map(line => line.trim()
+            .replace(/^(\/\*\*?|\/\/\/?|#+|--+(\[\[)?|\*(?!\/))\s?/, '')
+            .replace(/\s*(\*\/|\]\])$/, ''))
+        .join('\n')
+        .trim();
+}
+
+/**
+ * First line of a definition, cut before a body opened on the same line
+ */
+function signatureOf(text: string): string {
+    const line = text.split('\n')[0].trim();
+    let depth = 0;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '(' || char === '[') depth++;
+        else if (char === ')' || char === ']') depth--;
+        else if (char === '{' && depth === 0) return line.slice(0, i).trim();
+    }
+
+    return line.replace(/;$/, '');
+}
+
+function unquote(text: string): string {
+    return text.replace(/^['"`]|['"`]$/g, '');
+}
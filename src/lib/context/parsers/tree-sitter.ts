@@ -0,0 +1,77 @@
+/**
+ * Tree-sitter runtime
+ *
+ * Loads the web-tree-sitter WASM runtime once and grammars from the
+ * tree-sitter-wasms package on demand, so no native build is needed.
+ * Parsing is synchronous, so one parser per grammar is shared between
+ * concurrent parseFile calls.
+ */
+
+import path from 'path';
+import { Parser, Language, type Node, type Tree } from 'web-tree-sitter';
+
+const RUNTIME_WASM = path.join(process.cwd(), 'node_modules', 'web-tree-sitter', 'tree-sitter.wasm');
+const GRAMMAR_DIR = path.join(process.cwd(), 'node_modules', 'tree-sitter-wasms', 'out');
+
+let runtimeReady: Promise<void> | null = null;
+const parsers = new Map<string, Promise<Parser>>();
+
+/**
+ * Parser for a grammar name as used by tree-sitter-wasms ('python', 'c_sharp', ...)
+ */
+export function getTreeSitterParser(grammar: string): Promise<Parser> {
+    let parser = parsers.get(grammar);
+    if (!parser) {
+        parser = createParser(grammar);
+        parsers.set(grammar, parser);
+        // Allow a failed load to be retried on the next file
+        parser.catch(() => parsers.delete(grammar));
+    }
+    return parser;
+}
+
+/**
+ * Parse source text; the caller owns the tree and must delete() it
+ */
+export async function parseWithTreeSitter(grammar: string, content: string): Promise<Tree> {
+    const parser = await getTreeSitterParser(grammar);
+    const tree = parser.parse(content);
+    if (!tree) {
+        throw new Error(`tree-sitter could not parse ${grammar} source`);
+    }
+    return tree;
+}
+
+/**
+ * 1-indexed first line of a node
+ */
+export function startLineOf(node: Node): number {
+    return node.startPosition.row + 1;
+}
+
+/**
+ * 1-indexed last line of a node
+ */
+export function endLineOf(node: Node): number {
+    return node.endPosition.row + 1;
+}
+
+/**
+ * Non-null named children (web-tree-sitter types them as nullable)
+ */
+export function namedChildrenOf(node: Node): Node[] {
+    return node.namedChildren.filter((child): child is Node => child !== null);
+}
+
+async function createParser(grammar: string): Promise<Parser> {
+    if (!runtimeReady) {
+        runtimeReady = Parser.init({ locateFile: () => RUNTIME_WASM });
+        runtimeReady.catch(() => { runtimeReady = null; });
+    }
+    await runtimeReady;
+
+    const language = await Language.load(path.join(GRAMMAR_DIR, `tree-sitter-${grammar}.wasm`));
+    const parser = new Parser();
+    parser.setLanguage(language);
+    return parser;
+}
@@ -0,0 +1,225 @@
+/**
+ * Project Summary
+ *
+ * Condenses a dependency graph into a directory-level view (modules, entry
+ * points, hub files and module dependencies) that fits in a model prompt.
+ */
+
+import path from 'path';
+import { resolveImportEdges } from './dependency-graph-builder';
+import type { DependencyGraph, ImportEdge, ModuleSummary, ProjectStructureSummary } from './types';
+
+const MAX_MODULES = 40;
+const MAX_EXPORTS_PER_MODULE = 10;
+const MAX_ENTRY_POINTS = 15;
+const MAX_HUB_FILES = 10;
+const MAX_CYCLES = 10;
+const MODULE_DEPTH = 3; // Directory segments used to group files into modules
+
+// File names that conventionally start a program or framework route
+const ENTRY_POINT_NAMES = /^(main|index|app|server|cli|page|route|layout|middleware|__main__|manage|wsgi|asgi|Main|Application)\./;
+
+/**
+ * Summarize a dependency graph for project-level explanations
+ */
+export function summarizeProjectStructure(graph: DependencyGraph): ProjectStructureSummary {
+    const edges = resolveImportEdges(graph);
+    const relative = (filePath: string) => toRelative(graph.projectRoot, filePath);
+
+    // In-degree per file, used for hubs and entry point detection
+    const importedBy = new Map<string, number>();
+    const importsCount = new Map<string, number>();
+    for (const edge of edges) {
+        importedBy.set(edge.to, (importedBy.get(edge.to) || 0) + 1);
+        importsCount.set(edge.from, (importsCount.get(edge.from) || 0) + 1);
+    }
+
+    // Group files into directory modules
+    const modules = new Map<string, ModuleSummary>();
+    for (const [filePath, file] of graph.files) {
+        const modulePath = getModulePath(relative(filePath));
+
+        let moduleSummary = modules.get(modulePath);
+        if (!moduleSummary) {
+            moduleSummary = { path: modulePath, fileCount: 0, languages: {}, exports: [], dependsOn: [], usedBy: [] };
+            modules.set(modulePath, moduleSummary);
+        }
+
+        moduleSummary.fileCount++;
+        moduleSummary.languages[file.language] = (moduleSummary.languages[file.language] || 0) + 1;
+
+        for (const exported of file.exports) {
+            if (moduleSummary.exports.length < MAX_EXPORTS_PER_MODULE && !moduleSummary.exports.includes(exported.name)) {
+                moduleSummary.exports.push(exported.name);
+            }
+        }
+    }
+
+    // Module-level dependencies
+    for (const edge of edges) {
+        const fromModule = getModulePath(relative(edge.from));
+        const toModule = getModulePath(relative(edge.to));
+        if (fromModule === toModule) continue;
+
+        const from = modules.get(fromModule)!;
+        const to = modules.get(toModule)!;
+        if (!from.dependsOn.includes(toModule)) from.dependsOn.push(toModule);
+        if (!to.usedBy.includes(fromModule)) to.usedBy.push(fromModule);
+    }
+
+    // Entry points: files nothing imports, preferring conventional names
+    const entryPoints = Array.from(graph.files.keys())
+        .filter(filePath => !importedBy.has(filePath))
+        .map(filePath => ({
+            filePath,
+            score: (ENTRY_POINT_NAMES.test(path.basename(filePath)) ? 10 : 0) + (importsCount.get(filePath) || 0)
+        }))
+        .filter(candidate => candidate.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_ENTRY_POINTS)
+        .map(candidate => relative(candidate.filePath));
+
+    const hubFiles = Array.from(importedBy.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_HUB_FILES)
+        .map(([filePath, count]) => ({ file: relative(filePath), importedBy: count }));
+
+    return {
+        projectRoot: graph.projectRoot,
+        stats: graph.stats,
+        modules: Array.from(modules.values())
+            .sort((a, b) => b.fileCount - a.fileCount)
+            .slice(0, MAX_MODULES),
+        entryPoints,
+        hubFiles,
+        cycles: findImportCycles(edges)
+            .slice(0, MAX_CYCLES)
+            .map(cycle => cycle.map(relative)),
+        totalEdges: edges.length
+    };
+}
+
+/**
+ * Find groups of files that import each other in a cycle
+ *
+ * Returns the strongly connected components (Tarjan) with more than one file,
+ * largest first.
+ */
+export function findImportCycles(edges: ImportEdge[]): string[][] {
+    const adjacency = new Map<string, string[]>();
+    for (const edge of edges) {
+        if (!adjacency.has(edge.from)) adjacency.set(edge.from, []);
+        if (!adjacency.has(edge.to)) adjacency.set(edge.to, []);
+        adjacency.get(edge.from)!.push(edge.to);
+    }
+
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    // Iterative to stay safe on deep import chains
+    for (const start of adjacency.keys()) {
+        if (indices.has(start)) continue;
+
+        const work: Array<{ node: string; childIndex: number }> = [{ node: start, childIndex: 0 }];
+        indices.set(start, nextIndex);
+        lowLinks.set(start, nextIndex);
+        nextIndex++;
+        stack.push(start);
+        onStack.add(start);
+
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            const neighbours = adjacency.get(frame.node)!;
+
+            if (frame.childIndex < neighbours.length) {
+                const next = neighbours[frame.childIndex++];
+                if (!indices.has(next)) {
+                    indices.set(next, nextIndex);
+                    lowLinks.set(next, nextIndex);
+                    nextIndex++;
+                    stack.push(next);
+                    onStack.add(next);
+                    work.push({ node: next, childIndex: 0 });
+                } else if (onStack.has(next)) {
+                    lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node)!, indices.get(next)!));
+                }
+                continue;
+            }
+
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].node;
+                lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.node)!));
+            }
+
+            if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== frame.node);
+
+                if (component.length > 1) {
+                    components.push(component);
+                }
+            }
+        }
+    }
+
+    return components.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Render a project summary as plain text for a prompt
+ */
+export function formatProjectSummary(summary: ProjectStructureSummary): string {
+    const lines: string[] = [];
+
+    lines.push(`Project: ${path.basename(summary.projectRoot)}`);
+    lines.push(`Files: ${summary.stats.totalFiles}, symbols: ${summary.stats.totalSymbols}, internal import edges: ${summary.totalEdges}`);
+    lines.push(`Languages: ${Object.entries(summary.stats.languageBreakdown).map(([lang, count]) => `${lang} (${count})`).join(', ')}`);
+
+    lines.push('\nMODULES (directory, file count, exports, dependencies):');
+    for (const moduleSummary of summary.modules) {
+        lines.push(`- ${moduleSummary.path} [${moduleSummary.fileCount} files]`);
+        if (moduleSummary.exports.length > 0) lines.push(`    exports: ${moduleSummary.exports.join(', ')}`);
+        if (moduleSummary.dependsOn.length > 0) lines.push(`    imports from: ${moduleSummary.dependsOn.join(', ')}`);
+        if (moduleSummary.usedBy.length > 0) lines.push(`    used by: ${moduleSummary.usedBy.join(', ')}`);
+    }
+
+    if (summary.entryPoints.length > 0) {
+        lines.push('\nLIKELY ENTRY POINTS (not imported by any project file):');
+        summary.entryPoints.forEach(file => lines.push(`- ${file}`));
+    }
+
+    if (summary.hubFiles.length > 0) {
+        lines.push('\nMOST IMPORTED FILES:');
+        summary.hubFiles.forEach(hub => lines.push(`- ${hub.file} (imported by ${hub.importedBy} files)`));
+    }
+
+    if (summary.cycles.length > 0) {
+        lines.push('\nIMPORT CYCLES:');
+        summary.cycles.forEach(cycle => lines.push(`- ${cycle.join(' <-> ')}`));
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Directory of a relative file path, truncated to MODULE_DEPTH segments
+ */
+function getModulePath(relativeFile: string): string {
+    const dir = path.posix.dirname(relativeFile);
+    if (dir === '.') return '.';
+    return dir.split('/').slice(0, MODULE_DEPTH).join('/');
+}
+
+function toRelative(projectRoot: string, filePath: string): string {
+    return path.relative(projectRoot, filePath).split(path.sep).join('/');
+}
@@ -6,15 +6,16 @@
  */
 
 import fs from 'fs/promises';
-import path from 'path';
 import type {
     DependencyGraph,
     SymbolReference,
     CodeBlock,
     SymbolMetadata,
-    FileMetadata
+    FileMetadata,
+    SymbolUsage
 } from './types';
 import { parserRegistry } from './parsers';
+import { findPackagePeers, resolveImportTargets } from './module-resolution';
 
 /**
  * Detect symbols referenced in a line of code
@@ -38,6 +39,21 @@ export async function resolveSymbol(
     symbolName: string,
     currentFile: string,
     graph: DependencyGraph
+): Promise<SymbolReference> {
+    const reference = await findDefinition(symbolName, currentFile, graph);
+
+    const language = graph.files.get(currentFile)?.language;
+    if (language === 'c' || language === 'cpp') {
+        return linkDeclaration(reference, graph);
+    }
+
+    return reference;
+}
+
+async function findDefinition(
+    symbolName: string,
+    currentFile: string,
+    graph: DependencyGraph
 ): Promise<SymbolReference> {
     // Check if symbol is defined locally in the current file
     const currentFileMetadata = graph.files.get(currentFile);
@@ -66,9 +82,13 @@ export async function resolveSymbol(
     // Check if symbol is imported in the current file
     if (currentFileMetadata) {
         for (const importStmt of currentFileMetadata.imports) {
-            if (importStmt.symbols.includes(symbolName) || importStmt.alias === symbolName) {
+            // Wildcard imports (`import com.acme.*`, `from x import *`) may or may not provide it
+            const isWildcard = importStmt.symbols.includes('*');
+
+            if (importStmt.symbols.includes(symbolName) || importStmt.alias === symbolName || isWildcard) {
                 // This symbol is imported, try to resolve it
                 if (importStmt.isExternal) {
+                    if (isWildcard) continue;
                     return {
                         name: symbolName,
                         type: 'external',
@@ -76,21 +96,22 @@ export async function resolveSymbol(
                     };
                 }
 
-                // Resolve the import path
-                const importedFilePath = resolveImportPath(
+                // Resolve the import path (a wildcard package import can name several files)
+                const importedFilePaths = resolveImportTargets(
                     importStmt.from,
                     currentFile,
-                    graph.projectRoot,
-                    currentFileMetadata.language
+                    currentFileMetadata.language,
+                    graph,
+                    importStmt
                 );
 
-                if (importedFilePath && graph.files.has(importedFilePath)) {
-                    const importedFile = graph.files.get(importedFilePath)!;
-                    const exportedSymbol = importedFile.exports.find(
+                for (const importedFilePath of importedFilePaths) {
+                    const importedFile = graph.files.get(importedFilePath);
+                    const exportedSymbol = importedFile?.exports.find(
                         exp => exp.name === symbolName
                     );
 
-                    if (exportedSymbol) {
+                    if (importedFile && exportedSymbol) {
                         return {
                             name: symbolName,
                             type: 'project',
@@ -109,6 +130,29 @@ export async function resolveSymbol(
         }
     }
 
+    // Declarations in the same Java or Go package are visible without an import, even unexported ones
+    for (const peerPath of findPackagePeers(currentFile, graph)) {
+        const peerFile = graph.files.get(peerPath)!;
+        const peerDef = peerFile.definitions.find(
+            def => def.name === symbolName && def.scope === 'global'
+        );
+
+        if (peerDef) {
+            return {
+                name: symbolName,
+                type: 'project',
+                definitionFile: peerPath,
+                definition: await extractCodeBlock(
+                    peerPath,
+                    peerDef.startLine,
+                    peerDef.endLine,
+                    peerFile.language
+                ),
+                confidence: 1.0
+            };
+        }
+    }
+
     // Check if symbol exists anywhere in the project
     const symbolMetadataArray = graph.symbols.get(symbolName);
     if (symbolMetadataArray && symbolMetadataArray.length > 0) {
@@ -140,6 +184,48 @@ export async function resolveSymbol(
     };
 }
 
+/**
+ * C/C++ functions are usually declared in a header and defined in a source
+ * file. Whichever one resolution found, look up the other so the reference
+ * carries the body as `definition` and the prototype as `declaration`.
+ */
+async function linkDeclaration(reference: SymbolReference, graph: DependencyGraph): Promise<SymbolReference> {
+    if (!reference.definitionFile || !reference.definition) return reference;
+
+    const found = graph.files.get(reference.definitionFile)?.definitions.find(
+        def => def.name === reference.name && def.startLine === reference.definition!.startLine
+    );
+    if (!found || (found.type !== 'function' && found.type !== 'method')) return reference;
+
+    const candidates = (graph.symbols.get(reference.name) || []).filter(symbol =>
+        !!symbol.definition.isDeclaration !== !!found.isDeclaration &&
+        symbol.definition.parent === found.parent &&
+        symbol.definedIn !== reference.definitionFile
+    );
+    if (candidates.length === 0) return reference;
+
+    // Prefer the matching pair: widget.h <-> widget.cpp
+    const stem = (filePath: string) => filePath.replace(/\.[^./\\]+$/, '');
+    const counterpart = candidates.find(symbol => stem(symbol.definedIn) === stem(reference.definitionFile!)) || candidates[0];
+    const counterpartBlock = await extractCodeBlock(
+        counterpart.definedIn,
+        counterpart.location.startLine,
+        counterpart.location.endLine,
+        graph.files.get(counterpart.definedIn)?.language || reference.definition.language
+    );
+
+    if (found.isDeclaration) {
+        return {
+            ...reference,
+            definitionFile: counterpart.definedIn,
+            definition: counterpartBlock,
+            declaration: reference.definition
+        };
+    }
+
+    return { ...reference, declaration: counterpartBlock };
+}
+
 /**
  * Resolve multiple symbols at once
  */
@@ -224,38 +310,55 @@ export async function getReferencedSymbols(
 }
 
 /**
- * Resolve import path (same logic as in dependency-graph-builder)
+ * Find the lines that reference a symbol across the project
+ *
+ * Scans the files recorded in SymbolMetadata.usedIn (plus the defining file
+ * itself) for whole-word occurrences of the name.
  */
-function resolveImportPath(
-    importPath: string,
-    currentFile: string,
-    projectRoot: string,
-    language: string
-): string | null {
-    try {
-        // Relative import
-        if (importPath.startsWith('.')) {
-            const currentDir = path.dirname(currentFile);
-            let resolvedPath = path.resolve(currentDir, importPath);
-
-            // Try to add extension if not present
-            if (!path.extname(resolvedPath)) {
-                const extensions = language === 'python'
-                    ? ['.py']
-                    : ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
-
-                for (const ext of extensions) {
-                    return resolvedPath + ext;
+export async function findSymbolReferences(
+    symbolName: string,
+    graph: DependencyGraph,
+    definitionFile?: string,
+    maxResults: number = 200
+): Promise<SymbolUsage[]> {
+    const symbolMetadataArray = graph.symbols.get(symbolName) || [];
+    const matches = definitionFile
+        ? symbolMetadataArray.filter(meta => meta.definedIn === definitionFile)
+        : symbolMetadataArray;
+
+    const files = new Set<string>();
+    for (const meta of matches) {
+        files.add(meta.definedIn);
+        meta.usedIn.forEach(file => files.add(file));
+    }
+
+    // Definition lines are not references
+    const definitionRanges = matches.map(meta => ({ file: meta.definedIn, start: meta.location.startLine }));
+
+    const escaped = symbolName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`(^|[^A-Za-z0-9_$])${escaped}(?![A-Za-z0-9_$])`);
+    const usages: SymbolUsage[] = [];
+
+    for (const filePath of files) {
+        try {
+            const content = await fs.readFile(filePath, 'utf-8');
+            const lines = content.split('\n');
+
+            for (let i = 0; i < lines.length && usages.length < maxResults; i++) {
+                const lineNum = i + 1;
+                if (definitionRanges.some(def => def.file === filePath && def.start === lineNum)) {
+                    continue;
+                }
+                if (pattern.test(lines[i])) {
+                    usages.push({ filePath, line: lineNum, text: lines[i].trim() });
                 }
             }
-
-            return resolvedPath;
+        } catch (error) {
+            // File might have been deleted since the graph was built
         }
-
-        return null;
-    } catch (error) {
-        return null;
     }
+
+    return usages;
 }
 
 /**
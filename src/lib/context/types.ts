@@ -49,6 +49,10 @@ export interface SymbolDefinition {
     scope: 'global' | 'class' | 'local';
     /** Parent symbol name if nested (e.g., class name for a method) */
     parent?: string;
+    /** Declared without a body, e.g. a C/C++ prototype in a header */
+    isDeclaration?: boolean;
+    /** Decorators applied to the definition, without the leading '@' (Python) */
+    decorators?: string[];
 }
 
 /**
@@ -59,6 +63,8 @@ export interface FileMetadata {
     path: string;
     /** Programming language */
     language: string;
+    /** Declared package (Java `package` statement, Go package clause), if any */
+    packageName?: string;
     /** Symbols exported from this file */
     exports: SymbolDefinition[];
     /** Import statements in this file */
@@ -114,6 +120,62 @@ export interface DependencyGraph {
         totalImports: number;
         languageBreakdown: Record<string, number>;
     };
+    /** File filters the graph was built with */
+    filters?: GraphFileFilters;
+    /** Extra source roots for absolute imports, relative to the project root */
+    sourceRoots?: string[];
+    /** Extra C/C++ include directories, relative to the project root */
+    includePaths?: string[];
+}
+
+/**
+ * A resolved import between two files in the project
+ */
+export interface ImportEdge {
+    /** Importing file (absolute path) */
+    from: string;
+    /** Imported file (absolute path) */
+    to: string;
+    /** Symbols imported along this edge */
+    symbols: string[];
+}
+
+/**
+ * A group of files sharing a directory, used for project-level overviews
+ */
+export interface ModuleSummary {
+    /** Directory relative to the project root ('.' for the root itself) */
+    path: string;
+    /** Number of parsed files in the module */
+    fileCount: number;
+    /** Language breakdown within the module */
+    languages: Record<string, number>;
+    /** Most relevant exported symbol names */
+    exports: string[];
+    /** Other modules this module imports from */
+    dependsOn: string[];
+    /** Other modules importing from this module */
+    usedBy: string[];
+}
+
+/**
+ * Condensed view of a dependency graph, small enough to hand to a model
+ */
+export interface ProjectStructureSummary {
+    /** Project root directory */
+    projectRoot: string;
+    /** Graph statistics */
+    stats: DependencyGraph['stats'];
+    /** Directory-level modules, largest first */
+    modules: ModuleSummary[];
+    /** Likely entry points (relative paths) */
+    entryPoints: string[];
+    /** Most imported files (relative paths) */
+    hubFiles: Array<{ file: string; importedBy: number }>;
+    /** Groups of files that import each other (relative paths) */
+    cycles: string[][];
+    /** Number of resolved import edges */
+    totalEdges: number;
 }
 
 /**
@@ -144,10 +206,24 @@ export interface SymbolReference {
     definitionFile?: string;
     /** The code block containing the definition */
     definition?: CodeBlock;
+    /** Separate declaration (e.g. the C/C++ prototype in a header) when the definition lives elsewhere */
+    declaration?: CodeBlock;
     /** Confidence score (0-1) for resolution */
     confidence: number;
 }
 
+/**
+ * A line in a project file where a symbol is referenced
+ */
+export interface SymbolUsage {
+    /** File containing the reference */
+    filePath: string;
+    /** 1-indexed line number */
+    line: number;
+    /** Trimmed text of the line */
+    text: string;
+}
+
 /**
  * Parser interface that all language parsers must implement
  */
@@ -163,15 +239,27 @@ export interface LanguageParser {
 }
 
 /**
- * Options for building the dependency graph
+ * Which files a dependency graph scan covers
  */
-export interface GraphBuildOptions {
-    /** Project root directory */
-    projectRoot: string;
-    /** File patterns to include (glob) */
+export interface GraphFileFilters {
+    /** File patterns to include (glob, relative to the project root) */
     include?: string[];
-    /** File patterns to exclude (glob) */
+    /** File and directory patterns to exclude (glob, relative to the project root) */
     exclude?: string[];
+    /** Skip paths ignored by the project's .gitignore files (default: true) */
+    respectGitignore?: boolean;
+}
+
+/**
+ * Options for building a dependency graph
+ */
+export interface GraphBuildOptions extends GraphFileFilters {
+    /** Project root directory */
+    projectRoot: string;
+    /** Extra source roots for absolute imports such as Python's `src/` layout (relative to the project root) */
+    sourceRoots?: string[];
+    /** Extra C/C++ include directories searched for `#include` (relative to the project root) */
+    includePaths?: string[];
     /** Maximum file size to parse (bytes) */
     maxFileSize?: number;
     /** Whether to skip files with parse errors */
@@ -204,4 +292,7 @@ export interface SerializedGraph {
     projectRoot: string;
     version: string;
     stats: DependencyGraph['stats'];
+    filters?: GraphFileFilters;
+    sourceRoots?: string[];
+    includePaths?: string[];
 }
@@ -1,6 +1,6 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 
-const apiKey = process.env.GEMINI_API_KEY || process.env.OPENAI_API_KEY || ''; // Fallback for transition
+const apiKey = process.env.GEMINI_API_KEY || '';
 
 export const genAI = new GoogleGenerativeAI(apiKey);
-export const model = genAI.getGenerativeModel({ model: "gemini-3-flash-preview" });
+export const hasGeminiKey = apiKey.length > 0;
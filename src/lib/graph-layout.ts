@@ -0,0 +1,110 @@
+/**
+ * Force-directed layout for the dependency graph view.
+ *
+ * A small Fruchterman-Reingold implementation: nodes repel each other, edges
+ * pull their endpoints together, and the temperature cools every iteration.
+ * Deterministic (seeded initial positions) so the same graph keeps its shape.
+ */
+
+export interface LayoutPoint {
+    x: number;
+    y: number;
+}
+
+export interface LayoutOptions {
+    width: number;
+    height: number;
+    iterations?: number;
+}
+
+export function computeForceLayout(
+    nodeIds: string[],
+    edges: Array<{ from: string; to: string }>,
+    options: LayoutOptions
+): Map<string, LayoutPoint> {
+    const { width, height } = options;
+    const iterations = options.iterations ?? 250;
+    const count = nodeIds.length;
+    const positions = new Map<string, LayoutPoint>();
+
+    if (count === 0) return positions;
+
+    // Seed nodes on a circle; the index-based jitter keeps runs reproducible
+    const radius = Math.min(width, height) / 3;
+    const xs = new Float64Array(count);
+    const ys = new Float64Array(count);
+    nodeIds.forEach((_, i) => {
+        const angle = (2 * Math.PI * i) / count;
+        xs[i] = width / 2 + radius * Math.cos(angle) + ((i * 7919) % 13) - 6;
+        ys[i] = height / 2 + radius * Math.sin(angle) + ((i * 104729) % 11) - 5;
+    });
+
+    const indexById = new Map(nodeIds.map((id, i) => [id, i]));
+    const links = edges
+        .map(edge => [indexById.get(edge.from), indexById.get(edge.to)] as const)
+        .filter((link): link is readonly [number, number] => link[0] !== undefined && link[1] !== undefined);
+
+    const k = Math.sqrt((width * height) / count); // Ideal edge length
+    let temperature = width / 10;
+    const cooling = temperature / (iterations + 1);
+
+    const dx = new Float64Array(count);
+    const dy = new Float64Array(count);
+
+    for (let iter = 0; iter < iterations; iter++) {
+        dx.fill(0);
+        dy.fill(0);
+
+        // Repulsion between every pair
+        for (let i = 0; i < count; i++) {
+            for (let j = i + 1; j < count; j++) {
+                let ddx = xs[i] - xs[j];
+                let ddy = ys[i] - ys[j];
+                let dist = Math.sqrt(ddx * ddx + ddy * ddy);
+                if (dist < 0.01) {
+                    ddx = 0.01;
+                    ddy = 0;
+                    dist = 0.01;
+                }
+                const force = (k * k) / dist;
+                const fx = (ddx / dist) * force;
+                const fy = (ddy / dist) * force;
+                dx[i] += fx;
+                dy[i] += fy;
+                dx[j] -= fx;
+                dy[j] -= fy;
+            }
+        }
+
+        // Attraction along edges
+        for (const [a, b] of links) {
+            const ddx = xs[a] - xs[b];
+            const ddy = ys[a] - ys[b];
+            const dist = Math.max(Math.sqrt(ddx * ddx + ddy * ddy), 0.01);
+            const force = (dist * dist) / k;
+            const fx = (ddx / dist) * force;
+            const fy = (ddy / dist) * force;
+            dx[a] -= fx;
+            dy[a] -= fy;
+            dx[b] += fx;
+            dy[b] += fy;
+        }
+
+        // Move, limited by temperature, and keep nodes inside the canvas
+        for (let i = 0; i < count; i++) {
+            const dist = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+            if (dist > 0) {
+                const step = Math.min(dist, temperature);
+                xs[i] += (dx[i] / dist) * step;
+                ys[i] += (dy[i] / dist) * step;
+            }
+            xs[i] = Math.min(width - 20, Math.max(20, xs[i]));
+            ys[i] = Math.min(height - 20, Math.max(20, ys[i]));
+        }
+
+        temperature -= cooling;
+    }
+
+    nodeIds.forEach((id, i) => positions.set(id, { x: xs[i], y: ys[i] }));
+    return positions;
+}
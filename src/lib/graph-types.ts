@@ -0,0 +1,21 @@
+/**
+ * Dependency graph view data, as returned by /api/graph and drawn by the graph explorer.
+ */
+
+export type GraphNode = {
+    id: string; // Absolute path
+    path: string; // Relative to the project root, '/'-separated
+    directory: string;
+    language: string;
+    exports: number;
+    definitions: number;
+    importedBy: number;
+    imports: number;
+    cycle?: number; // Index into `cycles` when the file is part of an import cycle
+};
+
+export type GraphEdge = {
+    from: string;
+    to: string;
+    symbols: string[];
+};
@@ -0,0 +1,59 @@
+/**
+ * Syntax highlighting for the code viewer, backed by shiki.
+ *
+ * A single highlighter is shared by every viewer; grammars are loaded on
+ * first use so opening a Python file doesn't pull in every bundled language.
+ */
+
+import { bundledLanguages, createHighlighter, type BundledLanguage, type BundledTheme, type Highlighter, type ThemedToken } from 'shiki';
+
+export type HighlightMode = 'light' | 'dark';
+
+export interface HighlightedCode {
+    code: string;
+    mode: HighlightMode;
+    lines: ThemedToken[][];
+    fg: string;
+    bg: string;
+}
+
+const THEMES: Record<HighlightMode, BundledTheme> = {
+    dark: 'github-dark-default',
+    light: 'github-light-default'
+};
+
+// Tokenizing huge generated files freezes the tab; show them as plain text
+const MAX_HIGHLIGHT_LINES = 5000;
+
+let highlighterPromise: Promise<Highlighter> | null = null;
+
+function getHighlighter(): Promise<Highlighter> {
+    if (!highlighterPromise) {
+        highlighterPromise = createHighlighter({ themes: Object.values(THEMES), langs: [] });
+    }
+    return highlighterPromise;
+}
+
+/**
+ * Map our language ids (see /api/files) onto shiki grammars, 'text' if unsupported
+ */
+function toShikiLanguage(language: string): BundledLanguage | 'text' {
+    const lang = language.toLowerCase();
+    return lang in bundledLanguages ? lang as BundledLanguage : 'text';
+}
+
+export async function highlightCode(code: string, language: string, mode: HighlightMode): Promise<HighlightedCode | null> {
+    if (code.split('\n').length > MAX_HIGHLIGHT_LINES) return null;
+
+    const highlighter = await getHighlighter();
+    const lang = toShikiLanguage(language);
+
+    if (lang !== 'text' && !highlighter.getLoadedLanguages().includes(lang)) {
+        await highlighter.loadLanguage(lang);
+    }
+
+    const theme = highlighter.getTheme(THEMES[mode]);
+    const lines = highlighter.codeToTokensBase(code, { lang, theme: THEMES[mode] });
+
+    return { code, mode, lines, fg: theme.fg, bg: theme.bg };
+}
@@ -0,0 +1,48 @@
+/**
+ * LLM Provider Module
+ *
+ * Main entry point for selecting the language model backend. The provider is
+ * chosen per request, falling back to the LLM_PROVIDER environment variable.
+ */
+
+import { GeminiProvider } from './providers/gemini-provider';
+import { createOpenAIProvider, createLocalProvider } from './providers/openai-provider';
+import type { LLMProvider, LLMProviderConfig, LLMProviderName } from './types';
+
+export * from './types';
+export { GeminiProvider } from './providers/gemini-provider';
+export { OpenAICompatibleProvider } from './providers/openai-provider';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['gemini', 'openai', 'local'];
+
+/**
+ * Check if a value is a supported provider name
+ */
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+    return typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Get the default provider name from env config
+ */
+export function getDefaultProviderName(): LLMProviderName {
+    const configured = process.env.LLM_PROVIDER;
+    return isLLMProviderName(configured) ? configured : 'gemini';
+}
+
+/**
+ * Create a provider from request/env config
+ */
+export function getLLMProvider(config?: LLMProviderConfig): LLMProvider {
+    const name = config?.provider || getDefaultProviderName();
+
+    switch (name) {
+        case 'openai':
+            return createOpenAIProvider(config?.model);
+        case 'local':
+            return createLocalProvider(config?.model);
+        case 'gemini':
+        default:
+            return new GeminiProvider(config?.model);
+    }
+}
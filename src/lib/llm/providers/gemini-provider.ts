@@ -0,0 +1,50 @@
+/**
+ * Gemini provider using Google's Generative AI SDK
+ */
+
+import { genAI, hasGeminiKey } from '../../gemini';
+import type { GenerateOptions, LLMProvider } from '../types';
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+
+export class GeminiProvider implements LLMProvider {
+    name = 'gemini' as const;
+    label = 'Gemini';
+    model: string;
+    // Gemini Flash is free-tier eligible or extremely cheap ($0.000125 / 1k chars approx)
+    costPer1kTokens = 0.0001;
+
+    constructor(model?: string) {
+        this.model = model || process.env.GEMINI_MODEL || DEFAULT_MODEL;
+    }
+
+    isConfigured(): boolean {
+        return hasGeminiKey;
+    }
+
+    async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+        const result = await this.getModel(options).generateContent(prompt, { signal: options?.signal });
+        return result.response.text();
+    }
+
+    async *stream(prompt: string, options?: GenerateOptions): AsyncIterable<string> {
+        const result = await this.getModel(options).generateContentStream(prompt, { signal: options?.signal });
+
+        for await (const chunk of result.stream) {
+            const text = chunk.text();
+            if (text) {
+                yield text;
+            }
+        }
+    }
+
+    private getModel(options?: GenerateOptions) {
+        return genAI.getGenerativeModel({
+            model: this.model,
+            generationConfig: {
+                temperature: options?.temperature,
+                maxOutputTokens: options?.maxTokens
+            }
+        });
+    }
+}
@@ -0,0 +1,114 @@
+/**
+ * OpenAI-compatible chat completions provider
+ *
+ * Serves both the hosted OpenAI API and self-hosted servers that speak the
+ * same protocol (Ollama, llama.cpp server, vLLM...), so proprietary code can
+ * stay on the local network.
+ */
+
+import type OpenAI from 'openai';
+import { createOpenAIClient } from '../../openai';
+import type { GenerateOptions, LLMProvider, LLMProviderName } from '../types';
+
+export interface OpenAICompatibleOptions {
+    name: LLMProviderName;
+    label: string;
+    model: string;
+    apiKey?: string;
+    baseURL?: string;
+    costPer1kTokens: number;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    name: LLMProviderName;
+    label: string;
+    model: string;
+    costPer1kTokens: number;
+    private apiKey?: string;
+    private baseURL?: string;
+    private client: OpenAI | null = null;
+
+    constructor(options: OpenAICompatibleOptions) {
+        this.name = options.name;
+        this.label = options.label;
+        this.model = options.model;
+        this.costPer1kTokens = options.costPer1kTokens;
+        this.apiKey = options.apiKey;
+        this.baseURL = options.baseURL;
+    }
+
+    isConfigured(): boolean {
+        // Self-hosted endpoints usually don't need a key, only a URL
+        return this.name === 'local' ? Boolean(this.baseURL) : Boolean(this.apiKey);
+    }
+
+    async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+        const completion = await this.getClient().chat.completions.create({
+            model: this.model,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: options?.temperature,
+            max_tokens: options?.maxTokens
+        }, { signal: options?.signal });
+
+        return completion.choices[0]?.message?.content || '';
+    }
+
+    async *stream(prompt: string, options?: GenerateOptions): AsyncIterable<string> {
+        const stream = await this.getClient().chat.completions.create({
+            model: this.model,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: options?.temperature,
+            max_tokens: options?.maxTokens,
+            stream: true
+        }, { signal: options?.signal });
+
+        for await (const chunk of stream) {
+            const text = chunk.choices[0]?.delta?.content;
+            if (text) {
+                yield text;
+            }
+        }
+    }
+
+    /**
+     * Lazily create the client so unconfigured providers never touch the SDK
+     */
+    private getClient(): OpenAI {
+        if (!this.client) {
+            this.client = createOpenAIClient({
+                // The SDK requires a non-empty key even for servers that ignore it
+                apiKey: this.apiKey || 'not-needed',
+                baseURL: this.baseURL
+            });
+        }
+        return this.client;
+    }
+}
+
+/**
+ * Provider for the hosted OpenAI API
+ */
+export function createOpenAIProvider(model?: string): OpenAICompatibleProvider {
+    return new OpenAICompatibleProvider({
+        name: 'openai',
+        label: 'OpenAI',
+        model: model || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL,
+        costPer1kTokens: 0.0006
+    });
+}
+
+/**
+ * Provider for a self-hosted OpenAI-compatible endpoint
+ */
+export function createLocalProvider(model?: string): OpenAICompatibleProvider {
+    return new OpenAICompatibleProvider({
+        name: 'local',
+        label: 'Local LLM',
+        model: model || process.env.LOCAL_LLM_MODEL || 'llama3.1',
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1', // Ollama default
+        costPer1kTokens: 0
+    });
+}
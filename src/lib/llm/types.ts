@@ -0,0 +1,62 @@
+/**
+ * LLM Provider Types
+ *
+ * Type definitions for the pluggable language model layer used by the
+ * explanation API. Every backend (hosted or self-hosted) implements LLMProvider.
+ */
+
+/**
+ * Supported provider identifiers
+ */
+export type LLMProviderName = 'gemini' | 'openai' | 'local';
+
+/**
+ * Options for a single generation call
+ */
+export interface GenerateOptions {
+    /** Sampling temperature (provider default if omitted) */
+    temperature?: number;
+
+    /** Maximum tokens to generate */
+    maxTokens?: number;
+
+    /** Cancels the backend request, e.g. when the client disconnects */
+    signal?: AbortSignal;
+}
+
+/**
+ * A language model backend capable of generating text from a prompt
+ */
+export interface LLMProvider {
+    /** Provider identifier */
+    name: LLMProviderName;
+
+    /** Human-readable label used in logs and error messages */
+    label: string;
+
+    /** Model name sent to the backend */
+    model: string;
+
+    /** Approximate cost in USD per 1k tokens (0 for self-hosted) */
+    costPer1kTokens: number;
+
+    /** Whether the provider has the credentials/endpoint it needs */
+    isConfigured(): boolean;
+
+    /** Generate a completion for the prompt */
+    generate(prompt: string, options?: GenerateOptions): Promise<string>;
+
+    /** Generate a completion, yielding text chunks as they arrive */
+    stream(prompt: string, options?: GenerateOptions): AsyncIterable<string>;
+}
+
+/**
+ * Configuration used to select and construct a provider
+ */
+export interface LLMProviderConfig {
+    /** Provider to use (falls back to LLM_PROVIDER env, then 'gemini') */
+    provider?: LLMProviderName;
+
+    /** Model override (falls back to the provider's env/default model) */
+    model?: string;
+}
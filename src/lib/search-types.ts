@@ -0,0 +1,17 @@
+/**
+ * Code search results, as returned by /api/search and listed by the search explorer.
+ */
+
+export interface CodeSearchHit {
+    id: string;
+    file: string;
+    symbol?: string;
+    type: string;
+    language: string;
+    lines: { start: number; end: number };
+    signature?: string;
+    snippet: string;
+    score: number;
+    confidence: 'high' | 'medium' | 'low';
+    matchReasons: string[];
+}
@@ -0,0 +1,185 @@
+/**
+ * BM25 Keyword Index
+ *
+ * Inverted index over code units for exact identifiers, config keys and
+ * literal strings (log and error messages) that embeddings match poorly.
+ * A unit's symbol, signature, documentation and code are indexed as one
+ * document, with terms from the first three counted more than once.
+ */
+
+import type { CodeUnit, LexicalIndex, LexicalSearchResult, SearchOptions } from './types';
+import { matchesSearchFilters } from './vector-store';
+
+export interface Bm25Options {
+    /** Term frequency saturation */
+    k1?: number;
+    /** Document length normalization (0 = none, 1 = full) */
+    b?: number;
+}
+
+// Term frequency multiplier per field
+const FIELD_WEIGHTS = {
+    symbol: 3,
+    signature: 2,
+    documentation: 1.5,
+    code: 1
+};
+
+interface IndexedUnit {
+    unit: CodeUnit;
+    /** Weighted number of terms */
+    length: number;
+    /** Distinct terms, for removal */
+    terms: string[];
+}
+
+export class Bm25Index implements LexicalIndex {
+    private units = new Map<string, IndexedUnit>();
+    // term -> unit ID -> weighted term frequency
+    private postings = new Map<string, Map<string, number>>();
+    private totalLength = 0;
+
+    private readonly k1: number;
+    private readonly b: number;
+
+    constructor(options: Bm25Options = {}) {
+        this.k1 = options.k1 ?? 1.2;
+        this.b = options.b ?? 0.75;
+    }
+
+    /**
+     * Add a unit, replacing any unit with the same ID
+     */
+    add(unit: CodeUnit): void {
+        this.remove(unit.id);
+
+        const frequencies = new Map<string, number>();
+        let length = 0;
+
+        for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+            const text = unit[field as keyof typeof FIELD_WEIGHTS];
+            if (!text) {
+                continue;
+            }
+
+            for (const term of tokenize(text)) {
+                frequencies.set(term, (frequencies.get(term) || 0) + weight);
+                length += weight;
+            }
+        }
+
+        for (const [term, frequency] of frequencies) {
+            let posting = this.postings.get(term);
+            if (!posting) {
+                posting = new Map();
+                this.postings.set(term, posting);
+            }
+            posting.set(unit.id, frequency);
+        }
+
+        this.units.set(unit.id, { unit, length, terms: Array.from(frequencies.keys()) });
+        this.totalLength += length;
+    }
+
+    /**
+     * Remove a unit by ID
+     */
+    remove(id: string): void {
+        const indexed = this.units.get(id);
+        if (!indexed) {
+            return;
+        }
+
+        for (const term of indexed.terms) {
+            const posting = this.postings.get(term);
+            posting?.delete(id);
+            if (posting?.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+
+        this.units.delete(id);
+        this.totalLength -= indexed.length;
+    }
+
+    /**
+     * Search for units containing the query's terms, best BM25 score first
+     */
+    search(query: string, options: Omit<SearchOptions, 'minSimilarity'>): LexicalSearchResult[] {
+        const terms = Array.from(new Set(tokenize(query)));
+        if (terms.length === 0 || this.units.size === 0) {
+            return [];
+        }
+
+        const averageLength = this.totalLength / this.units.size;
+        const scores = new Map<string, { score: number; matchedTerms: string[] }>();
+
+        for (const term of terms) {
+            const posting = this.postings.get(term);
+            if (!posting) {
+                continue;
+            }
+
+            const idf = Math.log(1 + (this.units.size - posting.size + 0.5) / (posting.size + 0.5));
+
+            for (const [id, frequency] of posting) {
+                const length = this.units.get(id)!.length;
+                const termScore = idf * frequency * (this.k1 + 1) /
+                    (frequency + this.k1 * (1 - this.b + this.b * length / averageLength));
+
+                const entry = scores.get(id);
+                if (entry) {
+                    entry.score += termScore;
+                    entry.matchedTerms.push(term);
+                } else {
+                    scores.set(id, { score: termScore, matchedTerms: [term] });
+                }
+            }
+        }
+
+        const results: LexicalSearchResult[] = [];
+
+        for (const [id, { score, matchedTerms }] of scores) {
+            const unit = this.units.get(id)!.unit;
+            if (matchesSearchFilters(unit, options.filters)) {
+                results.push({ id, score, matchedTerms, queryTerms: terms.length, metadata: { unit } });
+            }
+        }
+
+        return results
+            .sort((a, b) => b.score - a.score)
+            .slice(0, options.topK);
+    }
+
+    /**
+     * Get total count
+     */
+    size(): number {
+        return this.units.size;
+    }
+}
+
+/**
+ * Lowercase terms of a text: every identifier as a whole (so exact names
+ * like "GEMINI_API_KEY" stay distinctive) plus its camelCase/snake_case parts
+ */
+function tokenize(text: string): string[] {
+    const terms: string[] = [];
+
+    for (const identifier of text.match(/[A-Za-z0-9_$]+/g) || []) {
+        const whole = identifier.toLowerCase();
+        if (whole.length > 1) {
+            terms.push(whole);
+        }
+
+        const parts = identifier
+            .split(/[_$]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)
+            .filter(part => part.length > 1);
+
+        if (parts.length > 1) {
+            terms.push(...parts.map(part => part.toLowerCase()));
+        }
+    }
+
+    return terms;
+}
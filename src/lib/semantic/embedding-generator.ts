@@ -1,26 +1,28 @@
 /**
  * Embedding Generator
- * 
- * Generates vector embeddings for code units using Gemini's embedding API.
+ *
+ * Generates vector embeddings for code units with the configured embedding
+ * provider (Gemini, a local model or feature hashing; see embedding-providers).
  * Handles batching, rate limiting, and caching.
  */
 
-import { genAI } from '../gemini';
-import type { CodeUnit, EmbeddingResult } from './types';
+import type { CodeUnit, EmbeddingProvider, EmbeddingResult } from './types';
 import { buildEmbeddingText } from './code-unit-extractor';
+import { getEmbeddingProvider } from './embedding-providers';
 
-const EMBEDDING_MODEL = 'text-embedding-004';
 const BATCH_SIZE = 10;
 const BATCH_DELAY_MS = 100;  // Delay between batches for rate limiting
 
 /**
- * Generate embedding for a single code unit
+ * Generate embedding for a single text
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
+export async function generateEmbedding(
+    text: string,
+    provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[]> {
     try {
-        const model = genAI.getGenerativeModel({ model: EMBEDDING_MODEL });
-        const result = await model.embedContent(text);
-        return result.embedding.values;
+        const [embedding] = await provider.embed([text]);
+        return embedding;
     } catch (error: any) {
         console.error('[EmbeddingGenerator] Error generating embedding:', error.message);
         throw error;
@@ -35,41 +37,34 @@ export async function batchGenerateEmbeddings(
     options?: {
         batchSize?: number;
         onProgress?: (current: number, total: number) => void;
+        provider?: EmbeddingProvider;
     }
 ): Promise<Map<string, EmbeddingResult>> {
     const results = new Map<string, EmbeddingResult>();
+    const provider = options?.provider || getEmbeddingProvider();
     const batchSize = options?.batchSize || BATCH_SIZE;
     const total = units.length;
 
-    console.log(`[EmbeddingGenerator] Generating embeddings for ${total} units...`);
+    console.log(`[EmbeddingGenerator] Generating ${provider.model} embeddings for ${total} units...`);
 
     for (let i = 0; i < units.length; i += batchSize) {
         const batch = units.slice(i, Math.min(i + batchSize, units.length));
+        const embeddings = await embedBatch(batch, provider);
 
-        // Process batch in parallel
-        const batchPromises = batch.map(async (unit) => {
-            try {
-                const text = buildEmbeddingText(unit);
-                const embedding = await generateEmbedding(text);
-
-                const result: EmbeddingResult = {
-                    unitId: unit.id,
-                    embedding,
-                    model: EMBEDDING_MODEL,
-                    timestamp: Date.now(),
-                    contentHash: unit.metadata.hash
-                };
-
-                results.set(unit.id, result);
-
-                return result;
-            } catch (error: any) {
-                console.error(`[EmbeddingGenerator] Failed to generate embedding for ${unit.id}:`, error.message);
-                return null;
+        batch.forEach((unit, j) => {
+            const embedding = embeddings[j];
+            if (!embedding) {
+                return;
             }
-        });
 
-        await Promise.all(batchPromises);
+            results.set(unit.id, {
+                unitId: unit.id,
+                embedding,
+                model: provider.model,
+                timestamp: Date.now(),
+                contentHash: unit.metadata.hash
+            });
+        });
 
         // Report progress
         const current = Math.min(i + batchSize, units.length);
@@ -79,8 +74,8 @@ export async function batchGenerateEmbeddings(
 
         console.log(`[EmbeddingGenerator] Progress: ${current}/${total} units`);
 
-        // Delay between batches to respect rate limits
-        if (i + batchSize < units.length) {
+        // Delay between batches to respect rate limits (local providers have none)
+        if (provider.name === 'gemini' && i + batchSize < units.length) {
             await sleep(BATCH_DELAY_MS);
         }
     }
@@ -90,12 +85,43 @@ export async function batchGenerateEmbeddings(
     return results;
 }
 
+/**
+ * Embed a batch in one call, falling back to one unit at a time so a
+ * single failing unit does not drop the whole batch
+ */
+async function embedBatch(
+    batch: CodeUnit[],
+    provider: EmbeddingProvider
+): Promise<Array<number[] | null>> {
+    const texts = batch.map(buildEmbeddingText);
+
+    try {
+        return await provider.embed(texts);
+    } catch (error: any) {
+        if (batch.length === 1) {
+            console.error(`[EmbeddingGenerator] Failed to generate embedding for ${batch[0].id}:`, error.message);
+            return [null];
+        }
+    }
+
+    return Promise.all(batch.map(async (unit, i) => {
+        try {
+            const [embedding] = await provider.embed([texts[i]]);
+            return embedding;
+        } catch (error: any) {
+            console.error(`[EmbeddingGenerator] Failed to generate embedding for ${unit.id}:`, error.message);
+            return null;
+        }
+    }));
+}
+
 /**
  * Check if embedding needs regeneration
  */
 export function needsRegeneration(
     unit: CodeUnit,
-    existingEmbedding?: EmbeddingResult
+    existingEmbedding?: EmbeddingResult,
+    model: string = getEmbeddingProvider().model
 ): boolean {
     if (!existingEmbedding) {
         return true;
@@ -107,7 +133,7 @@ export function needsRegeneration(
     }
 
     // Check if model has changed
-    if (existingEmbedding.model !== EMBEDDING_MODEL) {
+    if (existingEmbedding.model !== model) {
         return true;
     }
 
@@ -122,11 +148,14 @@ export async function incrementalGenerateEmbeddings(
     existingEmbeddings: Map<string, EmbeddingResult>,
     options?: {
         onProgress?: (current: number, total: number) => void;
+        provider?: EmbeddingProvider;
     }
 ): Promise<Map<string, EmbeddingResult>> {
+    const provider = options?.provider || getEmbeddingProvider();
+
     // Find units that need new embeddings
     const unitsToProcess = units.filter(unit =>
-        needsRegeneration(unit, existingEmbeddings.get(unit.id))
+        needsRegeneration(unit, existingEmbeddings.get(unit.id), provider.model)
     );
 
     console.log(`[EmbeddingGenerator] ${unitsToProcess.length}/${units.length} units need new embeddings`);
@@ -136,7 +165,7 @@ export async function incrementalGenerateEmbeddings(
     }
 
     // Generate new embeddings
-    const newEmbeddings = await batchGenerateEmbeddings(unitsToProcess, options);
+    const newEmbeddings = await batchGenerateEmbeddings(unitsToProcess, { ...options, provider });
 
     // Merge with existing
     const merged = new Map(existingEmbeddings);
@@ -0,0 +1,35 @@
+/**
+ * Gemini embeddings using Google's Generative AI SDK
+ */
+
+import { genAI, hasGeminiKey } from '../../gemini';
+import type { EmbeddingProvider } from '../types';
+
+const DEFAULT_MODEL = 'text-embedding-004';
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+    name = 'gemini' as const;
+    model: string;
+
+    constructor(model?: string) {
+        this.model = model || process.env.GEMINI_EMBEDDING_MODEL || DEFAULT_MODEL;
+    }
+
+    isConfigured(): boolean {
+        return hasGeminiKey;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const model = genAI.getGenerativeModel({ model: this.model });
+
+        if (texts.length === 1) {
+            const result = await model.embedContent(texts[0]);
+            return [result.embedding.values];
+        }
+
+        const result = await model.batchEmbedContents({
+            requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+        });
+        return result.embeddings.map(embedding => embedding.values);
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * Deterministic feature-hashing embeddings
+ *
+ * Needs no model and no network: identifiers are split into words
+ * (camelCase, snake_case) and every word and adjacent word pair is hashed
+ * into a fixed number of buckets. Similarity is purely lexical, which is
+ * enough for tests and as an offline fallback.
+ */
+
+import type { EmbeddingProvider } from '../types';
+import { normalizeVector } from '../vector-store';
+
+const DIMENSIONS = 256;
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+    name = 'hash' as const;
+    model = `feature-hash-${DIMENSIONS}`;
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(embedText);
+    }
+}
+
+function embedText(text: string): number[] {
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    const words = splitWords(text);
+
+    words.forEach((word, i) => {
+        addFeature(vector, word, 1);
+        if (i > 0) {
+            addFeature(vector, `${words[i - 1]} ${word}`, 0.5);
+        }
+    });
+
+    return normalizeVector(vector);
+}
+
+/**
+ * Lowercase words of all identifiers, e.g. "parseHTTPHeader" -> parse, http, header
+ */
+function splitWords(text: string): string[] {
+    const identifiers = text.match(/[A-Za-z][A-Za-z0-9]*/g) || [];
+
+    return identifiers
+        .flatMap(identifier => identifier.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/))
+        .map(word => word.toLowerCase())
+        .filter(word => word.length > 1);
+}
+
+/**
+ * Add a feature to its bucket, with a hash-derived sign so collisions cancel out
+ */
+function addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    vector[hash % DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+}
+
+function fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,49 @@
+/**
+ * Embedding Providers
+ *
+ * Selects the backend that embeds code units and search queries, from the
+ * EMBEDDING_PROVIDER environment variable. The provider's model is stored
+ * with the semantic index, and an index built with a different model is
+ * rebuilt instead of mixing vectors.
+ */
+
+import { GeminiEmbeddingProvider } from './gemini-embedding-provider';
+import { LocalEmbeddingProvider } from './local-embedding-provider';
+import { HashingEmbeddingProvider } from './hashing-embedding-provider';
+import type { EmbeddingProvider, EmbeddingProviderName } from '../types';
+
+export { GeminiEmbeddingProvider } from './gemini-embedding-provider';
+export { LocalEmbeddingProvider } from './local-embedding-provider';
+export { HashingEmbeddingProvider } from './hashing-embedding-provider';
+
+const PROVIDER_NAMES: EmbeddingProviderName[] = ['gemini', 'local', 'hash'];
+
+/**
+ * Check if a value is a supported embedding provider name
+ */
+export function isEmbeddingProviderName(value: unknown): value is EmbeddingProviderName {
+    return typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Get the configured embedding provider name (EMBEDDING_PROVIDER, default 'gemini')
+ */
+export function getDefaultEmbeddingProviderName(): EmbeddingProviderName {
+    const configured = process.env.EMBEDDING_PROVIDER;
+    return isEmbeddingProviderName(configured) ? configured : 'gemini';
+}
+
+/**
+ * Create an embedding provider (the configured one unless a name is given)
+ */
+export function getEmbeddingProvider(name?: EmbeddingProviderName): EmbeddingProvider {
+    switch (name || getDefaultEmbeddingProviderName()) {
+        case 'local':
+            return new LocalEmbeddingProvider();
+        case 'hash':
+            return new HashingEmbeddingProvider();
+        case 'gemini':
+        default:
+            return new GeminiEmbeddingProvider();
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * Local embeddings with transformers.js
+ *
+ * Runs an ONNX sentence-embedding model on the CPU inside the server process,
+ * so code never leaves the machine. Models are downloaded from the Hugging
+ * Face hub on first use and cached; set LOCAL_EMBEDDING_MODEL_DIR to load
+ * them from a directory instead, with no network access at all.
+ */
+
+import path from 'path';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import type { EmbeddingProvider } from '../types';
+
+const DEFAULT_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const MODEL_CACHE_DIR = path.join(process.cwd(), 'node_modules', '.cache', 'codeinterpreter', 'models');
+
+// Loading a model takes seconds and hundreds of MB; share it between providers
+const extractors = new Map<string, Promise<FeatureExtractionPipeline>>();
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    name = 'local' as const;
+    model: string;
+
+    constructor(model?: string) {
+        this.model = model || process.env.LOCAL_EMBEDDING_MODEL || DEFAULT_MODEL;
+    }
+
+    isConfigured(): boolean {
+        // Model files are fetched (or read from LOCAL_EMBEDDING_MODEL_DIR) on first use
+        return true;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const extractor = await getExtractor(this.model);
+        const output = await extractor(texts, { pooling: 'mean', normalize: true });
+        return output.tolist();
+    }
+}
+
+function getExtractor(model: string): Promise<FeatureExtractionPipeline> {
+    let extractor = extractors.get(model);
+    if (!extractor) {
+        extractor = createExtractor(model);
+        extractors.set(model, extractor);
+        // Allow a failed load (e.g. no network) to be retried
+        extractor.catch(() => extractors.delete(model));
+    }
+    return extractor;
+}
+
+async function createExtractor(model: string): Promise<FeatureExtractionPipeline> {
+    // Imported lazily so the ONNX runtime is only loaded when this provider is used
+    const { pipeline, env } = await import('@huggingface/transformers');
+
+    env.cacheDir = MODEL_CACHE_DIR;
+
+    const modelDir = process.env.LOCAL_EMBEDDING_MODEL_DIR;
+    if (modelDir) {
+        env.localModelPath = modelDir;
+        env.allowRemoteModels = false;
+    }
+
+    // pipeline()'s inferred return type is too complex for the compiler
+    const createPipeline = pipeline as (task: 'feature-extraction', model: string) => Promise<FeatureExtractionPipeline>;
+
+    console.log(`[EmbeddingGenerator] Loading local embedding model ${model}...`);
+    return createPipeline('feature-extraction', model);
+}
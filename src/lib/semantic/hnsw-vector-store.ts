@@ -0,0 +1,751 @@
+/**
+ * HNSW Vector Store
+ *
+ * Approximate nearest-neighbour search over a Hierarchical Navigable Small
+ * World graph, so queries stay fast on projects with tens of thousands of
+ * code units. Vectors are normalized on insert and kept in one Float32Array,
+ * which turns cosine similarity into a dot product.
+ *
+ * On disk the store is a single binary file (little-endian):
+ *
+ *   header    HEADER_SIZE bytes: magic, format version, counts, section offsets
+ *   vectors   count x dimension float32, starting at HEADER_SIZE
+ *   graph     int32 stream: per node its level, then per layer a count and neighbour ids
+ *   entries   UTF-8 JSON { ids, metadata }, null for deleted nodes; metadata
+ *             is kept small (the semantic index stores unit filter fields)
+ *
+ * The vector section is contiguous and aligned so it can be viewed in place.
+ * load() reads only the header and entries; vectors and graph are read on
+ * the first search, insert or save.
+ */
+
+import fs, { type FileHandle } from 'fs/promises';
+import type { VectorStore, SearchOptions, SearchResult } from './types';
+import { matchesSearchFilters } from './vector-store';
+
+const MAGIC = 'HNSW';
+const FORMAT_VERSION = 1;
+const HEADER_SIZE = 128;
+
+export interface HnswOptions {
+    /** Links per node on the upper layers; layer 0 allows twice as many */
+    m?: number;
+
+    /** Candidate list size while inserting (graph quality vs. build time) */
+    efConstruction?: number;
+
+    /** Minimum candidate list size while searching (recall vs. query time) */
+    efSearch?: number;
+}
+
+interface Candidate {
+    node: number;
+    similarity: number;
+}
+
+interface StoreHeader {
+    dimension: number;
+    count: number;
+    liveCount: number;
+    entryPoint: number;
+    maxLevel: number;
+    graphOffset: number;
+    graphLength: number;
+    entriesOffset: number;
+    entriesLength: number;
+}
+
+export class HnswVectorStore implements VectorStore {
+    private readonly m: number;
+    private readonly maxLayer0Links: number;
+    private readonly efConstruction: number;
+    private readonly efSearch: number;
+    private readonly levelMultiplier: number;
+
+    private dimension = 0;
+    private count = 0;          // Nodes in the graph, including deleted ones
+    private liveCount = 0;
+    private vectors: Float32Array = new Float32Array(0);
+    private ids: (string | null)[] = [];
+    private metadata: any[] = [];
+    private levels: number[] = [];
+    private neighbors: number[][][] = [];   // node -> layer -> linked nodes
+    private nodeById = new Map<string, number>();
+    private entryPoint = -1;
+    private maxLevel = -1;
+
+    private visited: Uint32Array = new Uint32Array(0);
+    private visitMark = 0;
+
+    /** File whose vectors and graph have not been read yet */
+    private pending: { path: string; header: StoreHeader } | null = null;
+    private loading: Promise<void> | null = null;
+
+    constructor(options?: HnswOptions) {
+        this.m = options?.m || 16;
+        this.maxLayer0Links = this.m * 2;
+        this.efConstruction = options?.efConstruction || 100;
+        this.efSearch = options?.efSearch || 64;
+        this.levelMultiplier = 1 / Math.log(this.m);
+    }
+
+    /**
+     * Insert a vector with metadata (replaces an existing ID)
+     */
+    async insert(id: string, embedding: number[], metadata: any): Promise<void> {
+        await this.ensureLoaded();
+
+        if (this.dimension === 0) {
+            this.dimension = embedding.length;
+        } else if (embedding.length !== this.dimension) {
+            throw new Error(`Vector has ${embedding.length} dimensions, store expects ${this.dimension}`);
+        }
+
+        const existing = this.nodeById.get(id);
+        if (existing !== undefined) {
+            this.markDeleted(existing);
+        }
+
+        this.addNode(id, normalize(embedding), metadata);
+    }
+
+    /**
+     * Search for similar vectors
+     */
+    async search(query: number[], options: SearchOptions): Promise<SearchResult[]> {
+        await this.ensureLoaded();
+
+        if (this.liveCount === 0 || options.topK <= 0) {
+            return [];
+        }
+        if (query.length !== this.dimension) {
+            throw new Error('Vectors must have same length');
+        }
+
+        const target = normalize(query);
+        const minSimilarity = options.minSimilarity || 0;
+
+        let entry = this.entryPoint;
+        for (let layer = this.maxLevel; layer > 0; layer--) {
+            entry = this.greedyClosest(target, entry, layer);
+        }
+
+        // Deleted nodes and filters are applied after the graph search, so widen
+        // the candidate list until enough results survive or nothing is left
+        let ef = Math.max(this.efSearch, options.topK);
+        for (;;) {
+            const candidates = this.searchLayer(target, entry, ef, 0);
+            const results: SearchResult[] = [];
+
+            for (const candidate of candidates) {
+                if (candidate.similarity < minSimilarity) {
+                    break;
+                }
+                const id = this.ids[candidate.node];
+                const metadata = this.metadata[candidate.node];
+                if (id !== null && matchesSearchFilters(metadata, options.filters)) {
+                    results.push({ id, similarity: candidate.similarity, metadata });
+                }
+            }
+
+            const exhausted = candidates.length < ef
+                || candidates[candidates.length - 1].similarity < minSimilarity
+                || ef >= this.count;
+
+            if (results.length >= options.topK || exhausted) {
+                return results.slice(0, options.topK);
+            }
+
+            ef = Math.min(this.count, ef * 4);
+        }
+    }
+
+    /**
+     * Get the stored (normalized) embedding for an ID
+     */
+    async getEmbedding(id: string): Promise<number[] | null> {
+        const node = this.nodeById.get(id);
+        if (node === undefined) {
+            return null;
+        }
+
+        await this.ensureLoaded();
+        return Array.from(this.vectorOf(node));
+    }
+
+    /**
+     * Delete a vector by ID
+     *
+     * The node stays in the graph as a waypoint until the next compaction.
+     */
+    async delete(id: string): Promise<void> {
+        const node = this.nodeById.get(id);
+        if (node !== undefined) {
+            this.markDeleted(node);
+        }
+    }
+
+    /**
+     * Clear all vectors
+     */
+    async clear(): Promise<void> {
+        this.reset();
+    }
+
+    /**
+     * Get total count
+     */
+    size(): number {
+        return this.liveCount;
+    }
+
+    /**
+     * IDs and metadata of all stored vectors (available without reading vectors)
+     */
+    entries(): Array<[string, any]> {
+        const entries: Array<[string, any]> = [];
+        for (let node = 0; node < this.count; node++) {
+            const id = this.ids[node];
+            if (id !== null) {
+                entries.push([id, this.metadata[node]]);
+            }
+        }
+        return entries;
+    }
+
+    /**
+     * Save to disk
+     */
+    async save(path: string): Promise<void> {
+        await this.ensureLoaded();
+
+        // Rebuild once deleted nodes make up a quarter of the graph
+        if (this.count - this.liveCount > this.count / 4) {
+            this.compact();
+        }
+
+        const vectorBytes = this.count * this.dimension * Float32Array.BYTES_PER_ELEMENT;
+        const graph = this.encodeGraph();
+        const entries = Buffer.from(JSON.stringify({ ids: this.ids, metadata: this.metadata }), 'utf-8');
+
+        const graphOffset = HEADER_SIZE + vectorBytes;
+        const entriesOffset = graphOffset + graph.byteLength;
+
+        const header = encodeHeader({
+            dimension: this.dimension,
+            count: this.count,
+            liveCount: this.liveCount,
+            entryPoint: this.entryPoint,
+            maxLevel: this.maxLevel,
+            graphOffset,
+            graphLength: graph.byteLength,
+            entriesOffset,
+            entriesLength: entries.byteLength
+        });
+
+        // Write next to the target and rename, so readers never see a partial file
+        const tempPath = `${path}.tmp`;
+        await fs.writeFile(tempPath, [
+            header,
+            new Uint8Array(this.vectors.buffer, this.vectors.byteOffset, vectorBytes),
+            new Uint8Array(graph.buffer, graph.byteOffset, graph.byteLength),
+            entries
+        ]);
+        await fs.rename(tempPath, path);
+    }
+
+    /**
+     * Load from disk
+     *
+     * Only the header and entries are read here; see ensureLoaded().
+     */
+    async load(path: string): Promise<void> {
+        this.reset();
+
+        try {
+            const handle = await fs.open(path, 'r');
+            try {
+                const header = decodeHeader(await readAt(handle, 0, HEADER_SIZE));
+                const entries = JSON.parse(
+                    (await readAt(handle, header.entriesOffset, header.entriesLength)).toString('utf-8')
+                );
+
+                this.dimension = header.dimension;
+                this.count = header.count;
+                this.liveCount = header.liveCount;
+                this.entryPoint = header.entryPoint;
+                this.maxLevel = header.maxLevel;
+                this.ids = entries.ids;
+                this.metadata = entries.metadata;
+
+                for (let node = 0; node < this.count; node++) {
+                    const id = this.ids[node];
+                    if (id !== null) {
+                        this.nodeById.set(id, node);
+                    }
+                }
+
+                this.pending = { path, header };
+            } finally {
+                await handle.close();
+            }
+        } catch (error) {
+            // File doesn't exist or is invalid - start fresh
+            this.reset();
+        }
+    }
+
+    /**
+     * Read the vectors and graph of a lazily loaded file
+     */
+    private ensureLoaded(): Promise<void> {
+        if (!this.pending) {
+            return Promise.resolve();
+        }
+
+        if (!this.loading) {
+            const pending = this.pending;
+            this.loading = this.readGraph(pending.path, pending.header)
+                .finally(() => { this.loading = null; });
+        }
+        return this.loading;
+    }
+
+    private async readGraph(path: string, expected: StoreHeader): Promise<void> {
+        const handle = await fs.open(path, 'r');
+        let vectorBuffer: Buffer;
+        let graphBuffer: Buffer;
+
+        try {
+            const header = decodeHeader(await readAt(handle, 0, HEADER_SIZE));
+            if (JSON.stringify(header) !== JSON.stringify(expected)) {
+                throw new Error(`Vector store file changed since it was loaded: ${path}`);
+            }
+
+            const vectorBytes = header.count * header.dimension * Float32Array.BYTES_PER_ELEMENT;
+            vectorBuffer = await readAt(handle, HEADER_SIZE, vectorBytes);
+            graphBuffer = await readAt(handle, header.graphOffset, header.graphLength);
+        } finally {
+            await handle.close();
+        }
+
+        // Cleared or reloaded while reading
+        if (this.pending?.header !== expected) {
+            return;
+        }
+
+        // Buffer.alloc never pools, so both views start 4-byte aligned
+        this.vectors = new Float32Array(vectorBuffer.buffer, vectorBuffer.byteOffset, vectorBuffer.byteLength / 4);
+        this.decodeGraph(new Int32Array(graphBuffer.buffer, graphBuffer.byteOffset, graphBuffer.byteLength / 4));
+        this.pending = null;
+    }
+
+    private reset(): void {
+        this.dimension = 0;
+        this.count = 0;
+        this.liveCount = 0;
+        this.vectors = new Float32Array(0);
+        this.ids = [];
+        this.metadata = [];
+        this.levels = [];
+        this.neighbors = [];
+        this.nodeById = new Map();
+        this.entryPoint = -1;
+        this.maxLevel = -1;
+        this.pending = null;
+    }
+
+    private markDeleted(node: number): void {
+        const id = this.ids[node];
+        if (id === null) {
+            return;
+        }
+
+        this.nodeById.delete(id);
+        this.ids[node] = null;
+        this.metadata[node] = null;
+        this.liveCount--;
+    }
+
+    /**
+     * Append a normalized vector and link it into the graph
+     */
+    private addNode(id: string, vector: Float32Array, metadata: any): void {
+        const node = this.count++;
+        this.reserve(this.count);
+        this.vectors.set(vector, node * this.dimension);
+
+        const level = Math.floor(-Math.log(1 - Math.random()) * this.levelMultiplier);
+        this.ids[node] = id;
+        this.metadata[node] = metadata;
+        this.levels[node] = level;
+        this.neighbors[node] = Array.from({ length: level + 1 }, () => []);
+        this.nodeById.set(id, node);
+        this.liveCount++;
+
+        if (this.entryPoint === -1) {
+            this.entryPoint = node;
+            this.maxLevel = level;
+            return;
+        }
+
+        let entry = this.entryPoint;
+        for (let layer = this.maxLevel; layer > level; layer--) {
+            entry = this.greedyClosest(vector, entry, layer);
+        }
+
+        for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+            const candidates = this.searchLayer(vector, entry, this.efConstruction, layer);
+            const maxLinks = layer === 0 ? this.maxLayer0Links : this.m;
+            const selected = this.selectNeighbors(candidates, this.m);
+
+            this.neighbors[node][layer] = selected;
+            for (const neighbor of selected) {
+                const links = this.neighbors[neighbor][layer];
+                links.push(node);
+                if (links.length > maxLinks) {
+                    this.neighbors[neighbor][layer] = this.pruneLinks(neighbor, links, maxLinks);
+                }
+            }
+
+            entry = candidates[0].node;
+        }
+
+        if (level > this.maxLevel) {
+            this.entryPoint = node;
+            this.maxLevel = level;
+        }
+    }
+
+    /**
+     * Pick up to max neighbours from candidates sorted by similarity
+     *
+     * A candidate closer to an already selected neighbour than to the target
+     * is skipped at first, so links spread across clusters instead of all
+     * pointing into the nearest one.
+     */
+    private selectNeighbors(candidates: Candidate[], max: number): number[] {
+        const selected: number[] = [];
+        const skipped: number[] = [];
+
+        for (const candidate of candidates) {
+            if (selected.length >= max) {
+                break;
+            }
+            const vector = this.vectorOf(candidate.node);
+            const diverse = selected.every(other => this.similarity(vector, other) < candidate.similarity);
+            (diverse ? selected : skipped).push(candidate.node);
+        }
+
+        for (const node of skipped) {
+            if (selected.length >= max) {
+                break;
+            }
+            selected.push(node);
+        }
+
+        return selected;
+    }
+
+    private pruneLinks(node: number, links: number[], max: number): number[] {
+        const vector = this.vectorOf(node);
+        const candidates = links
+            .map(link => ({ node: link, similarity: this.similarity(vector, link) }))
+            .sort((a, b) => b.similarity - a.similarity);
+        return this.selectNeighbors(candidates, max);
+    }
+
+    /**
+     * Follow links on one layer while they get closer to the target
+     */
+    private greedyClosest(target: Float32Array, entry: number, layer: number): number {
+        let current = entry;
+        let best = this.similarity(target, current);
+
+        let improved = true;
+        while (improved) {
+            improved = false;
+            for (const neighbor of this.neighbors[current][layer]) {
+                const similarity = this.similarity(target, neighbor);
+                if (similarity > best) {
+                    best = similarity;
+                    current = neighbor;
+                    improved = true;
+                }
+            }
+        }
+
+        return current;
+    }
+
+    /**
+     * Best-first search on one layer, returning up to ef nodes sorted by similarity
+     */
+    private searchLayer(target: Float32Array, entry: number, ef: number, layer: number): Candidate[] {
+        const mark = this.nextVisitMark();
+        const start = { node: entry, similarity: this.similarity(target, entry) };
+
+        const candidates = new CandidateHeap((a, b) => a.similarity > b.similarity);
+        const results = new CandidateHeap((a, b) => a.similarity < b.similarity);
+        candidates.push(start);
+        results.push(start);
+        this.visited[entry] = mark;
+
+        while (candidates.length > 0) {
+            const current = candidates.pop()!;
+            if (results.length >= ef && current.similarity < results.peek()!.similarity) {
+                break;
+            }
+
+            for (const neighbor of this.neighbors[current.node][layer]) {
+                if (this.visited[neighbor] === mark) {
+                    continue;
+                }
+                this.visited[neighbor] = mark;
+
+                const similarity = this.similarity(target, neighbor);
+                if (results.length < ef || similarity > results.peek()!.similarity) {
+                    const candidate = { node: neighbor, similarity };
+                    candidates.push(candidate);
+                    results.push(candidate);
+                    if (results.length > ef) {
+                        results.pop();
+                    }
+                }
+            }
+        }
+
+        return results.toArray().sort((a, b) => b.similarity - a.similarity);
+    }
+
+    /**
+     * Rebuild the graph from live nodes only
+     */
+    private compact(): void {
+        const { dimension, vectors, ids, metadata } = this;
+        const count = this.count;
+
+        this.reset();
+        this.dimension = dimension;
+
+        for (let node = 0; node < count; node++) {
+            const id = ids[node];
+            if (id !== null) {
+                this.addNode(id, vectors.subarray(node * dimension, (node + 1) * dimension), metadata[node]);
+            }
+        }
+    }
+
+    private encodeGraph(): Int32Array {
+        let length = 0;
+        for (let node = 0; node < this.count; node++) {
+            length += 1;
+            for (const links of this.neighbors[node]) {
+                length += 1 + links.length;
+            }
+        }
+
+        const graph = new Int32Array(length);
+        let position = 0;
+        for (let node = 0; node < this.count; node++) {
+            graph[position++] = this.levels[node];
+            for (const links of this.neighbors[node]) {
+                graph[position++] = links.length;
+                graph.set(links, position);
+                position += links.length;
+            }
+        }
+
+        return graph;
+    }
+
+    private decodeGraph(graph: Int32Array): void {
+        let position = 0;
+        for (let node = 0; node < this.count; node++) {
+            const level = graph[position++];
+            const layers: number[][] = [];
+            for (let layer = 0; layer <= level; layer++) {
+                const length = graph[position++];
+                layers.push(Array.from(graph.subarray(position, position + length)));
+                position += length;
+            }
+            this.levels[node] = level;
+            this.neighbors[node] = layers;
+        }
+    }
+
+    /**
+     * Grow the vector buffer to hold the given number of nodes
+     */
+    private reserve(nodes: number): void {
+        const needed = nodes * this.dimension;
+        if (needed <= this.vectors.length) {
+            return;
+        }
+
+        const grown = new Float32Array(Math.max(needed, this.vectors.length * 2));
+        grown.set(this.vectors);
+        this.vectors = grown;
+    }
+
+    private nextVisitMark(): number {
+        if (this.visited.length < this.count) {
+            this.visited = new Uint32Array(Math.max(this.count, this.visited.length * 2));
+        }
+        if (this.visitMark === 0xffffffff) {
+            this.visited.fill(0);
+            this.visitMark = 0;
+        }
+        return ++this.visitMark;
+    }
+
+    private vectorOf(node: number): Float32Array {
+        return this.vectors.subarray(node * this.dimension, (node + 1) * this.dimension);
+    }
+
+    private similarity(target: Float32Array, node: number): number {
+        const { vectors, dimension } = this;
+        const offset = node * dimension;
+        let dotProduct = 0;
+        for (let i = 0; i < dimension; i++) {
+            dotProduct += target[i] * vectors[offset + i];
+        }
+        return dotProduct;
+    }
+}
+
+/**
+ * Binary heap of candidates; `before` decides which one sits on top
+ */
+class CandidateHeap {
+    private items: Candidate[] = [];
+
+    constructor(private readonly before: (a: Candidate, b: Candidate) => boolean) { }
+
+    get length(): number {
+        return this.items.length;
+    }
+
+    peek(): Candidate | undefined {
+        return this.items[0];
+    }
+
+    push(item: Candidate): void {
+        const items = this.items;
+        items.push(item);
+
+        let index = items.length - 1;
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (!this.before(items[index], items[parent])) {
+                break;
+            }
+            [items[index], items[parent]] = [items[parent], items[index]];
+            index = parent;
+        }
+    }
+
+    pop(): Candidate | undefined {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop();
+        if (items.length === 0 || last === undefined) {
+            return top;
+        }
+
+        items[0] = last;
+        let index = 0;
+        for (;;) {
+            const left = index * 2 + 1;
+            const right = left + 1;
+            let first = index;
+            if (left < items.length && this.before(items[left], items[first])) {
+                first = left;
+            }
+            if (right < items.length && this.before(items[right], items[first])) {
+                first = right;
+            }
+            if (first === index) {
+                break;
+            }
+            [items[index], items[first]] = [items[first], items[index]];
+            index = first;
+        }
+
+        return top;
+    }
+
+    toArray(): Candidate[] {
+        return [...this.items];
+    }
+}
+
+function normalize(vector: number[]): Float32Array {
+    const normalized = Float32Array.from(vector);
+    let magnitude = 0;
+    for (let i = 0; i < normalized.length; i++) {
+        magnitude += normalized[i] * normalized[i];
+    }
+
+    magnitude = Math.sqrt(magnitude);
+    if (magnitude > 0) {
+        for (let i = 0; i < normalized.length; i++) {
+            normalized[i] /= magnitude;
+        }
+    }
+
+    return normalized;
+}
+
+function encodeHeader(header: StoreHeader): Buffer {
+    const buffer = Buffer.alloc(HEADER_SIZE);
+    buffer.write(MAGIC, 0, 'ascii');
+    buffer.writeUInt32LE(FORMAT_VERSION, 4);
+    buffer.writeUInt32LE(header.dimension, 8);
+    buffer.writeUInt32LE(header.count, 12);
+    buffer.writeUInt32LE(header.liveCount, 16);
+    buffer.writeInt32LE(header.entryPoint, 20);
+    buffer.writeInt32LE(header.maxLevel, 24);
+    // Offsets and lengths get 8-byte slots, written as 48-bit integers
+    buffer.writeUIntLE(header.graphOffset, 32, 6);
+    buffer.writeUIntLE(header.graphLength, 40, 6);
+    buffer.writeUIntLE(header.entriesOffset, 48, 6);
+    buffer.writeUIntLE(header.entriesLength, 56, 6);
+    return buffer;
+}
+
+function decodeHeader(buffer: Buffer): StoreHeader {
+    if (buffer.toString('ascii', 0, 4) !== MAGIC) {
+        throw new Error('Not an HNSW vector store file');
+    }
+    if (buffer.readUInt32LE(4) !== FORMAT_VERSION) {
+        throw new Error(`Unsupported HNSW vector store version ${buffer.readUInt32LE(4)}`);
+    }
+
+    return {
+        dimension: buffer.readUInt32LE(8),
+        count: buffer.readUInt32LE(12),
+        liveCount: buffer.readUInt32LE(16),
+        entryPoint: buffer.readInt32LE(20),
+        maxLevel: buffer.readInt32LE(24),
+        graphOffset: buffer.readUIntLE(32, 6),
+        graphLength: buffer.readUIntLE(40, 6),
+        entriesOffset: buffer.readUIntLE(48, 6),
+        entriesLength: buffer.readUIntLE(56, 6)
+    };
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    let offset = 0;
+
+    while (offset < length) {
+        const { bytesRead } = await handle.read(buffer, offset, length - offset, position + offset);
+        if (bytesRead === 0) {
+            throw new Error('Unexpected end of vector store file');
+        }
+        offset += bytesRead;
+    }
+
+    return buffer;
+}
@@ -7,6 +7,10 @@
 export * from './types';
 export * from './code-unit-extractor';
 export * from './embedding-generator';
+export * from './embedding-providers';
 export * from './vector-store';
+export * from './hnsw-vector-store';
+export * from './bm25-index';
 export * from './semantic-index';
+export * from './indexing-job';
 export * from './semantic-retrieval';
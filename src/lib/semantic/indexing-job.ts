@@ -0,0 +1,184 @@
+/**
+ * Background Semantic Indexing
+ *
+ * Runs one full-project index build per project inside the server process,
+ * outside the request that triggered it. Progress is polled through
+ * /api/indexing, partial progress is saved by loadOrBuildSemanticIndex so a
+ * restarted server resumes, and callers can search whatever is indexed so far.
+ * Once complete, the index is kept in memory and refreshed from file changes.
+ * A job that left units without embeddings counts as failed and is resumed
+ * by a later request, at most once per RETRY_INTERVAL_MS. Without a
+ * configured embedding provider, jobs only build the keyword index.
+ */
+
+import type { DependencyGraph } from '../context/types';
+import type { IndexingProgress, SemanticIndex } from './types';
+import { loadOrBuildSemanticIndex, refreshSemanticIndex } from './semantic-index';
+import { getEmbeddingProvider } from './embedding-providers';
+
+interface IndexingJob {
+    progress: IndexingProgress;
+
+    /** Latest index from the job: partial while running, final when complete */
+    index: SemanticIndex | null;
+
+    /** Settles once an index is available or the job has ended */
+    ready: Promise<void>;
+
+    /** Refresh of a completed index in progress, shared by concurrent requests */
+    refreshing: Promise<void> | null;
+
+    /** False when no embedding provider is configured and only keywords are indexed */
+    embeds: boolean;
+}
+
+// Minimum time between a failed job and its retry
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+const jobs = new Map<string, IndexingJob>();
+
+/**
+ * Start indexing a project unless a job is running or already completed
+ */
+export function startSemanticIndexing(
+    projectRoot: string,
+    graph: DependencyGraph,
+    options?: { forceRebuild?: boolean }
+): IndexingProgress {
+    const existing = jobs.get(projectRoot);
+    if (existing && (existing.progress.status === 'running' || (existing.progress.status === 'complete' && !options?.forceRebuild))) {
+        return existing.progress;
+    }
+
+    return createJob(projectRoot, graph, options?.forceRebuild).progress;
+}
+
+/**
+ * Progress of the project's indexing job, if one was started
+ */
+export function getIndexingProgress(projectRoot: string): IndexingProgress | null {
+    return jobs.get(projectRoot)?.progress || null;
+}
+
+/**
+ * Index to search right now, starting a background job if needed
+ *
+ * Returns a partial index while the job is running, or null when nothing
+ * has been indexed yet. A completed index is first updated for files that
+ * changed since it was built.
+ */
+export async function getAvailableSemanticIndex(
+    projectRoot: string,
+    graph: DependencyGraph
+): Promise<SemanticIndex | null> {
+    let job = jobs.get(projectRoot);
+    if (!job || (job.progress.status === 'failed' && Date.now() - job.progress.updatedAt >= RETRY_INTERVAL_MS)) {
+        job = createJob(projectRoot, graph, false);
+    }
+
+    await job.ready;
+
+    if (job.progress.status === 'complete' && job.index) {
+        await refreshJobIndex(job, job.index, graph);
+    }
+
+    return job.index;
+}
+
+function refreshJobIndex(job: IndexingJob, index: SemanticIndex, graph: DependencyGraph): Promise<void> {
+    if (!job.refreshing) {
+        job.refreshing = refreshSemanticIndex(index, graph)
+            .then(changed => {
+                if (changed) {
+                    job.progress.embedded = index.stats.totalEmbeddings;
+                    job.progress.updatedAt = Date.now();
+                }
+                if (job.embeds && !index.complete) {
+                    markIncomplete(job, index);
+                }
+            })
+            .catch((error: any) => {
+                // Keep serving the index as it was
+                console.error(`[SemanticIndex] Refresh failed for ${index.projectRoot}:`, error.message);
+            })
+            .finally(() => { job.refreshing = null; });
+    }
+    return job.refreshing;
+}
+
+function createJob(projectRoot: string, graph: DependencyGraph, forceRebuild?: boolean): IndexingJob {
+    let markReady!: () => void;
+    const now = Date.now();
+    const embeds = getEmbeddingProvider().isConfigured();
+
+    const job: IndexingJob = {
+        progress: {
+            projectRoot,
+            status: 'running',
+            message: 'Extracting code units',
+            current: 0,
+            total: 0,
+            embedded: 0,
+            startedAt: now,
+            updatedAt: now
+        },
+        index: null,
+        ready: new Promise<void>(resolve => { markReady = resolve; }),
+        refreshing: null,
+        embeds
+    };
+    jobs.set(projectRoot, job);
+
+    console.log(`[SemanticIndex] Background indexing started for ${projectRoot}`);
+
+    loadOrBuildSemanticIndex(projectRoot, graph, {
+        forceRebuild,
+        skipEmbeddings: !embeds,
+        onProgress: (current, total, message) => {
+            Object.assign(job.progress, { current, total, message, updatedAt: Date.now() });
+        },
+        onCheckpoint: (index) => {
+            job.index = index;
+            job.progress.embedded = index.stats.totalEmbeddings;
+            job.progress.updatedAt = Date.now();
+            markReady();
+        }
+    }).then(({ index }) => {
+        job.index = index;
+        if (embeds && !index.complete) {
+            markIncomplete(job, index);
+            return;
+        }
+        Object.assign(job.progress, {
+            status: 'complete',
+            message: embeds ? 'Complete' : 'Complete (keyword search only, no embedding provider configured)',
+            embedded: index.stats.totalEmbeddings,
+            updatedAt: Date.now()
+        });
+        console.log(`[SemanticIndex] Background indexing finished for ${projectRoot}`);
+    }).catch((error: any) => {
+        Object.assign(job.progress, {
+            status: 'failed',
+            error: error.message || 'Unknown error',
+            updatedAt: Date.now()
+        });
+        console.error(`[SemanticIndex] Background indexing failed for ${projectRoot}:`, error.message);
+    }).finally(markReady);
+
+    return job;
+}
+
+/**
+ * Fail a job whose index still lacks embeddings, so it is resumed later
+ */
+function markIncomplete(job: IndexingJob, index: SemanticIndex): void {
+    const missing = index.stats.totalUnits - index.stats.totalEmbeddings;
+    Object.assign(job.progress, {
+        status: 'failed',
+        message: 'Incomplete',
+        embedded: index.stats.totalEmbeddings,
+        error: `${missing} units could not be embedded`,
+        updatedAt: Date.now()
+    });
+    console.error(`[SemanticIndex] Indexing of ${index.projectRoot} incomplete: ${missing} units could not be embedded`);
+}
@@ -8,23 +8,36 @@
 import fs from 'fs/promises';
 import path from 'path';
 import type { DependencyGraph } from '../context/types';
-import type { SemanticIndex, CodeUnit, IndexBuildOptions, SerializedSemanticIndex } from './types';
+import type { SemanticIndex, CodeUnit, EmbeddingProvider, EmbeddingResult, IndexBuildOptions, IndexedFile, SerializedSemanticIndex } from './types';
 import { extractCodeUnits, enrichUnitsWithCode } from './code-unit-extractor';
 import { batchGenerateEmbeddings, incrementalGenerateEmbeddings } from './embedding-generator';
-import { InMemoryVectorStore } from './vector-store';
+import { getEmbeddingProvider } from './embedding-providers';
+import { HnswVectorStore } from './hnsw-vector-store';
+import { Bm25Index } from './bm25-index';
+import { unitFilterFields } from './vector-store';
 import crypto from 'crypto';
 
 const CACHE_DIR = path.join(process.cwd(), 'node_modules', '.cache', 'codeinterpreter', 'semantic');
-const INDEX_VERSION = '1.0.0';
+const INDEX_VERSION = '2.2.0';
+
+// Units embedded between saves of a partial index
+const CHECKPOINT_UNITS = 500;
 
 /**
  * Build semantic index from dependency graph
+ *
+ * Embeddings are generated in chunks of options.checkpointEvery units; the
+ * partial index is handed to options.onCheckpoint before the first chunk and
+ * after each one. Units already embedded in options.resumeFrom with the same
+ * content hash are not embedded again. The index is only complete when every
+ * unit got an embedding; the rest are retried when the build is resumed.
  */
 export async function buildSemanticIndex(
     graph: DependencyGraph,
     options?: IndexBuildOptions
 ): Promise<SemanticIndex> {
     const startTime = Date.now();
+    const provider = options?.embeddingProvider || getEmbeddingProvider();
 
     console.log('[SemanticIndex] Building semantic index...');
 
@@ -50,50 +63,78 @@ export async function buildSemanticIndex(
 
     console.log(`[SemanticIndex] Extracted ${validUnits.length} valid units`);
 
-    // Create vector store
-    const vectorStore = new InMemoryVectorStore();
-
-    // Generate embeddings (unless skipped for testing)
-    const embeddings = new Map<string, number[]>();
-
-    if (!options?.skipEmbeddings) {
-        const embeddingResults = await batchGenerateEmbeddings(validUnits, {
-            onProgress: options?.onProgress ? (curr, tot) => options.onProgress!(curr, tot, 'Generating embeddings') : undefined
-        });
-
-        // Insert into vector store and build embeddings map
-        for (const [unitId, result] of embeddingResults) {
-            const unit = validUnits.find(u => u.id === unitId);
-            if (unit) {
-                await vectorStore.insert(unitId, result.embedding, { unit });
-                embeddings.set(unitId, result.embedding);
-            }
-        }
-    }
-
     // Build units map
     const unitsMap = new Map(validUnits.map(u => [u.id, u]));
 
-    // Calculate stats
-    const languageBreakdown: Record<string, number> = {};
-    for (const unit of validUnits) {
-        languageBreakdown[unit.language] = (languageBreakdown[unit.language] || 0) + 1;
-    }
+    // Create vector store, or continue filling the one of a partial index
+    const vectorStore = options?.resumeFrom?.vectorStore || new HnswVectorStore();
+    const pendingUnits = options?.resumeFrom
+        ? await reuseEmbeddings(vectorStore, options.resumeFrom.units, unitsMap)
+        : Array.from(unitsMap.values());
 
     const index: SemanticIndex = {
         units: unitsMap,
-        embeddings,
+        files: indexedFiles(graph, graph.files.keys()),
         vectorStore,
+        lexicalIndex: createLexicalIndex(unitsMap.values()),
         lastUpdated: Date.now(),
         projectRoot: graph.projectRoot,
         version: INDEX_VERSION,
+        embeddingModel: provider.model,
+        complete: false,
         stats: {
             totalUnits: unitsMap.size,
-            totalEmbeddings: embeddings.size,
-            languageBreakdown
+            totalEmbeddings: vectorStore.size(),
+            languageBreakdown: countLanguages(unitsMap.values())
         }
     };
 
+    // Generate embeddings (unless skipped for testing)
+    if (!options?.skipEmbeddings) {
+        const chunkSize = options?.checkpointEvery || pendingUnits.length || 1;
+        let embedded = unitsMap.size - pendingUnits.length;
+
+        if (options?.resumeFrom) {
+            console.log(`[SemanticIndex] Resuming: ${embedded}/${unitsMap.size} units already embedded`);
+        }
+
+        await options?.onCheckpoint?.(index);
+
+        for (let i = 0; i < pendingUnits.length; i += chunkSize) {
+            const chunk = pendingUnits.slice(i, i + chunkSize);
+            const done = embedded;
+
+            const embeddingResults = await batchGenerateEmbeddings(chunk, {
+                provider,
+                onProgress: options?.onProgress
+                    ? (curr) => options.onProgress!(done + curr, unitsMap.size, 'Generating embeddings')
+                    : undefined
+            });
+
+            // Insert into vector store
+            for (const [unitId, result] of embeddingResults) {
+                const unit = unitsMap.get(unitId);
+                if (unit) {
+                    await vectorStore.insert(unitId, result.embedding, unitFilterFields(unit));
+                }
+            }
+
+            embedded += chunk.length;
+            index.stats.totalEmbeddings = vectorStore.size();
+            index.lastUpdated = Date.now();
+
+            if (embedded < unitsMap.size) {
+                await options?.onCheckpoint?.(index);
+            }
+        }
+    }
+
+    index.complete = !options?.skipEmbeddings && vectorStore.size() === unitsMap.size;
+
+    if (!options?.skipEmbeddings && !index.complete) {
+        console.log(`[SemanticIndex] ${unitsMap.size - vectorStore.size()} units could not be embedded`);
+    }
+
     const duration = Date.now() - startTime;
     console.log(`[SemanticIndex] Index built in ${duration}ms`);
     console.log(`[SemanticIndex] Stats:`, index.stats);
@@ -101,76 +142,122 @@ export async function buildSemanticIndex(
     return index;
 }
 
+/**
+ * Keep embeddings of a partial index whose units are unchanged
+ *
+ * Returns the units that still need an embedding.
+ */
+async function reuseEmbeddings(
+    vectorStore: SemanticIndex['vectorStore'],
+    previousUnits: Map<string, CodeUnit>,
+    units: Map<string, CodeUnit>
+): Promise<CodeUnit[]> {
+    for (const [unitId, previous] of previousUnits) {
+        const unit = units.get(unitId);
+
+        // Units that only moved within their file keep their vector; the store
+        // holds just their filter fields, the current unit is in index.units
+        if (!unit || unit.metadata.hash !== previous.metadata.hash) {
+            await vectorStore.delete(unitId);
+        }
+    }
+
+    // Changed units, and unchanged ones whose embedding failed last time
+    const pending: CodeUnit[] = [];
+    for (const unit of units.values()) {
+        if (previousUnits.get(unit.id)?.metadata.hash !== unit.metadata.hash ||
+            !(await vectorStore.getEmbedding(unit.id))) {
+            pending.push(unit);
+        }
+    }
+    return pending;
+}
+
 /**
  * Update semantic index with changed files
+ *
+ * changedFiles may include added and deleted files; units are re-extracted
+ * from the graph for those still in it, and only units whose content hash
+ * changed get a new embedding (none when the provider isn't configured).
  */
 export async function updateSemanticIndex(
     index: SemanticIndex,
     changedFiles: string[],
-    graph: DependencyGraph
+    graph: DependencyGraph,
+    provider: EmbeddingProvider = getEmbeddingProvider()
 ): Promise<SemanticIndex> {
     console.log(`[SemanticIndex] Updating index for ${changedFiles.length} changed files...`);
 
+    const changed = new Set(changedFiles);
+
     // Remove units from changed files
     const unitsToRemove: string[] = [];
     for (const [unitId, unit] of index.units) {
-        if (changedFiles.includes(unit.file)) {
+        if (changed.has(unit.file)) {
             unitsToRemove.push(unitId);
         }
     }
 
+    // Keep their embeddings so units whose content didn't change are reused
+    const existingEmbeddingResults = new Map<string, EmbeddingResult>();
+
     for (const unitId of unitsToRemove) {
+        const embedding = await index.vectorStore.getEmbedding(unitId);
+        if (embedding) {
+            existingEmbeddingResults.set(unitId, {
+                unitId,
+                embedding,
+                model: index.embeddingModel,
+                timestamp: Date.now(),
+                contentHash: index.units.get(unitId)?.metadata.hash || ''
+            });
+        }
+
         index.units.delete(unitId);
-        index.embeddings.delete(unitId);
+        index.lexicalIndex.remove(unitId);
         await index.vectorStore.delete(unitId);
     }
 
-    // Extract new units from changed files
-    const newUnits = extractCodeUnits(graph).filter(u =>
-        changedFiles.includes(u.file)
-    );
+    // Extract new units from changed files (deleted files are no longer in the graph)
+    const newUnits = extractCodeUnits(graph).filter(u => changed.has(u.file));
 
     // Enrich with code
-    const enrichedNewUnits = await enrichUnitsWithCode(newUnits, async (filePath) => {
+    const enrichedNewUnits = (await enrichUnitsWithCode(newUnits, async (filePath) => {
         try {
             return await fs.readFile(filePath, 'utf-8');
         } catch {
             return '';
         }
-    });
+    })).filter(u => u.code.trim().length > 0);
 
     // Generate embeddings for new units
-    const existingEmbeddingResults = new Map(
-        Array.from(index.embeddings.entries()).map(([id, emb]) => [
-            id,
-            {
-                unitId: id,
-                embedding: emb,
-                model: 'text-embedding-004',
-                timestamp: Date.now(),
-                contentHash: index.units.get(id)?.metadata.hash || ''
-            }
-        ])
-    );
-
-    const newEmbeddings = await incrementalGenerateEmbeddings(
-        enrichedNewUnits,
-        existingEmbeddingResults
-    );
-
-    // Insert into vector store
-    for (const [unitId, result] of newEmbeddings) {
-        const unit = enrichedNewUnits.find(u => u.id === unitId);
-        if (unit) {
-            await index.vectorStore.insert(unitId, result.embedding, { unit });
-            index.embeddings.set(unitId, result.embedding);
-            index.units.set(unitId, unit);
+    const newEmbeddings = provider.isConfigured()
+        ? await incrementalGenerateEmbeddings(enrichedNewUnits, existingEmbeddingResults, { provider })
+        : new Map<string, EmbeddingResult>();
+
+    // Insert into vector store; units that failed to embed are kept for the next resume
+    for (const unit of enrichedNewUnits) {
+        const result = newEmbeddings.get(unit.id);
+        if (result) {
+            await index.vectorStore.insert(unit.id, result.embedding, unitFilterFields(unit));
         }
+        index.units.set(unit.id, unit);
+        index.lexicalIndex.add(unit);
+    }
+
+    // Record the new file states
+    for (const filePath of changed) {
+        index.files.delete(filePath);
+    }
+    for (const [filePath, file] of indexedFiles(graph, changed)) {
+        index.files.set(filePath, file);
     }
 
     // Update stats
     index.stats.totalUnits = index.units.size;
-    index.stats.totalEmbeddings = index.embeddings.size;
+    index.stats.totalEmbeddings = index.vectorStore.size();
+    index.stats.languageBreakdown = countLanguages(index.units.values());
+    index.complete = index.complete && index.vectorStore.size() === index.units.size;
     index.lastUpdated = Date.now();
 
     console.log('[SemanticIndex] Index updated');
@@ -178,8 +265,75 @@ export async function updateSemanticIndex(
     return index;
 }
 
+/**
+ * Bring an index up to date with the project and save it when anything changed
+ *
+ * Files are compared by content hash with the graph, in memory, so the graph
+ * must be current (see loadOrBuildGraph). Files only in the index were
+ * deleted; files only in the graph are new.
+ */
+export async function refreshSemanticIndex(
+    index: SemanticIndex,
+    graph: DependencyGraph,
+    provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<boolean> {
+    const changedFiles: string[] = [];
+
+    for (const [filePath, file] of index.files) {
+        if (graph.files.get(filePath)?.hash !== file.hash) {
+            changedFiles.push(filePath);
+        }
+    }
+
+    for (const filePath of graph.files.keys()) {
+        if (!index.files.has(filePath)) {
+            changedFiles.push(filePath);
+        }
+    }
+
+    if (changedFiles.length === 0) {
+        return false;
+    }
+
+    await updateSemanticIndex(index, changedFiles, graph, provider);
+    await saveIndexToCache(index);
+    return true;
+}
+
+/**
+ * File states from the graph for the given files (skipping ones not in it)
+ */
+function indexedFiles(graph: DependencyGraph, filePaths: Iterable<string>): Map<string, IndexedFile> {
+    const files = new Map<string, IndexedFile>();
+    for (const filePath of filePaths) {
+        const metadata = graph.files.get(filePath);
+        if (metadata) {
+            files.set(filePath, { hash: metadata.hash, lastModified: metadata.lastModified });
+        }
+    }
+    return files;
+}
+
+function createLexicalIndex(units: Iterable<CodeUnit>): Bm25Index {
+    const lexicalIndex = new Bm25Index();
+    for (const unit of units) {
+        lexicalIndex.add(unit);
+    }
+    return lexicalIndex;
+}
+
+function countLanguages(units: Iterable<CodeUnit>): Record<string, number> {
+    const languageBreakdown: Record<string, number> = {};
+    for (const unit of units) {
+        languageBreakdown[unit.language] = (languageBreakdown[unit.language] || 0) + 1;
+    }
+    return languageBreakdown;
+}
+
 /**
  * Load or build semantic index with caching
+ *
+ * A partial index left in the cache by an interrupted build is resumed.
  */
 export async function loadOrBuildSemanticIndex(
     projectRoot: string,
@@ -187,23 +341,42 @@ export async function loadOrBuildSemanticIndex(
     options?: IndexBuildOptions
 ): Promise<{ index: SemanticIndex; fromCache: boolean; duration: number }> {
     const startTime = Date.now();
+    const provider = options?.embeddingProvider || getEmbeddingProvider();
+
+    let partial: SemanticIndex | null = null;
 
     if (!options?.forceRebuild) {
-        // Try to load from cache
-        const cached = await loadIndexFromCache(projectRoot);
+        // Try to load from cache (an index of another embedding model is rebuilt)
+        const cached = await loadIndexFromCache(projectRoot, provider.model);
+
+        if (cached?.complete) {
+            // Re-embed units of files edited, added or deleted since the cache was written
+            await refreshSemanticIndex(cached, graph, provider);
 
-        if (cached) {
             const duration = Date.now() - startTime;
             console.log(`[SemanticIndex] Loaded from cache in ${duration}ms`);
             return { index: cached, fromCache: true, duration };
         }
+
+        partial = cached;
     }
 
-    // Build new index
-    const index = await buildSemanticIndex(graph, options);
+    // Build new index, or finish an interrupted build; progress is saved as it goes
+    const index = await buildSemanticIndex(graph, {
+        checkpointEvery: CHECKPOINT_UNITS,
+        ...options,
+        embeddingProvider: provider,
+        resumeFrom: partial || undefined,
+        onCheckpoint: async (current) => {
+            await saveIndexToCache(current);
+            await options?.onCheckpoint?.(current);
+        }
+    });
 
-    // Save to cache
-    await saveIndexToCache(index);
+    // Save to cache (an index without embeddings has nothing to restore)
+    if (!options?.skipEmbeddings) {
+        await saveIndexToCache(index);
+    }
 
     const duration = Date.now() - startTime;
     return { index, fromCache: false, duration };
@@ -213,8 +386,19 @@ export async function loadOrBuildSemanticIndex(
  * Get cache path for a project
  */
 function getCachePath(projectRoot: string): string {
+    return path.join(CACHE_DIR, `${getCacheName(projectRoot)}.json`);
+}
+
+/**
+ * Get vector store file name for a project (relative to CACHE_DIR)
+ */
+function getVectorStoreFile(projectRoot: string): string {
+    return `${getCacheName(projectRoot)}.hnsw`;
+}
+
+function getCacheName(projectRoot: string): string {
     const hash = crypto.createHash('md5').update(projectRoot).digest('hex');
-    return path.join(CACHE_DIR, `semantic-index-${hash}.json`);
+    return `semantic-index-${hash}`;
 }
 
 /**
@@ -226,18 +410,24 @@ async function saveIndexToCache(index: SemanticIndex): Promise<void> {
     // Ensure cache directory exists
     await fs.mkdir(path.dirname(cachePath), { recursive: true });
 
+    // Written first so the JSON never points at a missing store
+    const vectorStoreFile = getVectorStoreFile(index.projectRoot);
+    await index.vectorStore.save(path.join(CACHE_DIR, vectorStoreFile));
+
     // Serialize index
     const serialized: SerializedSemanticIndex = {
-        units: Array.from(index.units.entries()),
-        embeddings: Array.from(index.embeddings.entries()),
         lastUpdated: index.lastUpdated,
         projectRoot: index.projectRoot,
         version: index.version,
+        embeddingModel: index.embeddingModel,
+        complete: index.complete,
+        units: Array.from(index.units.values()),
+        files: Array.from(index.files.entries()),
         stats: index.stats,
-        vectorStoreData: null  // Vector store will be reconstructed
+        vectorStoreFile
     };
 
-    await fs.writeFile(cachePath, JSON.stringify(serialized, null, 2), 'utf-8');
+    await fs.writeFile(cachePath, JSON.stringify(serialized), 'utf-8');
 
     console.log(`[SemanticIndex] Saved to cache: ${cachePath}`);
 }
@@ -245,7 +435,7 @@ async function saveIndexToCache(index: SemanticIndex): Promise<void> {
 /**
  * Load index from cache
  */
-async function loadIndexFromCache(projectRoot: string): Promise<SemanticIndex | null> {
+async function loadIndexFromCache(projectRoot: string, embeddingModel: string): Promise<SemanticIndex | null> {
     const cachePath = getCachePath(projectRoot);
 
     try {
@@ -258,26 +448,33 @@ async function loadIndexFromCache(projectRoot: string): Promise<SemanticIndex |
             return null;
         }
 
-        // Reconstruct index
-        const vectorStore = new InMemoryVectorStore();
-        const units = new Map(serialized.units);
-        const embeddings = new Map(serialized.embeddings);
+        // Vectors of different models can't be compared
+        if (serialized.embeddingModel !== embeddingModel) {
+            console.log(`[SemanticIndex] Cache built with ${serialized.embeddingModel}, now using ${embeddingModel}; rebuilding...`);
+            return null;
+        }
 
-        // Rebuild vector store
-        for (const [unitId, embedding] of embeddings) {
-            const unit = units.get(unitId);
-            if (unit) {
-                await vectorStore.insert(unitId, embedding, { unit });
-            }
+        // Reconstruct index; vectors are read on the first search
+        const vectorStore = new HnswVectorStore();
+        await vectorStore.load(path.join(CACHE_DIR, serialized.vectorStoreFile));
+
+        if (vectorStore.size() !== serialized.stats.totalEmbeddings) {
+            console.log('[SemanticIndex] Vector store missing or incomplete, rebuilding...');
+            return null;
         }
 
+        const units = new Map(serialized.units.map(unit => [unit.id, unit]));
+
         const index: SemanticIndex = {
             units,
-            embeddings,
+            files: new Map(serialized.files),
             vectorStore,
+            lexicalIndex: createLexicalIndex(units.values()),
             lastUpdated: serialized.lastUpdated,
             projectRoot: serialized.projectRoot,
             version: serialized.version,
+            embeddingModel: serialized.embeddingModel,
+            complete: serialized.complete,
             stats: serialized.stats
         };
 
@@ -297,6 +494,7 @@ export async function clearSemanticCache(projectRoot: string): Promise<void> {
 
     try {
         await fs.unlink(cachePath);
+        await fs.unlink(path.join(CACHE_DIR, getVectorStoreFile(projectRoot)));
         console.log('[SemanticIndex] Cache cleared');
     } catch (error) {
         // Cache doesn't exist, that's fine
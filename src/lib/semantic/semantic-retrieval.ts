@@ -2,11 +2,14 @@
  * Semantic Retrieval
  * 
  * Semantic code search with multi-band confidence thresholding and
- * multi-signal ranking as specified by user requirements.
+ * multi-signal ranking as specified by user requirements. Vector results
+ * are fused with BM25 keyword results so exact identifiers and literal
+ * strings are found too.
  */
 
-import type { SemanticIndex, QueryContext, RankedResult, RetrievalOptions } from './types';
+import type { SemanticIndex, CodeUnit, QueryContext, RankedResult, RetrievalOptions, CodeSearchOptions, SearchOptions, SearchResult } from './types';
 import { generateEmbedding } from './embedding-generator';
+import { getEmbeddingProvider } from './embedding-providers';
 import path from 'path';
 
 // Confidence thresholds as per user spec
@@ -18,6 +21,38 @@ const LOW_CONFIDENCE = 0.0;      // Ignore
 const DEFAULT_MAX_RESULTS = 3;
 const MAX_RESULTS_WITH_JUSTIFICATION = 5;
 
+// Free-text search: questions embed further from code than code does
+const SEARCH_MIN_SIMILARITY = 0.35;
+const SEARCH_MAX_RESULTS = 20;
+
+// Reciprocal rank fusion: a list's rank r contributes 1 / (RRF_K + r)
+const RRF_K = 60;
+
+// Shortest query checked for a verbatim occurrence in the code
+const MIN_LITERAL_LENGTH = 6;
+
+/**
+ * A unit found by vector and/or keyword search
+ */
+interface HybridCandidate {
+    unit: CodeUnit;
+
+    /** Higher of semantic similarity and keyword score (0-1) */
+    score: number;
+
+    /** Cosine similarity, when vector search found the unit */
+    similarity?: number;
+
+    /** Whether the unit's code contains the literal text verbatim */
+    verbatim: boolean;
+
+    /** Reciprocal rank fusion score, used for ordering */
+    fusedScore: number;
+
+    /** Why the unit was found */
+    reasons: string[];
+}
+
 /**
  * Retrieve relevant code using semantic search
  */
@@ -28,27 +63,34 @@ export async function retrieveRelevantCode(
 ): Promise<RankedResult[]> {
     console.log(`[SemanticRetrieval] Searching for: "${query.targetLine}"`);
 
-    // Build semantic query
+    // Build semantic query; keywords come from the line and its symbols only
     const queryText = buildQueryText(query);
-    const queryEmbedding = await generateEmbedding(queryText);
+    const keywordText = [query.targetLine, ...query.symbols].join(' ');
 
-    // Search vector store
-    const vectorResults = await index.vectorStore.search(queryEmbedding, {
+    // Search vector store and keyword index
+    const candidates = await hybridSearch(index, queryText, keywordText, query.targetLine, {
         topK: 20,  // Get more than needed for re-ranking
         filters: {
             language: query.language,
             excludeFiles: options?.excludeCurrentFile ? [query.currentFile] : undefined
         },
-        minSimilarity: MEDIUM_CONFIDENCE  // Use medium as minimum
+        minSimilarity: MEDIUM_CONFIDENCE,  // Use medium as minimum
+        minKeywordScore: 0  // Keyword-only units are judged by rankKeywordOnly
     });
 
-    console.log(`[SemanticRetrieval] Found ${vectorResults.length} initial results`);
+    console.log(`[SemanticRetrieval] Found ${candidates.length} initial results`);
+
+    // Score with multi-signal scoring (order stays the fused rank order)
+    const ranked = candidates.map((candidate): RankedResult => {
+        const unit = candidate.unit;
+        const reasons = [...candidate.reasons];
+
+        if (candidate.similarity === undefined) {
+            return rankKeywordOnly(candidate, query, reasons);
+        }
 
-    // Re-rank with multi-signal scoring
-    const ranked = vectorResults.map(result => {
-        const unit = result.metadata.unit;
-        let score = result.similarity;
-        const reasons: string[] = [`Semantic similarity: ${score.toFixed(3)}`];
+        // The bands are cosine thresholds, so keyword scores don't count towards them
+        let score = candidate.similarity;
 
         // Signal 1: Symbol name match
         if (unit.symbol && query.symbols.includes(unit.symbol)) {
@@ -108,9 +150,6 @@ export async function retrieveRelevantCode(
         };
     });
 
-    // Sort by score
-    ranked.sort((a, b) => b.score - a.score);
-
     // Apply filtering rules
     const filtered = applyFilteringRules(ranked, query, options);
 
@@ -126,6 +165,181 @@ export async function retrieveRelevantCode(
     return final;
 }
 
+/**
+ * Search the index with a natural-language query ("where do we hash passwords?")
+ *
+ * Ranked by fusing embedding similarity with keyword matches; the score is
+ * boosted when query words appear in the unit's symbol name or documentation.
+ */
+export async function searchCode(
+    queryText: string,
+    index: SemanticIndex,
+    options?: CodeSearchOptions
+): Promise<RankedResult[]> {
+    console.log(`[SemanticRetrieval] Code search: "${queryText}"`);
+
+    const maxResults = options?.maxResults ?? SEARCH_MAX_RESULTS;
+
+    const candidates = await hybridSearch(index, queryText, queryText, queryText, {
+        topK: maxResults * 2,  // Fusion may reorder the tail
+        filters: options?.language ? { language: options.language } : undefined,
+        minSimilarity: options?.minSimilarity ?? SEARCH_MIN_SIMILARITY
+    });
+
+    const terms = tokenizeQuery(queryText);
+
+    const ranked = candidates.map(candidate => {
+        const unit = candidate.unit;
+        let score = candidate.score;
+        const reasons = [...candidate.reasons];
+
+        // Signal 1: Query words in the symbol name (camelCase/snake_case split)
+        if (unit.symbol) {
+            const symbolWords = new Set(tokenizeQuery(unit.symbol));
+            const matched = terms.filter(term => symbolWords.has(term));
+            if (matched.length > 0) {
+                score += Math.min(0.1 * matched.length, 0.2);
+                reasons.push(`Symbol name match: ${matched.join(', ')}`);
+            }
+        }
+
+        // Signal 2: Query words in the documentation
+        if (unit.documentation) {
+            const doc = unit.documentation.toLowerCase();
+            const matched = terms.filter(term => doc.includes(term));
+            if (matched.length > 0) {
+                score += 0.05;
+                reasons.push(`Documentation mentions: ${matched.join(', ')}`);
+            }
+        }
+
+        // Signal 3: Export preference (definitions over usages)
+        if (unit.isExported) {
+            score += 0.02;
+            reasons.push('Exported symbol (definition)');
+        }
+
+        score = Math.min(score, 1.0);
+
+        const confidence: RankedResult['confidence'] =
+            score >= HIGH_CONFIDENCE ? 'high' : score >= MEDIUM_CONFIDENCE ? 'medium' : 'low';
+
+        return {
+            unit,
+            score,
+            confidence,
+            matchReasons: reasons,
+            autoInclude: confidence === 'high'
+        };
+    });
+
+    console.log(`[SemanticRetrieval] Code search returning ${Math.min(ranked.length, maxResults)} of ${ranked.length} results`);
+
+    return ranked.slice(0, maxResults);
+}
+
+/**
+ * Vector and keyword candidates, merged by reciprocal rank fusion
+ *
+ * Only keyword matches are used when the index has no embeddings yet, no
+ * embedding provider is configured or the query can't be embedded. A keyword match scores its share of the query
+ * terms, scaled by its BM25 score relative to the best match (1 when the
+ * unit contains `literal` verbatim); options.minKeywordScore (default
+ * options.minSimilarity) applies to that score for units the vector search
+ * didn't find.
+ */
+async function hybridSearch(
+    index: SemanticIndex,
+    queryText: string,
+    keywordText: string,
+    literal: string,
+    options: SearchOptions & { minKeywordScore?: number }
+): Promise<HybridCandidate[]> {
+    const provider = getEmbeddingProvider();
+
+    let vectorResults: SearchResult[] = [];
+    if (index.vectorStore.size() > 0 && provider.isConfigured()) {
+        try {
+            const queryEmbedding = await generateEmbedding(queryText, provider);
+            vectorResults = await index.vectorStore.search(queryEmbedding, options);
+        } catch (error: any) {
+            console.error('[SemanticRetrieval] Vector search failed, using keyword matches only:', error.message);
+        }
+    }
+
+    const lexicalResults = index.lexicalIndex.search(keywordText, {
+        topK: options.topK,
+        filters: options.filters
+    });
+
+    const candidates = new Map<string, HybridCandidate>();
+
+    vectorResults.forEach((result, rank) => {
+        // The store keeps only filter fields; the unit comes from the index
+        const unit = index.units.get(result.id);
+        if (!unit) {
+            return;
+        }
+
+        candidates.set(result.id, {
+            unit,
+            score: result.similarity,
+            similarity: result.similarity,
+            verbatim: false,
+            fusedScore: 1 / (RRF_K + rank + 1),
+            reasons: [`Semantic similarity: ${result.similarity.toFixed(3)}`]
+        });
+    });
+
+    // Units containing the query verbatim (a log message, a config key) rank first
+    const trimmedLiteral = literal.trim();
+    const bestScore = lexicalResults[0]?.score || 0;
+    const keywordMatches = lexicalResults
+        .map(result => ({
+            result,
+            verbatim: trimmedLiteral.length >= MIN_LITERAL_LENGTH && result.metadata.unit.code.includes(trimmedLiteral)
+        }))
+        .sort((a, b) => Number(b.verbatim) - Number(a.verbatim));
+
+    keywordMatches.forEach(({ result, verbatim }, rank) => {
+        const keywordScore = verbatim
+            ? 1
+            : (result.score / bestScore) * (result.matchedTerms.length / result.queryTerms);
+        const reason = verbatim ? 'Exact text match' : `Keyword match: ${result.matchedTerms.join(', ')}`;
+
+        const candidate = candidates.get(result.id);
+        if (candidate) {
+            candidate.score = Math.max(candidate.score, keywordScore);
+            candidate.verbatim = verbatim;
+            candidate.fusedScore += 1 / (RRF_K + rank + 1);
+            candidate.reasons.push(reason);
+        } else if (keywordScore >= (options.minKeywordScore ?? options.minSimilarity ?? 0)) {
+            candidates.set(result.id, {
+                unit: result.metadata.unit,
+                score: keywordScore,
+                verbatim,
+                fusedScore: 1 / (RRF_K + rank + 1),
+                reasons: [reason]
+            });
+        }
+    });
+
+    console.log(`[SemanticRetrieval] ${vectorResults.length} vector and ${lexicalResults.length} keyword results`);
+
+    return Array.from(candidates.values()).sort((a, b) => b.fusedScore - a.fusedScore);
+}
+
+/**
+ * Lowercase words of a query or identifier, splitting camelCase and snake_case
+ */
+function tokenizeQuery(text: string): string[] {
+    return text
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word.length > 2);
+}
+
 /**
  * Build query text from context
  */
@@ -149,6 +363,40 @@ function buildQueryText(query: QueryContext): string {
     return parts.join('\n\n');
 }
 
+/**
+ * Rank a unit only the keyword index found
+ *
+ * BM25 scores are relative to the best match, so the top hit always scores
+ * near 1 and can't be compared with the cosine bands. Keyword-only units are
+ * at most medium confidence, and only included when they define a symbol
+ * from the line or contain the line verbatim.
+ */
+function rankKeywordOnly(
+    candidate: HybridCandidate,
+    query: QueryContext,
+    reasons: string[]
+): RankedResult {
+    const unit = candidate.unit;
+    const definesSymbol = Boolean(unit.symbol && query.symbols.includes(unit.symbol));
+
+    if (!definesSymbol && !candidate.verbatim) {
+        return { unit, score: 0, confidence: 'low', matchReasons: reasons, autoInclude: false };
+    }
+
+    if (definesSymbol) {
+        reasons.push('Symbol name match');
+    }
+    reasons.push('Keyword only (no semantic similarity)');
+
+    return {
+        unit,
+        score: MEDIUM_CONFIDENCE,
+        confidence: 'medium',
+        matchReasons: reasons,
+        autoInclude: true
+    };
+}
+
 /**
  * Determine if medium-confidence result should be included
  * 
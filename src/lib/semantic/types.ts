@@ -60,10 +60,10 @@ export interface EmbeddingResult {
     /** Unit ID this embedding belongs to */
     unitId: string;
 
-    /** Vector embedding (typically 768 dimensions) */
+    /** Vector embedding (dimensions depend on the model) */
     embedding: number[];
 
-    /** Model used to generate embedding */
+    /** Model used to generate embedding (EmbeddingProvider.model) */
     model: string;
 
     /** When this embedding was generated */
@@ -73,6 +73,28 @@ export interface EmbeddingResult {
     contentHash: string;
 }
 
+/**
+ * Supported embedding provider identifiers
+ */
+export type EmbeddingProviderName = 'gemini' | 'local' | 'hash';
+
+/**
+ * A backend that turns text into embedding vectors
+ */
+export interface EmbeddingProvider {
+    /** Provider identifier */
+    name: EmbeddingProviderName;
+
+    /** Model identifier; vectors from different models are never mixed in one index */
+    model: string;
+
+    /** Whether the provider has the credentials/model files it needs */
+    isConfigured(): boolean;
+
+    /** Embed texts, returning one vector per text in the same order */
+    embed(texts: string[]): Promise<number[][]>;
+}
+
 /**
  * Options for searching the vector store
  */
@@ -96,6 +118,11 @@ export interface SearchOptions {
     minSimilarity?: number;
 }
 
+/**
+ * Unit fields a vector store keeps next to each vector, for search filters
+ */
+export type UnitFilterFields = Pick<CodeUnit, 'file' | 'language' | 'type'>;
+
 /**
  * Search result from vector store
  */
@@ -106,10 +133,29 @@ export interface SearchResult {
     /** Cosine similarity score (0-1) */
     similarity: number;
 
+    /** Filter fields stored with the vector; the unit itself is in SemanticIndex.units */
+    metadata: UnitFilterFields;
+}
+
+/**
+ * Search result from the lexical (keyword) index
+ */
+export interface LexicalSearchResult {
+    /** Unit ID */
+    id: string;
+
+    /** BM25 score; unbounded, only comparable within one query */
+    score: number;
+
+    /** Query terms found in the unit */
+    matchedTerms: string[];
+
+    /** Number of distinct terms in the query */
+    queryTerms: number;
+
     /** Metadata about the result */
     metadata: {
         unit: CodeUnit;
-        matchReasons?: string[];
     };
 }
 
@@ -163,12 +209,15 @@ export interface SemanticIndex {
     /** All code units indexed */
     units: Map<string, CodeUnit>;
 
-    /** Embeddings for each unit */
-    embeddings: Map<string, number[]>;
+    /** Project files as they were when their units were indexed */
+    files: Map<string, IndexedFile>;
 
-    /** Vector store instance */
+    /** Vector store instance (holds the embeddings) */
     vectorStore: VectorStore;
 
+    /** Keyword index over the units; kept in memory and rebuilt from them on load */
+    lexicalIndex: LexicalIndex;
+
     /** When this index was last updated */
     lastUpdated: number;
 
@@ -178,6 +227,12 @@ export interface SemanticIndex {
     /** Index version */
     version: string;
 
+    /** Embedding model of all vectors in the store (EmbeddingProvider.model) */
+    embeddingModel: string;
+
+    /** True once every unit has an embedding; until then search covers what is done */
+    complete: boolean;
+
     /** Statistics */
     stats: {
         totalUnits: number;
@@ -186,6 +241,14 @@ export interface SemanticIndex {
     };
 }
 
+/**
+ * Content state of a file when its units were indexed (from FileMetadata)
+ */
+export interface IndexedFile {
+    hash: string;
+    lastModified: number;
+}
+
 /**
  * Vector store interface (abstract)
  */
@@ -196,6 +259,9 @@ export interface VectorStore {
     /** Search for similar vectors */
     search(query: number[], options: SearchOptions): Promise<SearchResult[]>;
 
+    /** Get the stored embedding for an ID */
+    getEmbedding(id: string): Promise<number[] | null>;
+
     /** Delete a vector by ID */
     delete(id: string): Promise<void>;
 
@@ -212,17 +278,40 @@ export interface VectorStore {
     size(): number;
 }
 
+/**
+ * Interface for keyword indexes over code units
+ */
+export interface LexicalIndex {
+    /** Add a unit, replacing any unit with the same ID */
+    add(unit: CodeUnit): void;
+
+    /** Remove a unit by ID */
+    remove(id: string): void;
+
+    /** Search for units containing the query's terms */
+    search(query: string, options: Omit<SearchOptions, 'minSimilarity'>): LexicalSearchResult[];
+
+    /** Get total count */
+    size(): number;
+}
+
 /**
  * Serializable version of semantic index for storage
+ *
+ * Embeddings live in the vector store file next to it.
  */
 export interface SerializedSemanticIndex {
-    units: Array<[string, CodeUnit]>;
-    embeddings: Array<[string, number[]]>;
     lastUpdated: number;
     projectRoot: string;
     version: string;
+    embeddingModel: string;
+    complete: boolean;
+    /** All units, including ones still waiting for an embedding */
+    units: CodeUnit[];
+    files: Array<[string, IndexedFile]>;
     stats: SemanticIndex['stats'];
-    vectorStoreData: any;
+    /** File name of the saved vector store, relative to the cache directory */
+    vectorStoreFile: string;
 }
 
 /**
@@ -238,8 +327,50 @@ export interface IndexBuildOptions {
     /** Maximum units to index (for testing) */
     maxUnits?: number;
 
-    /** Skip embedding generation (testing) */
+    /** Skip embedding generation (keyword-only index, or testing) */
     skipEmbeddings?: boolean;
+
+    /** Embedding backend (defaults to getEmbeddingProvider()) */
+    embeddingProvider?: EmbeddingProvider;
+
+    /** Partial index whose embeddings should be kept (resuming a build) */
+    resumeFrom?: SemanticIndex;
+
+    /** Units to embed between checkpoints */
+    checkpointEvery?: number;
+
+    /** Called with the partial index before embedding starts and at each checkpoint */
+    onCheckpoint?: (index: SemanticIndex) => void | Promise<void>;
+}
+
+/**
+ * Progress of a background indexing job
+ */
+export interface IndexingProgress {
+    /** Project being indexed */
+    projectRoot: string;
+
+    /** Job state; a failed job is restarted by the next request */
+    status: 'running' | 'complete' | 'failed';
+
+    /** Current step, from IndexBuildOptions.onProgress */
+    message: string;
+
+    /** Units processed in the current step */
+    current: number;
+
+    /** Units in the current step */
+    total: number;
+
+    /** Units searchable so far */
+    embedded: number;
+
+    /** When the job started / last reported progress (ms since epoch) */
+    startedAt: number;
+    updatedAt: number;
+
+    /** Error message when status is 'failed' */
+    error?: string;
 }
 
 /**
@@ -258,3 +389,17 @@ export interface RetrievalOptions {
     /** Exclude current file from results */
     excludeCurrentFile?: boolean;
 }
+
+/**
+ * Options for free-text code search
+ */
+export interface CodeSearchOptions {
+    /** Maximum results to return */
+    maxResults?: number;
+
+    /** Restrict results to one language */
+    language?: string;
+
+    /** Minimum raw similarity for a candidate (natural language scores lower than code-to-code) */
+    minSimilarity?: number;
+}
@@ -3,10 +3,11 @@
  * 
  * Simple vector store implementation using cosine similarity.
  * Stores vectors in memory with optional persistence to disk.
+ * Search is brute force; the semantic index uses HnswVectorStore.
  */
 
 import fs from 'fs/promises';
-import type { VectorStore, SearchOptions, SearchResult } from './types';
+import type { CodeUnit, VectorStore, SearchOptions, SearchResult, UnitFilterFields } from './types';
 
 export class InMemoryVectorStore implements VectorStore {
     private vectors: Map<string, {
@@ -29,7 +30,7 @@ export class InMemoryVectorStore implements VectorStore {
 
         for (const [id, data] of this.vectors) {
             // Apply filters
-            if (!this.matchesFilters(data.metadata, options.filters)) {
+            if (!matchesSearchFilters(data.metadata, options.filters)) {
                 continue;
             }
 
@@ -54,6 +55,13 @@ export class InMemoryVectorStore implements VectorStore {
             .slice(0, options.topK);
     }
 
+    /**
+     * Get the stored embedding for an ID
+     */
+    async getEmbedding(id: string): Promise<number[] | null> {
+        return this.vectors.get(id)?.embedding ?? null;
+    }
+
     /**
      * Delete a vector by ID
      */
@@ -100,41 +108,48 @@ export class InMemoryVectorStore implements VectorStore {
             this.vectors = new Map();
         }
     }
+}
 
-    /**
-     * Check if metadata matches filters
-     */
-    private matchesFilters(metadata: any, filters?: SearchOptions['filters']): boolean {
-        if (!filters) {
-            return true;
-        }
+/**
+ * The fields of a unit stored as vector metadata
+ */
+export function unitFilterFields(unit: CodeUnit): UnitFilterFields {
+    return { file: unit.file, language: unit.language, type: unit.type };
+}
 
-        // Filter by file
-        if (filters.file && metadata.unit?.file !== filters.file) {
-            return false;
-        }
+/**
+ * Check if a unit (or its stored filter fields) matches search filters
+ */
+export function matchesSearchFilters(fields: UnitFilterFields | null | undefined, filters?: SearchOptions['filters']): boolean {
+    if (!filters) {
+        return true;
+    }
 
-        // Filter by language
-        if (filters.language && metadata.unit?.language !== filters.language) {
-            return false;
-        }
+    // Filter by file
+    if (filters.file && fields?.file !== filters.file) {
+        return false;
+    }
 
-        // Filter by types
-        if (filters.types && filters.types.length > 0) {
-            if (!metadata.unit || !filters.types.includes(metadata.unit.type)) {
-                return false;
-            }
-        }
+    // Filter by language
+    if (filters.language && fields?.language !== filters.language) {
+        return false;
+    }
 
-        // Exclude specific files
-        if (filters.excludeFiles && filters.excludeFiles.length > 0) {
-            if (metadata.unit && filters.excludeFiles.includes(metadata.unit.file)) {
-                return false;
-            }
+    // Filter by types
+    if (filters.types && filters.types.length > 0) {
+        if (!fields || !filters.types.includes(fields.type)) {
+            return false;
         }
+    }
 
-        return true;
+    // Exclude specific files
+    if (filters.excludeFiles && filters.excludeFiles.length > 0) {
+        if (fields && filters.excludeFiles.includes(fields.file)) {
+            return false;
+        }
     }
+
+    return true;
 }
 
 /**
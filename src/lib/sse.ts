@@ -0,0 +1,157 @@
+/**
+ * Minimal Server-Sent Events helpers shared by API routes and client components.
+ */
+
+export const SSE_HEADERS = {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive'
+};
+
+/**
+ * Usage and provider of a streamed completion, plus route-specific context stats
+ */
+export interface CompletionMeta {
+    tokens: number;
+    cost: string;
+    provider: string;
+    model: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Events of a streamed completion; `done` carries the route's result fields
+ */
+export type CompletionEvent<Done extends object> =
+    | { type: 'token'; text: string }
+    | ({ type: 'done' } & Done)
+    | { type: 'error'; error: string };
+
+/** Events of /api/explain */
+export type ExplanationEvent = CompletionEvent<{
+    explanation: string;
+    context?: string;
+    meta: CompletionMeta;
+    isCached?: boolean;
+}>;
+
+/** Events of /api/chat */
+export type ChatEvent = CompletionEvent<{
+    reply: string;
+    meta: CompletionMeta;
+}>;
+
+/**
+ * Encode a JSON payload as a single SSE `data:` event
+ */
+export function encodeSSEEvent(data: object): Uint8Array {
+    return new TextEncoder().encode(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Stream model output as SSE: { type: 'token', text } per chunk, then
+ * { type: 'done', ...onDone(fullText) } or { type: 'error', error }.
+ *
+ * `stream` gets a signal that aborts the backend request when the client
+ * disconnects (the response is cancelled or `requestSignal` aborts); nothing
+ * more is sent after that.
+ */
+export function streamCompletion<Done extends object>(
+    stream: (signal: AbortSignal) => AsyncIterable<string>,
+    onDone: (text: string) => Done | Promise<Done>,
+    logPrefix: string,
+    requestSignal?: AbortSignal
+): Response {
+    const abort = new AbortController();
+    const iterator = stream(abort.signal)[Symbol.asyncIterator]();
+    let cancelled = false;
+
+    const cancel = () => {
+        cancelled = true;
+        abort.abort();
+        iterator.return?.().catch(() => { /* the stream already failed */ });
+    };
+    requestSignal?.addEventListener('abort', cancel, { once: true });
+
+    const send = (controller: ReadableStreamDefaultController<Uint8Array>, event: CompletionEvent<Done>) => {
+        controller.enqueue(encodeSSEEvent(event));
+    };
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let text = '';
+
+            try {
+                for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+                    if (cancelled) return;
+                    text += next.value;
+                    send(controller, { type: 'token', text: next.value });
+                }
+                if (cancelled) return;
+
+                const result = await onDone(text);
+                if (cancelled) return;
+                send(controller, { type: 'done', ...result });
+            } catch (error: any) {
+                if (cancelled) return;
+                console.error(`${logPrefix} Streaming error:`, error);
+                send(controller, { type: 'error', error: "LLM Error: " + (error.message || "Unknown error") });
+            } finally {
+                requestSignal?.removeEventListener('abort', cancel);
+                if (!cancelled) controller.close();
+            }
+        },
+
+        // The client aborted (e.g. another line was selected): stop generating
+        cancel
+    });
+
+    return new Response(body, { headers: SSE_HEADERS });
+}
+
+/**
+ * Check whether a fetch response is an event stream
+ */
+export function isEventStream(response: Response): boolean {
+    return (response.headers.get('Content-Type') || '').includes('text/event-stream');
+}
+
+/**
+ * Read a `text/event-stream` response body, invoking onEvent for each JSON event
+ */
+export async function readSSEStream<Event>(
+    response: Response,
+    onEvent: (event: Event) => void
+): Promise<void> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            const rawEvent = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+
+            const data = rawEvent
+                .split('\n')
+                .filter(line => line.startsWith('data:'))
+                .map(line => line.slice(5).trimStart())
+                .join('\n');
+
+            if (data) {
+                onEvent(JSON.parse(data));
+            }
+
+            boundary = buffer.indexOf('\n\n');
+        }
+    }
+}